@@ -7,6 +7,26 @@ import axios from 'axios'
 // Mock dependencies
 jest.mock('@/lib/ai-service')
 jest.mock('@/lib/prompt-templates')
+jest.mock('@/lib/prompt-registry')
+jest.mock('@/lib/blessing-cache')
+jest.mock('@/lib/blessing-postprocess', () => ({
+  finalizeBlessing: jest.fn(async (raw: string) => raw),
+  polishBlessing: jest.fn((raw: string) => raw),
+}))
+jest.mock('@/lib/content-moderation', () => ({
+  generateWithModeration: jest.fn(async (prompt: string, _context: unknown, run: (prompt: string, attempt: number) => Promise<unknown>) => ({
+    result: await run(prompt, 1),
+    passed: true,
+  })),
+  moderateText: jest.fn(() => ({ passed: true, hits: [] })),
+}))
+jest.mock('@/lib/redemption', () => ({
+  getUserEntitlements: jest.fn(async () => ({ extraDailyGenerations: 0, premiumStyles: [], cardThemes: [] })),
+  isPremiumStyle: jest.fn(() => false),
+}))
+jest.mock('@/lib/rate-limit', () => ({
+  checkRateLimit: jest.fn(async () => ({ success: true, limit: 50, remaining: 49, resetTime: 0 })),
+}))
 jest.mock('axios', () => ({
   isAxiosError: jest.fn()
 }))
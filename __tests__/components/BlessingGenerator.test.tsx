@@ -4,11 +4,16 @@ import * as apiClient from '@/lib/api-client'
 
 // Mock the API client
 jest.mock('@/lib/api-client', () => ({
-  generateBlessing: jest.fn(),
+  generateBlessingStream: jest.fn(),
+  generateBlessingVariants: jest.fn(),
+  recordBlessingCopy: jest.fn(),
 }))
 
-const mockGenerateBlessing = apiClient.generateBlessing as jest.MockedFunction<
-  typeof apiClient.generateBlessing
+const mockGenerateBlessing = apiClient.generateBlessingStream as jest.MockedFunction<
+  typeof apiClient.generateBlessingStream
+>
+const mockGenerateVariants = apiClient.generateBlessingVariants as jest.MockedFunction<
+  typeof apiClient.generateBlessingVariants
 >
 
 describe('BlessingGenerator', () => {
@@ -76,6 +81,32 @@ describe('BlessingGenerator', () => {
     })
   })
 
+  it('clears streamed text when the stream ends with an error', async () => {
+    // 首轮增量已推送，审核未通过后服务端以 { error } 结束
+    mockGenerateBlessing.mockImplementation(async (_options, onDelta) => {
+      onDelta('未审核的')
+      onDelta('祝福语')
+      throw new Error('生成内容未通过安全审核')
+    })
+
+    render(<BlessingGenerator />)
+
+    const smartModeTab = screen.getByText('智能描述')
+    fireEvent.click(smartModeTab)
+
+    const textarea = screen.getByPlaceholderText(/例如：给室友小王发生日祝福/i)
+    fireEvent.change(textarea, { target: { value: '生日祝福' } })
+
+    const submitButton = screen.getByRole('button', { name: /根据你的描述生成个性化祝福语/i })
+    fireEvent.click(submitButton)
+
+    await waitFor(() => {
+      expect(screen.getByRole('alert')).toHaveTextContent(/未通过安全审核/i)
+    })
+    expect(screen.queryByText('未审核的祝福语')).not.toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /复制生成的祝福语到剪贴板/i })).not.toBeInTheDocument()
+  })
+
   it('successfully copies blessing to clipboard', async () => {
     mockGenerateBlessing.mockResolvedValue('测试祝福语内容')
 
@@ -140,9 +171,11 @@ describe('BlessingGenerator', () => {
   })
 
   it('regenerates blessing when regenerate button is clicked', async () => {
-    mockGenerateBlessing
-      .mockResolvedValueOnce('第一次生成的祝福语')
-      .mockResolvedValueOnce('重新生成的祝福语')
+    mockGenerateBlessing.mockResolvedValueOnce('第一次生成的祝福语')
+    mockGenerateVariants.mockResolvedValueOnce({
+      blessings: ['重新生成的祝福语', '第二条候选', '第三条候选'],
+      historyId: 'history-1',
+    })
 
     render(<BlessingGenerator />)
     
@@ -167,8 +200,19 @@ describe('BlessingGenerator', () => {
     await waitFor(() => {
       expect(screen.getByText('重新生成的祝福语')).toBeInTheDocument()
     })
+    expect(screen.getByText('第三条候选')).toBeInTheDocument()
     
-    expect(mockGenerateBlessing).toHaveBeenCalledTimes(2)
+    expect(mockGenerateBlessing).toHaveBeenCalledTimes(1)
+    expect(mockGenerateVariants).toHaveBeenCalledTimes(1)
+
+    // 切换到第二条候选后复制，应记录复制的下标
+    fireEvent.click(screen.getByRole('tab', { name: '查看第 2 条候选' }))
+    fireEvent.click(screen.getByRole('button', { name: /复制生成的祝福语到剪贴板/i }))
+
+    await waitFor(() => {
+      expect(navigator.clipboard.writeText).toHaveBeenCalledWith('第二条候选')
+    })
+    expect(apiClient.recordBlessingCopy).toHaveBeenCalledWith('history-1', 1)
   })
 
   it('provides accessibility features', () => {
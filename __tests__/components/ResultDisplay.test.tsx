@@ -163,4 +163,25 @@ describe('ResultDisplay', () => {
     expect(screen.getByText('测试祝福语')).toBeInTheDocument()
     expect(screen.getByRole('alert')).toHaveTextContent('警告信息')
   })
-})
\ No newline at end of file
+
+  it('renders quick-refine chips and asks for a name before adding it', () => {
+    const onRefine = jest.fn()
+    render(
+      <ResultDisplay
+        {...defaultProps}
+        blessing="祝你生日快乐，天天开心！"
+        onRefine={onRefine}
+      />
+    )
+
+    fireEvent.click(screen.getByRole('button', { name: '再短一点' }))
+    expect(onRefine).toHaveBeenCalledWith('shorter')
+
+    fireEvent.click(screen.getByRole('button', { name: '加上名字' }))
+    expect(onRefine).toHaveBeenCalledTimes(1)
+
+    fireEvent.change(screen.getByLabelText('对方的名字'), { target: { value: '小王' } })
+    fireEvent.click(screen.getByRole('button', { name: '确定' }))
+    expect(onRefine).toHaveBeenLastCalledWith('add_name', '小王')
+  })
+})
@@ -0,0 +1,166 @@
+import { AchievementMetrics, calculateBadgeProgress, evaluateAchievements } from '@/lib/achievements'
+import { achievementDb, badgeDb, dailyChallengeDb, userStatsDb } from '@/lib/db'
+import { invalidateBadgeCache } from '@/lib/badge-registry'
+
+jest.mock('@/lib/ai-service', () => ({
+  generateBlessing: jest.fn(),
+}))
+jest.mock('@/lib/db', () => ({
+  achievementDb: {
+    initAchievements: jest.fn(),
+    getUserAchievements: jest.fn(),
+    unlockAchievement: jest.fn(),
+    updateProgress: jest.fn(),
+    getCoupletMetrics: jest.fn(),
+    getThemeCounts: jest.fn(),
+  },
+  userStatsDb: {
+    getUserStats: jest.fn(),
+  },
+  dailyChallengeDb: {
+    getUserChallengeDates: jest.fn(),
+  },
+  badgeDb: {
+    listBadges: jest.fn(async () => []),
+  },
+}))
+
+const mockAchievementDb = achievementDb as jest.Mocked<typeof achievementDb>
+const mockUserStatsDb = userStatsDb as jest.Mocked<typeof userStatsDb>
+const mockDailyChallengeDb = dailyChallengeDb as jest.Mocked<typeof dailyChallengeDb>
+const mockBadgeDb = badgeDb as jest.Mocked<typeof badgeDb>
+
+const EMPTY_METRICS: AchievementMetrics = {
+  totalCouplets: 0,
+  threeStarCount: 0,
+  avgScore: 0,
+  totalShares: 0,
+  maxShareCount: 0,
+  themeCounts: {},
+  bestStreak: 0,
+}
+
+describe('achievements', () => {
+  describe('calculateBadgeProgress', () => {
+    it('measures count requirements as a capped percentage', () => {
+      const metrics = { ...EMPTY_METRICS, totalCouplets: 3, totalShares: 12, themeCounts: { 春节: 2 } }
+
+      expect(calculateBadgeProgress({ type: 'total_couplets', value: 5 }, metrics)).toBe(60)
+      expect(calculateBadgeProgress({ type: 'total_shares', value: 10 }, metrics)).toBe(100)
+      expect(calculateBadgeProgress({ type: 'theme_count', value: 5, theme: '春节' }, metrics)).toBe(40)
+      expect(calculateBadgeProgress({ type: 'theme_count', value: 5, theme: '元宵' }, metrics)).toBe(0)
+    })
+
+    it('requires both count and average for avg_score', () => {
+      const requirement = { type: 'avg_score' as const, value: 4, minCount: 5 }
+
+      expect(calculateBadgeProgress(requirement, { ...EMPTY_METRICS, totalCouplets: 2, avgScore: 5 })).toBe(40)
+      expect(calculateBadgeProgress(requirement, { ...EMPTY_METRICS, totalCouplets: 6, avgScore: 3 })).toBe(75)
+      expect(calculateBadgeProgress(requirement, { ...EMPTY_METRICS, totalCouplets: 6, avgScore: 4.2 })).toBe(100)
+    })
+  })
+
+  describe('evaluateAchievements', () => {
+    beforeEach(() => {
+      jest.clearAllMocks()
+      mockAchievementDb.getCoupletMetrics.mockResolvedValue({
+        totalCouplets: 1,
+        threeStarCount: 1,
+        avgScore: 3.5,
+        maxShareCount: 0,
+      })
+      mockAchievementDb.getThemeCounts.mockResolvedValue({ 日常: 1 })
+      mockUserStatsDb.getUserStats.mockResolvedValue({ total_shares: 0 } as never)
+      mockDailyChallengeDb.getUserChallengeDates.mockResolvedValue([])
+      mockAchievementDb.unlockAchievement.mockResolvedValue({ badge_id: 'novice' } as never)
+    })
+
+    it('unlocks reached badges and records progress for the rest', async () => {
+      mockAchievementDb.getUserAchievements.mockResolvedValue([
+        { badge_id: 'novice', progress: 0, unlocked_at: null },
+        { badge_id: 'enthusiast', progress: 0, unlocked_at: null },
+      ] as never)
+
+      const unlocked = await evaluateAchievements('openid_1')
+
+      expect(unlocked.map((badge) => badge.id)).toEqual(['novice'])
+      expect(mockAchievementDb.unlockAchievement).toHaveBeenCalledTimes(1)
+      expect(mockAchievementDb.updateProgress).toHaveBeenCalledWith('openid_1', 'enthusiast', 20)
+    })
+
+    it('does not report badges that are already unlocked', async () => {
+      mockAchievementDb.getUserAchievements.mockResolvedValue([
+        { badge_id: 'novice', progress: 100, unlocked_at: '2026-10-01T00:00:00.000Z' },
+        { badge_id: 'enthusiast', progress: 20, unlocked_at: null },
+      ] as never)
+
+      const unlocked = await evaluateAchievements('openid_1')
+
+      expect(unlocked).toEqual([])
+      expect(mockAchievementDb.unlockAchievement).not.toHaveBeenCalled()
+      expect(mockAchievementDb.updateProgress).not.toHaveBeenCalledWith('openid_1', 'enthusiast', expect.anything())
+    })
+
+    it('skips a badge another request unlocked first', async () => {
+      mockAchievementDb.getUserAchievements.mockResolvedValue([] as never)
+      mockAchievementDb.unlockAchievement.mockResolvedValue(null as never)
+
+      await expect(evaluateAchievements('openid_1')).resolves.toEqual([])
+    })
+
+    it('unlocks the sharing badges from repeated shares of one couplet', async () => {
+      // 同一对联分享 5 次、累计分享 10 次（分享次数每次都计入，只有积分按幂等键发放一次）
+      mockAchievementDb.getCoupletMetrics.mockResolvedValue({
+        totalCouplets: 1,
+        threeStarCount: 1,
+        avgScore: 3.5,
+        maxShareCount: 5,
+      })
+      mockUserStatsDb.getUserStats.mockResolvedValue({ total_shares: 10 } as never)
+      mockAchievementDb.getUserAchievements.mockResolvedValue([
+        { badge_id: 'novice', progress: 100, unlocked_at: '2026-10-01T00:00:00.000Z' },
+      ] as never)
+
+      const unlocked = await evaluateAchievements('openid_1')
+
+      expect(unlocked.map((badge) => badge.id)).toEqual(expect.arrayContaining(['viral', 'sharing_expert']))
+    })
+
+    it('counts only couplets created within a seasonal theme badge window', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-10-01T04:00:00.000Z'))
+      mockBadgeDb.listBadges.mockResolvedValueOnce([{
+        id: 'mid_autumn',
+        name: '中秋达人',
+        description: '中秋期间创作 3 副中秋对联',
+        icon: '🥮',
+        requirement: JSON.stringify({ type: 'theme_count', value: 3, theme: '中秋' }),
+        active_from: '2026-09-20',
+        active_to: '2026-10-08',
+        retired_at: null,
+      }] as never)
+      invalidateBadgeCache()
+      // 终身统计已满足条件，有效期内只有 1 副
+      mockAchievementDb.getThemeCounts.mockImplementation(async (_openid, range) => (range ? { 中秋: 1 } : { 中秋: 10 }))
+      mockAchievementDb.getUserAchievements.mockResolvedValue([] as never)
+
+      try {
+        await expect(evaluateAchievements('openid_1')).resolves.toEqual([])
+        expect(mockAchievementDb.getThemeCounts).toHaveBeenCalledWith('openid_1', {
+          from: '2026-09-19T16:00:00.000Z',
+          to: '2026-10-08T16:00:00.000Z',
+        })
+        expect(mockAchievementDb.updateProgress).toHaveBeenCalledWith('openid_1', 'mid_autumn', 33)
+      } finally {
+        jest.useRealTimers()
+        invalidateBadgeCache()
+      }
+    })
+
+    it('never fails the calling request', async () => {
+      jest.spyOn(console, 'error').mockImplementation()
+      mockAchievementDb.initAchievements.mockRejectedValue(new Error('db down'))
+
+      await expect(evaluateAchievements('openid_1')).resolves.toEqual([])
+    })
+  })
+})
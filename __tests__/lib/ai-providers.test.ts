@@ -0,0 +1,121 @@
+import { AI_ADAPTERS, estimateCost, loadProviderRegistry, toChatMessages } from '@/lib/ai-providers'
+
+describe('ai-providers', () => {
+  beforeEach(() => {
+    delete process.env.AI_PROVIDERS
+    delete process.env.PRIMARY_AI_API_KEY
+    delete process.env.PRIMARY_AI_BASE_URL
+    delete process.env.PRIMARY_AI_MODEL
+    delete process.env.FALLBACK_AI_API_KEY
+    delete process.env.FALLBACK_AI_BASE_URL
+    delete process.env.FALLBACK_AI_MODEL
+    delete process.env.ENABLE_FALLBACK
+    delete process.env.QWEN_API_KEY
+  })
+
+  describe('loadProviderRegistry', () => {
+    it('falls back to legacy primary/fallback variables', () => {
+      process.env.PRIMARY_AI_API_KEY = 'primary-key'
+      process.env.FALLBACK_AI_API_KEY = 'fallback-key'
+      process.env.ENABLE_FALLBACK = 'true'
+
+      const registry = loadProviderRegistry()
+
+      expect(registry.enableFallback).toBe(true)
+      expect(registry.providers).toEqual([
+        expect.objectContaining({ name: 'primary', adapter: 'openai', baseUrl: 'https://api.deepseek.com', model: 'deepseek-chat' }),
+        expect.objectContaining({ name: 'fallback', adapter: 'openai', baseUrl: 'https://api.openai.com/v1', model: 'gpt-3.5-turbo' }),
+      ])
+    })
+
+    it('loads an ordered chain with per-provider parameters from AI_PROVIDERS', () => {
+      process.env.QWEN_API_KEY = 'qwen-key'
+      process.env.AI_PROVIDERS = JSON.stringify([
+        { name: 'qwen', apiKeyEnv: 'QWEN_API_KEY', baseUrl: 'https://dashscope.aliyuncs.com/compatible-mode/v1/', model: 'qwen-turbo', temperature: 0.8, maxTokens: 500, timeout: 10000 },
+        { name: 'local', baseUrl: 'http://localhost:8000/v1', model: 'stub' },
+      ])
+
+      const { providers } = loadProviderRegistry()
+
+      expect(providers).toEqual([
+        {
+          name: 'qwen',
+          adapter: 'openai',
+          apiKey: 'qwen-key',
+          baseUrl: 'https://dashscope.aliyuncs.com/compatible-mode/v1',
+          model: 'qwen-turbo',
+          temperature: 0.8,
+          maxTokens: 500,
+          timeout: 10000,
+        },
+        expect.objectContaining({ name: 'local', apiKey: '', temperature: undefined }),
+      ])
+    })
+
+    it('rejects malformed configuration', () => {
+      process.env.AI_PROVIDERS = '{not json'
+      expect(() => loadProviderRegistry()).toThrow('AI_PROVIDERS 配置格式错误')
+
+      process.env.AI_PROVIDERS = JSON.stringify([{ name: 'x', adapter: 'unknown', baseUrl: 'http://x', model: 'm' }])
+      expect(() => loadProviderRegistry()).toThrow('适配器 unknown 不受支持')
+
+      process.env.AI_PROVIDERS = JSON.stringify([{ name: 'x', baseUrl: 'http://x' }])
+      expect(() => loadProviderRegistry()).toThrow('缺少 baseUrl 或 model')
+    })
+  })
+
+  describe('adapters', () => {
+    const config = { name: 'test', adapter: 'openai' as const, apiKey: 'key', baseUrl: 'https://api.test.com', model: 'm', maxTokens: 200 }
+
+    it('omits the Authorization header for keyless OpenAI-compatible stubs', () => {
+      const request = AI_ADAPTERS.openai.buildRequest({ ...config, apiKey: '' }, 'hi', false)
+      expect(request.headers).toEqual({ 'Content-Type': 'application/json' })
+      expect(request.body).toEqual(expect.objectContaining({ max_tokens: 200, stream: false }))
+    })
+
+    it('builds and parses the wenxin format', () => {
+      const request = AI_ADAPTERS.wenxin.buildRequest({ ...config, adapter: 'wenxin', temperature: 0 }, 'hi', true)
+      expect(request.url).toBe('https://api.test.com/chat/m?access_token=key')
+      expect(request.body).toEqual({ messages: [{ role: 'user', content: 'hi' }], temperature: 0.01, max_output_tokens: 200, stream: true })
+      expect(AI_ADAPTERS.wenxin.parseResponse({ result: '你好' })).toBe('你好')
+      expect(() => AI_ADAPTERS.wenxin.parseResponse({ error_code: 110, error_msg: 'Access token invalid' })).toThrow('110')
+      expect(AI_ADAPTERS.wenxin.parseStreamChunk({ result: '你', is_end: false })).toBe('你')
+      expect(AI_ADAPTERS.wenxin.parseUsage({ result: '你', usage: { prompt_tokens: 3, completion_tokens: 1 } }))
+        .toEqual({ promptTokens: 3, completionTokens: 1 })
+    })
+
+    it('builds and parses the anthropic format', () => {
+      const request = AI_ADAPTERS.anthropic.buildRequest({ ...config, adapter: 'anthropic' }, 'hi', false)
+      expect(request.url).toBe('https://api.test.com/messages')
+      expect(request.headers).toEqual(expect.objectContaining({ 'x-api-key': 'key' }))
+      expect(AI_ADAPTERS.anthropic.parseResponse({ content: [{ type: 'text', text: '你好' }] })).toBe('你好')
+      expect(AI_ADAPTERS.anthropic.parseStreamChunk({ type: 'content_block_delta', delta: { type: 'text_delta', text: '好' } })).toBe('好')
+      expect(AI_ADAPTERS.anthropic.parseStreamChunk({ type: 'message_start' })).toBe('')
+      expect(AI_ADAPTERS.anthropic.parseUsage({ type: 'message_start', message: { usage: { input_tokens: 12, output_tokens: 1 } } }))
+        .toEqual({ promptTokens: 12, completionTokens: 1 })
+      expect(AI_ADAPTERS.anthropic.parseUsage({ type: 'message_delta', usage: { output_tokens: 30 } }))
+        .toEqual({ promptTokens: undefined, completionTokens: 30 })
+    })
+
+    it('sends multi-turn conversations as messages', () => {
+      const messages = [
+        { role: 'system' as const, content: '你是文案专家' },
+        { role: 'user' as const, content: '写一段祝福' },
+        { role: 'assistant' as const, content: '生日快乐' },
+        { role: 'user' as const, content: '再短一点' },
+      ]
+      expect(AI_ADAPTERS.openai.buildRequest(config, messages, false).body).toEqual(expect.objectContaining({ messages }))
+      // 文心与 Anthropic 的系统提示走单独的 system 字段
+      expect(AI_ADAPTERS.anthropic.buildRequest({ ...config, adapter: 'anthropic' }, messages, false).body)
+        .toEqual(expect.objectContaining({ system: '你是文案专家', messages: messages.slice(1) }))
+      expect(AI_ADAPTERS.wenxin.buildRequest({ ...config, adapter: 'wenxin' }, messages, false).body)
+        .toEqual(expect.objectContaining({ system: '你是文案专家', messages: messages.slice(1) }))
+      expect(toChatMessages('hi')).toEqual([{ role: 'user', content: 'hi' }])
+    })
+
+    it('estimates cost from per-million-token prices', () => {
+      expect(estimateCost({ ...config, inputPrice: 2, outputPrice: 8 }, { promptTokens: 500000, completionTokens: 250000 })).toBe(3)
+      expect(estimateCost(config, { promptTokens: 500000, completionTokens: 250000 })).toBe(0)
+    })
+  })
+})
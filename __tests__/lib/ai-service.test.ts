@@ -1,13 +1,40 @@
 import axios from 'axios'
-import { callAI, generateBlessing } from '@/lib/ai-service'
+import { Readable } from 'stream'
+import {
+  callAI,
+  callAIStream,
+  generateBlessing,
+  generateBlessingStream,
+  generateWithProvider,
+} from '@/lib/ai-service'
+
+import * as circuitBreaker from '@/lib/circuit-breaker'
+import { usageDb } from '@/lib/db'
 
 // Mock axios
 jest.mock('axios')
 const mockedAxios = axios as jest.Mocked<typeof axios>
 
+// Mock circuit breaker (always closed unless a test says otherwise)
+jest.mock('@/lib/circuit-breaker', () => ({
+  canRequest: jest.fn(),
+  recordSuccess: jest.fn(),
+  recordFailure: jest.fn(),
+}))
+const mockCanRequest = circuitBreaker.canRequest as jest.MockedFunction<typeof circuitBreaker.canRequest>
+
+// Mock usage log (no database in unit tests)
+jest.mock('@/lib/db', () => ({
+  usageDb: {
+    logUsage: jest.fn(),
+  },
+}))
+const mockLogUsage = usageDb.logUsage as jest.MockedFunction<typeof usageDb.logUsage>
+
 describe('ai-service', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    mockCanRequest.mockResolvedValue(true)
     // Clear environment variables
     delete process.env.PRIMARY_AI_API_KEY
     delete process.env.PRIMARY_AI_BASE_URL
@@ -19,6 +46,7 @@ describe('ai-service', () => {
     delete process.env.AI_MAX_TOKENS
     delete process.env.AI_TEMPERATURE
     delete process.env.AI_TIMEOUT
+    delete process.env.AI_PROVIDERS
   })
 
   describe('callAI', () => {
@@ -163,7 +191,7 @@ describe('ai-service', () => {
 
       expect(result).toBe(expectedBlessing)
       expect(mockedAxios.post).toHaveBeenCalledTimes(2)
-      expect(consoleSpy).toHaveBeenCalledWith('主力API调用失败:', expect.any(Error))
+      expect(consoleSpy).toHaveBeenCalledWith('AI供应商 primary 调用失败，尝试下一个:', expect.any(Error))
       
       consoleSpy.mockRestore()
     })
@@ -203,8 +231,8 @@ describe('ai-service', () => {
 
       await expect(generateBlessing(prompt)).rejects.toThrow('Fallback API failed')
       
-      expect(consoleSpy).toHaveBeenCalledWith('主力API调用失败:', expect.any(Error))
-      expect(consoleErrorSpy).toHaveBeenCalledWith('备用API调用失败:', expect.any(Error))
+      expect(consoleSpy).toHaveBeenCalledWith('AI供应商 primary 调用失败，尝试下一个:', expect.any(Error))
+      expect(consoleErrorSpy).toHaveBeenCalledWith('AI供应商 fallback 调用失败:', expect.any(Error))
       
       consoleSpy.mockRestore()
       consoleErrorSpy.mockRestore()
@@ -254,4 +282,328 @@ describe('ai-service', () => {
       )
     })
   })
-})
\ No newline at end of file
+
+  describe('generateWithProvider', () => {
+    const providers = [
+      { name: 'deepseek', baseUrl: 'https://api.deepseek.com', model: 'deepseek-chat', apiKeyEnv: 'DEEPSEEK_API_KEY', inputPrice: 2, outputPrice: 8 },
+      { name: 'qwen', baseUrl: 'https://dashscope.aliyuncs.com/compatible-mode/v1', model: 'qwen-turbo', apiKey: 'qwen-key', temperature: 0.9 },
+      { name: 'ernie', adapter: 'wenxin', baseUrl: 'https://aip.baidubce.com/rpc/2.0/ai_custom/v1/wenxinworkshop', model: 'completions', apiKey: 'ernie-token' },
+      { name: 'local', baseUrl: 'http://localhost:11434/v1', model: 'qwen2:7b' },
+    ]
+
+    beforeEach(() => {
+      process.env.AI_PROVIDERS = JSON.stringify(providers)
+      process.env.DEEPSEEK_API_KEY = 'deepseek-key'
+      process.env.ENABLE_FALLBACK = 'true'
+    })
+
+    afterEach(() => {
+      delete process.env.DEEPSEEK_API_KEY
+    })
+
+    it('reports which provider served the call', async () => {
+      mockedAxios.post.mockResolvedValue({
+        data: { choices: [{ message: { content: '祝福语' } }] }
+      })
+
+      const result = await generateWithProvider('生成祝福语')
+
+      expect(result).toEqual({ text: '祝福语', provider: 'deepseek', model: 'deepseek-chat' })
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'https://api.deepseek.com/chat/completions',
+        expect.any(Object),
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: 'Bearer deepseek-key' })
+        })
+      )
+    })
+
+    it('walks the chain in order until a provider succeeds', async () => {
+      mockedAxios.post
+        .mockRejectedValueOnce(new Error('deepseek down'))
+        .mockRejectedValueOnce(new Error('qwen down'))
+        .mockResolvedValueOnce({ data: { result: '文心祝福' } })
+
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation()
+
+      const result = await generateWithProvider('生成祝福语')
+
+      expect(result).toEqual({ text: '文心祝福', provider: 'ernie', model: 'completions' })
+      expect(mockedAxios.post).toHaveBeenNthCalledWith(
+        2,
+        'https://dashscope.aliyuncs.com/compatible-mode/v1/chat/completions',
+        expect.objectContaining({ model: 'qwen-turbo', temperature: 0.9 }),
+        expect.any(Object)
+      )
+      expect(mockedAxios.post).toHaveBeenNthCalledWith(
+        3,
+        'https://aip.baidubce.com/rpc/2.0/ai_custom/v1/wenxinworkshop/chat/completions?access_token=ernie-token',
+        expect.objectContaining({ messages: [{ role: 'user', content: '生成祝福语' }], stream: false }),
+        expect.any(Object)
+      )
+
+      consoleSpy.mockRestore()
+    })
+
+    it('skips providers whose circuit is open and records outcomes', async () => {
+      mockCanRequest.mockImplementation(async (name) => name !== 'deepseek')
+      mockedAxios.post.mockResolvedValue({
+        data: { choices: [{ message: { content: '千问祝福' } }] }
+      })
+
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation()
+
+      const result = await generateWithProvider('生成祝福语')
+
+      expect(result.provider).toBe('qwen')
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1)
+      expect(consoleSpy).toHaveBeenCalledWith('AI供应商 deepseek 熔断中，已跳过')
+      expect(circuitBreaker.recordSuccess).toHaveBeenCalledWith('qwen')
+
+      consoleSpy.mockRestore()
+    })
+
+    it('records failures against the provider that failed', async () => {
+      const error = new Error('deepseek down')
+      mockedAxios.post
+        .mockRejectedValueOnce(error)
+        .mockResolvedValueOnce({ data: { choices: [{ message: { content: '祝福语' } }] } })
+
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation()
+
+      await generateWithProvider('生成祝福语')
+
+      expect(circuitBreaker.recordFailure).toHaveBeenCalledWith('deepseek', error)
+      expect(circuitBreaker.recordSuccess).toHaveBeenCalledWith('qwen')
+
+      consoleSpy.mockRestore()
+    })
+
+    it('logs token usage, cost and latency for the feature', async () => {
+      mockedAxios.post.mockResolvedValue({
+        data: {
+          choices: [{ message: { content: '上联' } }],
+          usage: { prompt_tokens: 1000, completion_tokens: 500 },
+        }
+      })
+
+      await generateWithProvider('生成上联', 'couplet_upper')
+
+      expect(mockLogUsage).toHaveBeenCalledWith({
+        feature: 'couplet_upper',
+        provider: 'deepseek',
+        model: 'deepseek-chat',
+        promptTokens: 1000,
+        completionTokens: 500,
+        cost: 0.006,
+        latencyMs: expect.any(Number),
+        success: true,
+        error: undefined,
+      })
+    })
+
+    it('logs failed calls and keeps going when the log write fails', async () => {
+      mockedAxios.post
+        .mockRejectedValueOnce(new Error('deepseek down'))
+        .mockResolvedValueOnce({ data: { choices: [{ message: { content: '祝福语' } }] } })
+      mockLogUsage.mockRejectedValueOnce(new Error('db down'))
+
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation()
+
+      const result = await generateWithProvider('生成祝福语')
+
+      expect(result.provider).toBe('qwen')
+      expect(mockLogUsage).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        provider: 'deepseek', success: false, error: 'deepseek down', promptTokens: 0,
+      }))
+      expect(mockLogUsage).toHaveBeenNthCalledWith(2, expect.objectContaining({
+        feature: 'blessing', provider: 'qwen', success: true, cost: 0,
+      }))
+      expect(errorSpy).toHaveBeenCalledWith('记录AI用量失败:', expect.any(Error))
+
+      warnSpy.mockRestore()
+      errorSpy.mockRestore()
+    })
+
+    it('logs the failed call when every provider fails', async () => {
+      process.env.ENABLE_FALLBACK = 'false'
+      mockedAxios.post.mockRejectedValueOnce(new Error('deepseek down'))
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation()
+
+      await expect(generateWithProvider('生成祝福语')).rejects.toThrow('deepseek down')
+
+      expect(mockLogUsage).toHaveBeenCalledTimes(1)
+      expect(mockLogUsage).toHaveBeenCalledWith(expect.objectContaining({
+        feature: 'blessing', provider: 'deepseek', success: false, error: 'deepseek down',
+      }))
+
+      errorSpy.mockRestore()
+    })
+
+    it('stops waiting for a slow log write', async () => {
+      mockedAxios.post.mockResolvedValueOnce({ data: { choices: [{ message: { content: '祝福语' } }] } })
+      mockLogUsage.mockReturnValueOnce(new Promise(() => {}))
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation()
+
+      const result = await generateWithProvider('生成祝福语')
+
+      expect(result.provider).toBe('deepseek')
+      expect(errorSpy).toHaveBeenCalledWith('记录AI用量失败:', expect.objectContaining({ message: '写入超时' }))
+
+      errorSpy.mockRestore()
+    })
+
+    it('only uses the first provider when fallback is disabled', async () => {
+      process.env.ENABLE_FALLBACK = 'false'
+      mockedAxios.post.mockRejectedValue(new Error('deepseek down'))
+
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation()
+
+      await expect(generateWithProvider('生成祝福语')).rejects.toThrow('deepseek down')
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1)
+
+      consoleSpy.mockRestore()
+    })
+  })
+
+  describe('callAIStream', () => {
+    // 将 SSE 文本按给定分块构造成可读流
+    const createSSEStream = (chunks: string[]) =>
+      Readable.from(chunks.map((chunk) => Buffer.from(chunk)))
+
+    const config = {
+      apiKey: 'test-api-key',
+      baseUrl: 'https://api.test.com',
+      model: 'test-model'
+    }
+
+    it('requests a stream and emits content deltas', async () => {
+      mockedAxios.post.mockResolvedValue({
+        data: createSSEStream([
+          'data: {"choices":[{"delta":{"role":"assistant"}}]}\n',
+          'data: {"choices":[{"delta":{"content":"祝你"}}]}\n\ndata: {"choices":[{"delta":{"content":"生日快乐"}}]}\n',
+          'data: [DONE]\n',
+        ])
+      })
+
+      const onToken = jest.fn()
+      const result = await callAIStream(config, '生成祝福语', onToken)
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'https://api.test.com/chat/completions',
+        expect.objectContaining({ stream: true }),
+        expect.objectContaining({ responseType: 'stream' })
+      )
+      expect(onToken.mock.calls.map(([delta]) => delta)).toEqual(['祝你', '生日快乐'])
+      expect(result).toBe('祝你生日快乐')
+    })
+
+    it('asks OpenAI-compatible providers to include usage in the stream', async () => {
+      mockedAxios.post.mockResolvedValue({ data: createSSEStream(['data: [DONE]\n']) })
+
+      await callAIStream(config, '生成祝福语', jest.fn())
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ stream_options: { include_usage: true } }),
+        expect.any(Object)
+      )
+    })
+
+    it('aborts when the stream stalls between chunks', async () => {
+      process.env.AI_TIMEOUT = '50'
+      const stalledStream = new Readable({ read() {} })
+      mockedAxios.post.mockResolvedValueOnce({ data: stalledStream })
+
+      const onToken = jest.fn()
+      const pending = callAIStream(config, '生成祝福语', onToken)
+      await new Promise((resolve) => setTimeout(resolve, 0))
+      stalledStream.push(Buffer.from('data: {"choices":[{"delta":{"content":"祝你"}}]}\n'))
+
+      await expect(pending).rejects.toThrow('AI 流式响应超时')
+      expect(onToken).toHaveBeenCalledWith('祝你')
+      expect(stalledStream.destroyed).toBe(true)
+    })
+
+    it('handles multi-byte characters split across chunks', async () => {
+      const line = Buffer.from('data: {"choices":[{"delta":{"content":"福"}}]}\n')
+      const splitAt = line.indexOf(Buffer.from('福')) + 1
+
+      mockedAxios.post.mockResolvedValue({
+        data: Readable.from([line.subarray(0, splitAt), line.subarray(splitAt)])
+      })
+
+      const result = await callAIStream(config, '生成祝福语', jest.fn())
+
+      expect(result).toBe('福')
+    })
+  })
+
+  describe('generateBlessingStream', () => {
+    it('falls back before any token is emitted', async () => {
+      process.env.PRIMARY_AI_API_KEY = 'primary-key'
+      process.env.FALLBACK_AI_API_KEY = 'fallback-key'
+      process.env.ENABLE_FALLBACK = 'true'
+
+      mockedAxios.post
+        .mockRejectedValueOnce(new Error('Primary API failed'))
+        .mockResolvedValueOnce({
+          data: Readable.from([Buffer.from('data: {"choices":[{"delta":{"content":"备用祝福"}}]}\n')])
+        })
+
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation()
+
+      const result = await generateBlessingStream('生成祝福语', jest.fn())
+
+      expect(result).toBe('备用祝福')
+      expect(mockedAxios.post).toHaveBeenCalledTimes(2)
+
+      consoleSpy.mockRestore()
+    })
+
+    it('logs usage reported in the final stream event', async () => {
+      process.env.PRIMARY_AI_API_KEY = 'primary-key'
+
+      mockedAxios.post.mockResolvedValueOnce({
+        data: Readable.from([
+          Buffer.from('data: {"choices":[{"delta":{"content":"祝福"}}]}\n'),
+          Buffer.from('data: {"choices":[],"usage":{"prompt_tokens":120,"completion_tokens":40}}\n'),
+          Buffer.from('data: [DONE]\n'),
+        ])
+      })
+
+      await generateBlessingStream('生成祝福语', jest.fn())
+
+      expect(mockLogUsage).toHaveBeenCalledWith(expect.objectContaining({
+        feature: 'blessing',
+        provider: 'primary',
+        promptTokens: 120,
+        completionTokens: 40,
+        success: true,
+      }))
+    })
+
+    it('does not fall back once tokens have been emitted', async () => {
+      process.env.PRIMARY_AI_API_KEY = 'primary-key'
+      process.env.FALLBACK_AI_API_KEY = 'fallback-key'
+      process.env.ENABLE_FALLBACK = 'true'
+
+      const brokenStream = new Readable({ read() {} })
+      mockedAxios.post.mockResolvedValueOnce({ data: brokenStream })
+
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation()
+
+      const pending = generateBlessingStream('生成祝福语', jest.fn())
+      await new Promise((resolve) => setTimeout(resolve, 0))
+      brokenStream.push(Buffer.from('data: {"choices":[{"delta":{"content":"祝你"}}]}\n'))
+      await new Promise((resolve) => setTimeout(resolve, 0))
+      brokenStream.destroy(new Error('socket hang up'))
+
+      await expect(pending).rejects.toThrow('socket hang up')
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1)
+
+      consoleSpy.mockRestore()
+    })
+  })
+})
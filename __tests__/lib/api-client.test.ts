@@ -1,4 +1,10 @@
-import { generateBlessing } from '@/lib/api-client'
+import {
+  generateBlessing,
+  generateBlessingStream,
+  generateBlessingVariants,
+  recordBlessingCopy,
+  refineBlessing,
+} from '@/lib/api-client'
 
 // Mock fetch globally
 const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>
@@ -161,4 +167,207 @@ describe('api-client', () => {
       consoleSpy.mockRestore()
     })
   })
-})
\ No newline at end of file
+
+  describe('generateBlessingStream', () => {
+    // 构造一个按给定文本块依次返回的 ReadableStream reader
+    const createStreamResponse = (chunks: string[]) => {
+      const encoder = new TextEncoder()
+      const queue = chunks.map((chunk) => encoder.encode(chunk))
+      return {
+        ok: true,
+        body: {
+          getReader: () => ({
+            read: jest.fn(async () =>
+              queue.length > 0
+                ? { done: false, value: queue.shift() }
+                : { done: true, value: undefined }
+            ),
+          }),
+        },
+      }
+    }
+
+    const options = {
+      scenario: '',
+      festival: '',
+      targetPerson: '',
+      customDescription: '为朋友的生日祝福',
+      useSmartMode: true
+    }
+
+    it('requests stream mode and emits deltas as they arrive', async () => {
+      mockFetch.mockResolvedValue(createStreamResponse([
+        'data: {"delta":"祝你"}\n\n',
+        'data: {"delta":"生日"}\n\ndata: {"delta":"快乐"}\n',
+        '\ndata: {"done":true,"blessing":"祝你生日快乐"}\n\n',
+      ]) as any)
+
+      const onToken = jest.fn()
+      const result = await generateBlessingStream(options, onToken)
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/blessing', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...options, stream: true }),
+      })
+      expect(onToken.mock.calls.map(([delta]) => delta)).toEqual(['祝你', '生日', '快乐'])
+      expect(result).toBe('祝你生日快乐')
+    })
+
+    it('throws when the stream reports an error', async () => {
+      mockFetch.mockResolvedValue(createStreamResponse([
+        'data: {"delta":"祝你"}\n\n',
+        'data: {"error":"请求太频繁，请稍后再试"}\n\n',
+      ]) as any)
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation()
+
+      await expect(generateBlessingStream(options, jest.fn())).rejects.toThrow('请求太频繁，请稍后再试')
+
+      consoleSpy.mockRestore()
+    })
+
+    it('skips malformed events instead of failing with a parse error', async () => {
+      mockFetch.mockResolvedValue(createStreamResponse([
+        'data: {"delta":"祝你"}\n\n',
+        'data: {"delta":\n\n',
+        'data: {"done":true,"blessing":"祝你生日快乐"}\n\n',
+      ]) as any)
+
+      await expect(generateBlessingStream(options, jest.fn())).resolves.toBe('祝你生日快乐')
+    })
+
+    it('throws when the stream closes without a done event', async () => {
+      mockFetch.mockResolvedValue(createStreamResponse([
+        'data: {"delta":"祝你"}\n\n',
+        'data: {"delta":"生日"}\n\n',
+      ]) as any)
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation()
+
+      await expect(generateBlessingStream(options, jest.fn())).rejects.toThrow('生成祝福语失败')
+
+      consoleSpy.mockRestore()
+    })
+
+    it('throws API error before the stream starts', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 400,
+        json: jest.fn().mockResolvedValue({ error: '请输入场景描述' })
+      } as any)
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation()
+
+      await expect(generateBlessingStream(options, jest.fn())).rejects.toThrow('请输入场景描述')
+
+      consoleSpy.mockRestore()
+    })
+  })
+
+  describe('generateBlessingVariants', () => {
+    const options = {
+      scenario: 'birthday',
+      festival: '',
+      targetPerson: 'friend',
+      style: 'warm',
+    }
+
+    it('requests the given number of variants and returns history id', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          blessing: '候选一',
+          blessings: ['候选一', '候选二', '候选三', '候选四'],
+          historyId: 'history-1',
+        })
+      } as any)
+
+      const result = await generateBlessingVariants(options, 4)
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/blessing', expect.objectContaining({
+        body: JSON.stringify({ ...options, variants: 4 }),
+      }))
+      expect(result).toEqual({
+        blessings: ['候选一', '候选二', '候选三', '候选四'],
+        historyId: 'history-1',
+      })
+    })
+
+    it('falls back to the single blessing when the server returns no candidates', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ blessing: '只有一条' })
+      } as any)
+
+      const result = await generateBlessingVariants(options)
+
+      expect(result).toEqual({ blessings: ['只有一条'], historyId: null })
+    })
+  })
+
+  describe('recordBlessingCopy', () => {
+    it('sends the copied index to the history endpoint', async () => {
+      mockFetch.mockResolvedValue({ ok: true } as any)
+
+      await recordBlessingCopy('history-1', 2)
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/user/history', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ historyId: 'history-1', copiedIndex: 2 }),
+      })
+    })
+
+    it('swallows network errors', async () => {
+      mockFetch.mockRejectedValue(new Error('网络错误'))
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation()
+
+      await expect(recordBlessingCopy('history-1', 0)).resolves.toBeUndefined()
+
+      consoleSpy.mockRestore()
+    })
+  })
+
+  describe('refineBlessing', () => {
+    it('sends the previous blessing, preset and original context', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ blessing: '小王，生日快乐！', historyId: 'history-2' })
+      } as any)
+
+      const result = await refineBlessing({
+        blessing: '生日快乐！',
+        historyId: 'history-1',
+        preset: 'add_name',
+        name: '小王',
+        context: { scenario: 'birthday', festival: '', targetPerson: 'friend', style: 'warm' },
+      })
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/blessing/refine', expect.objectContaining({ method: 'POST' }))
+      expect(JSON.parse(mockFetch.mock.calls[0][1]!.body as string)).toEqual({
+        blessing: '生日快乐！',
+        historyId: 'history-1',
+        preset: 'add_name',
+        name: '小王',
+        occasion: 'birthday',
+        targetPerson: 'friend',
+        style: 'warm',
+      })
+      expect(result).toEqual({ blessing: '小王，生日快乐！', historyId: 'history-2' })
+    })
+
+    it('throws the server error message', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        json: jest.fn().mockResolvedValue({ error: '请输入修改意见' })
+      } as any)
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation()
+
+      await expect(refineBlessing({ blessing: '生日快乐！' })).rejects.toThrow('请输入修改意见')
+
+      consoleSpy.mockRestore()
+    })
+  })
+})
@@ -0,0 +1,112 @@
+import {
+  invalidateBadgeCache,
+  isBadgeActive,
+  loadBadgeDefinitions,
+  parseBadgeRequirement,
+  validateBadgeDefinition,
+} from '@/lib/badge-registry'
+import { DEFAULT_BADGE_DEFINITIONS } from '@/lib/config/badges'
+import { badgeDb } from '@/lib/db'
+
+jest.mock('@/lib/ai-service', () => ({
+  generateBlessing: jest.fn(),
+}))
+jest.mock('@/lib/db', () => ({
+  badgeDb: {
+    listBadges: jest.fn(),
+  },
+}))
+
+const mockBadgeDb = badgeDb as jest.Mocked<typeof badgeDb>
+
+const MID_AUTUMN = {
+  id: 'mid_autumn_2026',
+  name: '中秋达人',
+  description: '中秋主题对联≥3个',
+  icon: '🥮',
+  requirement: { type: 'theme_count', value: 3, theme: '中秋' },
+  activeFrom: '2026-09-20',
+  activeTo: '2026-10-08',
+}
+
+describe('badge-registry', () => {
+  describe('parseBadgeRequirement', () => {
+    it('accepts each requirement shape', () => {
+      expect(parseBadgeRequirement({ type: 'total_couplets', value: 5 })).toEqual({ type: 'total_couplets', value: 5 })
+      expect(parseBadgeRequirement({ type: 'avg_score', value: 4.5 })).toEqual({ type: 'avg_score', value: 4.5, minCount: 1 })
+      expect(parseBadgeRequirement({ type: 'theme_count', value: 3, theme: ' 中秋 ' })).toEqual({
+        type: 'theme_count',
+        value: 3,
+        theme: '中秋',
+      })
+    })
+
+    it('rejects unknown types and invalid parameters', () => {
+      expect(() => parseBadgeRequirement({ type: 'login_days', value: 3 })).toThrow('未知的徽章条件类型')
+      expect(() => parseBadgeRequirement({ type: 'total_shares', value: 0 })).toThrow('正数')
+      expect(() => parseBadgeRequirement({ type: 'total_shares', value: 2.5 })).toThrow('整数')
+      expect(() => parseBadgeRequirement({ type: 'theme_count', value: 3 })).toThrow('缺少主题')
+      expect(() => parseBadgeRequirement({ type: 'avg_score', value: 6 })).toThrow('不能超过 5')
+    })
+  })
+
+  describe('validateBadgeDefinition', () => {
+    it('validates ids, text fields and the active window', () => {
+      expect(validateBadgeDefinition(MID_AUTUMN)).toMatchObject({ id: 'mid_autumn_2026', retiredAt: null })
+      expect(() => validateBadgeDefinition({ ...MID_AUTUMN, id: 'Mid Autumn' })).toThrow('徽章 ID')
+      expect(() => validateBadgeDefinition({ ...MID_AUTUMN, name: '' })).toThrow('名称')
+      expect(() => validateBadgeDefinition({ ...MID_AUTUMN, activeTo: '2026-09-01' })).toThrow('开始日期晚于结束日期')
+      expect(() => validateBadgeDefinition({ ...MID_AUTUMN, requirement: { type: 'x', value: 1 } })).toThrow(
+        '徽章 mid_autumn_2026: 未知的徽章条件类型'
+      )
+    })
+
+    it('checks the bundled defaults', () => {
+      DEFAULT_BADGE_DEFINITIONS.forEach((badge) => {
+        expect(() => validateBadgeDefinition(badge)).not.toThrow()
+      })
+    })
+  })
+
+  it('treats retired and out-of-window badges as inactive', () => {
+    const badge = validateBadgeDefinition(MID_AUTUMN)
+
+    expect(isBadgeActive(badge, '2026-10-01')).toBe(true)
+    expect(isBadgeActive(badge, '2026-10-08')).toBe(true)
+    expect(isBadgeActive(badge, '2026-10-09')).toBe(false)
+    expect(isBadgeActive({ ...badge, retiredAt: '2026-10-02T00:00:00.000Z' }, '2026-10-03')).toBe(false)
+  })
+
+  describe('loadBadgeDefinitions', () => {
+    beforeEach(() => {
+      invalidateBadgeCache()
+      jest.spyOn(console, 'error').mockImplementation()
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('loads rows, skipping ones that fail validation', async () => {
+      mockBadgeDb.listBadges.mockResolvedValue([
+        { ...MID_AUTUMN, requirement: JSON.stringify(MID_AUTUMN.requirement), active_from: '2026-09-20', active_to: '2026-10-08' },
+        { id: 'broken', name: '坏数据', description: '条件格式错误', icon: '❌', requirement: '{"type":"unknown","value":1}' },
+      ] as never)
+
+      const badges = await loadBadgeDefinitions()
+
+      expect(badges.map((badge) => badge.id)).toEqual(['mid_autumn_2026'])
+      expect(badges[0].activeTo).toBe('2026-10-08')
+      expect(console.error).toHaveBeenCalled()
+    })
+
+    it('falls back to defaults when the table is empty or unavailable', async () => {
+      mockBadgeDb.listBadges.mockResolvedValueOnce([] as never)
+      expect(await loadBadgeDefinitions()).toBe(DEFAULT_BADGE_DEFINITIONS)
+
+      invalidateBadgeCache()
+      mockBadgeDb.listBadges.mockRejectedValueOnce(new Error('no such table'))
+      expect(await loadBadgeDefinitions()).toBe(DEFAULT_BADGE_DEFINITIONS)
+    })
+  })
+})
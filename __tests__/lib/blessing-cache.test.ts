@@ -0,0 +1,103 @@
+import { kv } from '@vercel/kv'
+import {
+  getPromptHash,
+  isCacheableRequest,
+  storeBlessing,
+  takeCachedBlessing,
+} from '@/lib/blessing-cache'
+
+// Mock Vercel KV with an in-memory store
+jest.mock('@vercel/kv', () => ({
+  kv: {
+    get: jest.fn(),
+    set: jest.fn(),
+  }
+}))
+
+const mockedKv = kv as jest.Mocked<typeof kv>
+
+describe('blessing-cache', () => {
+  const store = new Map<string, unknown>()
+  let now = 1_700_000_000_000
+  const prompt = '# Task\n- 祝福场合：春节\n- 祝福对象：长辈'
+
+  beforeEach(() => {
+    store.clear()
+    now = 1_700_000_000_000
+    jest.spyOn(Date, 'now').mockImplementation(() => now)
+    mockedKv.get.mockImplementation(async (key: string) => store.get(key) ?? null)
+    mockedKv.set.mockImplementation(async (key: string, value: unknown) => {
+      store.set(key, value)
+      return 'OK'
+    })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('normalizes whitespace before hashing', () => {
+    expect(getPromptHash(`  ${prompt.replace(/\n/g, '\n\n  ')}  `)).toBe(getPromptHash(prompt))
+    expect(getPromptHash(prompt)).not.toBe(getPromptHash(`${prompt}（改）`))
+  })
+
+  it('misses when the pool is empty', async () => {
+    expect(await takeCachedBlessing(prompt, 'user-a')).toBeNull()
+  })
+
+  it('serves blessings other users generated, never repeating for the same user', async () => {
+    await storeBlessing(prompt, 'user-a', '新春快乐，阖家安康')
+    await storeBlessing(prompt, 'user-b', '福寿双全，岁岁平安')
+
+    // user-a 只剩 user-b 生成的那条没看过
+    expect(await takeCachedBlessing(prompt, 'user-a')).toBe('福寿双全，岁岁平安')
+    expect(await takeCachedBlessing(prompt, 'user-a')).toBeNull()
+
+    // user-c 没看过任何条目，两次拿到的内容不同
+    const first = await takeCachedBlessing(prompt, 'user-c')
+    const second = await takeCachedBlessing(prompt, 'user-c')
+    expect([first, second].sort()).toEqual(['新春快乐，阖家安康', '福寿双全，岁岁平安'].sort())
+  })
+
+  it('rebuilds the pool once it is stale', async () => {
+    await storeBlessing(prompt, 'user-a', '新春快乐，阖家安康')
+
+    now += 8 * 24 * 60 * 60 * 1000
+    expect(await takeCachedBlessing(prompt, 'user-b')).toBeNull()
+
+    await storeBlessing(prompt, 'user-b', '福寿双全，岁岁平安')
+    expect(await takeCachedBlessing(prompt, 'user-c')).toBe('福寿双全，岁岁平安')
+  })
+
+  it('keeps at most the configured number of blessings, dropping the oldest', async () => {
+    for (let i = 1; i <= 10; i++) {
+      await storeBlessing(prompt, 'writer', `祝福语${i}`)
+    }
+
+    const served: string[] = []
+    let blessing = await takeCachedBlessing(prompt, 'reader')
+    while (blessing) {
+      served.push(blessing)
+      blessing = await takeCachedBlessing(prompt, 'reader')
+    }
+
+    expect(served).toHaveLength(8)
+    expect(served).not.toContain('祝福语1')
+    expect(served).not.toContain('祝福语2')
+  })
+
+  it('falls back to memory when KV is unavailable', async () => {
+    mockedKv.get.mockRejectedValue(new Error('kv down'))
+    mockedKv.set.mockRejectedValue(new Error('kv down'))
+    jest.spyOn(console, 'error').mockImplementation()
+
+    await storeBlessing(prompt, 'user-a', '新春快乐，阖家安康')
+    expect(await takeCachedBlessing(prompt, 'user-b')).toBe('新春快乐，阖家安康')
+  })
+
+  it('bypasses smart-mode requests', () => {
+    expect(isCacheableRequest({ useSmartMode: true, customDescription: '给室友的生日祝福' })).toBe(false)
+    expect(isCacheableRequest({ useSmartMode: true, customDescription: '  ' })).toBe(true)
+    expect(isCacheableRequest({ useSmartMode: false })).toBe(true)
+  })
+})
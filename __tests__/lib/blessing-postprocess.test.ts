@@ -0,0 +1,112 @@
+import {
+  checkBlessing,
+  countBlessingLength,
+  finalizeBlessing,
+  fitLengthBudget,
+  polishBlessing,
+  removeEmoji,
+  stripBlessingArtifacts,
+} from '@/lib/blessing-postprocess'
+
+// 生成指定字数的正文（以句号结尾）
+const body = (length: number) => `${'福'.repeat(length - 1)}。`
+
+describe('blessing-postprocess', () => {
+  describe('stripBlessingArtifacts', () => {
+    it('removes preambles and trailing notes', () => {
+      expect(stripBlessingArtifacts('好的，以下是为您准备的祝福语：\n祝您生日快乐！')).toBe('祝您生日快乐！')
+      expect(stripBlessingArtifacts('祝福语：新年快乐！')).toBe('新年快乐！')
+      expect(stripBlessingArtifacts('新年快乐，万事如意！（共9字）')).toBe('新年快乐，万事如意！')
+      expect(stripBlessingArtifacts('新年快乐！\n\n希望这段祝福语能让您满意。')).toBe('新年快乐！')
+    })
+
+    it('keeps openings that are part of the blessing', () => {
+      expect(stripBlessingArtifacts('为您送上最真挚的祝福：愿您平安喜乐。')).toBe('为您送上最真挚的祝福：愿您平安喜乐。')
+    })
+
+    it('removes markdown quotes, emphasis and wrapping quotes', () => {
+      expect(stripBlessingArtifacts('> **“愿你前程似锦，岁岁平安。”**')).toBe('愿你前程似锦，岁岁平安。')
+      expect(stripBlessingArtifacts('```\n# 祝福\n愿你平安。\n```')).toBe('愿你平安。')
+    })
+  })
+
+  it('removes emoji only for elderly users', () => {
+    expect(removeEmoji('福如东海🎉🙏🏻，寿比南山✨')).toBe('福如东海，寿比南山')
+    expect(checkBlessing(`🎂${body(60)}`, 'elderly').text).toBe(body(60))
+    expect(checkBlessing(`🎂${body(60)}`, 'young').text).toBe(`🎂${body(60)}`)
+  })
+
+  it('checks the length budget per user profile', () => {
+    expect(checkBlessing(body(30), 'elderly').violations).toEqual(['too_short'])
+    expect(checkBlessing(body(80), 'elderly').violations).toEqual(['too_long'])
+    expect(checkBlessing(body(80), 'young').violations).toEqual([])
+    expect(checkBlessing('好的，以下是祝福语：', 'standard').violations).toEqual(['empty'])
+  })
+
+  describe('fitLengthBudget', () => {
+    it('cuts at the last full sentence within the budget', () => {
+      const text = `${body(40)}${body(40)}${body(40)}`
+      expect(fitLengthBudget(text, 100)).toBe(`${body(40)}${body(40)}`)
+    })
+
+    it('cuts mid-sentence when no sentence end is close enough', () => {
+      const result = fitLengthBudget('福'.repeat(150), 100)
+      expect(countBlessingLength(result)).toBe(100)
+      expect(result.endsWith('。')).toBe(true)
+    })
+  })
+
+  it('polishes candidates without retrying', () => {
+    expect(polishBlessing('1. 好的，以下是祝福语：' + body(120), 'standard')).toHaveLength(100)
+    expect(polishBlessing('好的，以下是祝福语：')).toBe('')
+  })
+
+  describe('finalizeBlessing', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation()
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('returns clean output without retrying', async () => {
+      const generate = jest.fn()
+      const result = await finalizeBlessing(`好的，以下是祝福语：${body(60)}`, 'prompt', 'standard', generate)
+
+      expect(result).toBe(body(60))
+      expect(generate).not.toHaveBeenCalled()
+    })
+
+    it('retries once with a corrective prompt when too short', async () => {
+      const generate = jest.fn().mockResolvedValue(body(60))
+      const result = await finalizeBlessing(body(20), '原始提示词', 'standard', generate)
+
+      expect(result).toBe(body(60))
+      expect(generate).toHaveBeenCalledTimes(1)
+      const correction = generate.mock.calls[0][0] as string
+      expect(correction).toContain('原始提示词')
+      expect(correction).toContain(body(20))
+      expect(correction).toContain('少于要求的 50 字')
+    })
+
+    it('keeps the closer result when the retry is still worse', async () => {
+      const generate = jest.fn().mockResolvedValue(body(10))
+      const result = await finalizeBlessing(body(40), 'prompt', 'standard', generate)
+
+      expect(result).toBe(body(40))
+    })
+
+    it('truncates when the retry is still too long', async () => {
+      const generate = jest.fn().mockResolvedValue(`${body(50)}${body(50)}${body(50)}`)
+      const result = await finalizeBlessing(body(200), 'prompt', 'standard', generate)
+
+      expect(result).toBe(`${body(50)}${body(50)}`)
+    })
+
+    it('throws when neither attempt produced a blessing', async () => {
+      const generate = jest.fn().mockResolvedValue('')
+      await expect(finalizeBlessing('好的，以下是祝福语：', 'prompt', 'standard', generate)).rejects.toThrow('生成失败，请重试')
+    })
+  })
+})
@@ -0,0 +1,44 @@
+import { parseBlessingVariants, resolveVariantCount } from '@/lib/blessing-variants'
+
+describe('blessing-variants', () => {
+  describe('resolveVariantCount', () => {
+    it('returns null when variants are not requested', () => {
+      expect(resolveVariantCount(undefined)).toBeNull()
+      expect(resolveVariantCount(null)).toBeNull()
+      expect(resolveVariantCount(1)).toBeNull()
+      expect(resolveVariantCount('abc')).toBeNull()
+    })
+
+    it('clamps the count to 3-5', () => {
+      expect(resolveVariantCount(2)).toBe(3)
+      expect(resolveVariantCount(4)).toBe(4)
+      expect(resolveVariantCount('5')).toBe(5)
+      expect(resolveVariantCount(10)).toBe(5)
+    })
+  })
+
+  describe('parseBlessingVariants', () => {
+    it('parses a JSON array wrapped in extra text', () => {
+      const raw = '好的，以下是候选：\n["祝你生日快乐！", "愿你岁岁平安。", "前程似锦，万事顺意。"]'
+      expect(parseBlessingVariants(raw, 3)).toEqual([
+        '祝你生日快乐！',
+        '愿你岁岁平安。',
+        '前程似锦，万事顺意。',
+      ])
+    })
+
+    it('falls back to numbered lines and strips list markers and quotes', () => {
+      const raw = '1. “祝你生日快乐！”\n2、愿你岁岁平安。\n- 前程似锦，万事顺意。'
+      expect(parseBlessingVariants(raw, 3)).toEqual([
+        '祝你生日快乐！',
+        '愿你岁岁平安。',
+        '前程似锦，万事顺意。',
+      ])
+    })
+
+    it('removes duplicates and limits to the requested count', () => {
+      const raw = JSON.stringify(['甲', '甲', '乙', '丙', '丁'])
+      expect(parseBlessingVariants(raw, 3)).toEqual(['甲', '乙', '丙'])
+    })
+  })
+})
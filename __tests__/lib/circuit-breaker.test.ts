@@ -0,0 +1,124 @@
+import { AxiosError } from 'axios'
+import { kv } from '@vercel/kv'
+import {
+  canRequest,
+  getProviderHealth,
+  isProviderFault,
+  recordFailure,
+  recordSuccess,
+  resetCircuit,
+} from '@/lib/circuit-breaker'
+
+// Mock Vercel KV with an in-memory store
+jest.mock('@vercel/kv', () => ({
+  kv: {
+    get: jest.fn(),
+    set: jest.fn(),
+  }
+}))
+
+const mockedKv = kv as jest.Mocked<typeof kv>
+
+describe('circuit-breaker', () => {
+  const store = new Map<string, unknown>()
+  let now = 1_700_000_000_000
+
+  beforeEach(() => {
+    store.clear()
+    now = 1_700_000_000_000
+    jest.spyOn(Date, 'now').mockImplementation(() => now)
+    mockedKv.get.mockImplementation(async (key: string) => store.get(key) ?? null)
+    mockedKv.set.mockImplementation(async (key: string, value: unknown) => {
+      store.set(key, value)
+      return 'OK'
+    })
+    jest.spyOn(console, 'warn').mockImplementation()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  const serverError = () => new AxiosError('Internal Server Error', 'ERR_BAD_RESPONSE', undefined, undefined, {
+    status: 500, statusText: 'Internal Server Error', headers: {}, config: {} as never, data: {}
+  })
+
+  it('opens after consecutive failures and skips the provider', async () => {
+    for (let i = 0; i < 3; i++) {
+      await recordFailure('deepseek', serverError())
+    }
+
+    expect(await canRequest('deepseek')).toBe(false)
+    expect((await getProviderHealth('deepseek')).status).toBe('open')
+  })
+
+  it('half-opens after the cool-down and lets exactly one probe through', async () => {
+    for (let i = 0; i < 3; i++) {
+      await recordFailure('qwen', serverError())
+    }
+
+    now += 31_000
+
+    expect(await canRequest('qwen')).toBe(true)
+    expect((await getProviderHealth('qwen')).status).toBe('half_open')
+    expect(await canRequest('qwen')).toBe(false)
+  })
+
+  it('closes again when the probe succeeds and reopens when it fails', async () => {
+    for (let i = 0; i < 3; i++) {
+      await recordFailure('openai', serverError())
+    }
+    now += 31_000
+    await canRequest('openai')
+    await recordSuccess('openai')
+
+    expect(await canRequest('openai')).toBe(true)
+    expect((await getProviderHealth('openai')).consecutiveFailures).toBe(0)
+
+    for (let i = 0; i < 3; i++) {
+      await recordFailure('openai', serverError())
+    }
+    now += 31_000
+    await canRequest('openai')
+    await recordFailure('openai', serverError())
+
+    expect(await canRequest('openai')).toBe(false)
+  })
+
+  it('opens when the 5xx/timeout rate in the window is too high', async () => {
+    // 每轮 1 次成功 + 2 次失败，连续失败始终低于阈值
+    for (let i = 0; i < 4; i++) {
+      await recordSuccess('local')
+      await recordFailure('local', serverError())
+      await recordFailure('local', serverError())
+    }
+
+    expect((await getProviderHealth('local')).status).toBe('open')
+  })
+
+  it('does not count client errors towards the fault rate', () => {
+    const unauthorized = new AxiosError('Unauthorized', 'ERR_BAD_REQUEST', undefined, undefined, {
+      status: 401, statusText: 'Unauthorized', headers: {}, config: {} as never, data: {}
+    })
+    const timeout = new AxiosError('timeout', 'ECONNABORTED')
+
+    expect(isProviderFault(unauthorized)).toBe(false)
+    expect(isProviderFault(timeout)).toBe(true)
+    expect(isProviderFault(serverError())).toBe(true)
+  })
+
+  it('falls back to memory when KV is unavailable', async () => {
+    mockedKv.get.mockRejectedValue(new Error('KV down'))
+    mockedKv.set.mockRejectedValue(new Error('KV down'))
+    jest.spyOn(console, 'error').mockImplementation()
+
+    for (let i = 0; i < 3; i++) {
+      await recordFailure('memory-only', serverError())
+    }
+
+    expect(await canRequest('memory-only')).toBe(false)
+
+    await resetCircuit('memory-only')
+    expect(await canRequest('memory-only')).toBe(true)
+  })
+})
@@ -0,0 +1,136 @@
+import { createStreamModerator, generateWithModeration, moderateText } from '@/lib/content-moderation'
+import { moderationDb } from '@/lib/db'
+
+// Mock moderation log (no database in unit tests)
+jest.mock('@/lib/db', () => ({
+  moderationDb: {
+    logVerdict: jest.fn(),
+  },
+}))
+const mockLogVerdict = moderationDb.logVerdict as jest.MockedFunction<typeof moderationDb.logVerdict>
+
+describe('content-moderation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'warn').mockImplementation()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('moderateText', () => {
+    it('flags global vulgar and political terms regardless of occasion', () => {
+      expect(moderateText('你这个傻 逼')).toEqual({ passed: false, hits: [{ term: '傻逼', category: 'vulgar' }] })
+      expect(moderateText('支持台独').hits).toEqual([{ term: '台独', category: 'political' }])
+      expect(moderateText('祝你天天开心').passed).toBe(true)
+    })
+
+    it('applies occasion taboos only for matching occasions', () => {
+      const text = '送你一座钟，愿你身体无恙，不再生病。'
+      expect(moderateText(text, '生日').hits.map((hit) => hit.term)).toEqual(['病'])
+      expect(moderateText(text, '康复').passed).toBe(true)
+      expect(moderateText('特意为您送钟祝寿', '贺寿').hits).toEqual([{ term: '送钟', category: 'inauspicious' }])
+    })
+
+    it('matches occasions mentioned in a free-form description', () => {
+      expect(moderateText('祝你们早日离婚', '给好朋友的婚礼写一段祝福').passed).toBe(false)
+    })
+
+    it('ignores allowed auspicious phrases', () => {
+      expect(moderateText('愿您无病无灾，福寿安康', '贺寿').passed).toBe(true)
+      expect(moderateText('爱你至死不渝', '婚礼').passed).toBe(true)
+    })
+  })
+
+  describe('createStreamModerator', () => {
+    const lexicon = {
+      global: { sensitive: [], political: [], vulgar: ['坏话'] },
+      occasionTaboos: [{ occasions: ['生日'], terms: ['病'] }],
+      allowPhrases: ['无病无灾'],
+    }
+
+    function stream(deltas: string[], occasion?: string) {
+      const released: string[] = []
+      const push = createStreamModerator(occasion, (text) => released.push(text), lexicon)
+      deltas.forEach(push)
+      return released
+    }
+
+    it('releases text while holding back a possible partial term', () => {
+      expect(stream(['祝你', '生日', '快乐'])).toEqual(['祝', '你生', '日快'])
+    })
+
+    it('stops releasing once a term appears', () => {
+      const released = stream(['祝你', '坏', '话连篇', '快乐'])
+
+      expect(released.join('')).toBe('祝你')
+    })
+
+    it('applies occasion taboos', () => {
+      expect(stream(['愿你', '不生', '病', '天天开心'], '生日').join('')).toBe('愿你不')
+    })
+
+    it('resumes when a hit turns out to be part of an allowed phrase', () => {
+      expect(stream(['愿您', '无病', '无灾', '长寿'], '生日').join('')).toBe('愿您无病无灾长')
+    })
+
+    it('does not count whitespace toward the held back characters', () => {
+      expect(stream(['祝你', '坏 ', ' 话'])).toEqual(['祝', '你'])
+    })
+  })
+
+  describe('generateWithModeration', () => {
+    it('logs a passing verdict without retrying', async () => {
+      const run = jest.fn().mockResolvedValue('生日快乐，万事如意')
+
+      const outcome = await generateWithModeration('prompt', { feature: 'blessing', occasion: '生日', openid: 'u1' }, run)
+
+      expect(outcome).toEqual({ result: '生日快乐，万事如意', passed: true })
+      expect(run).toHaveBeenCalledTimes(1)
+      expect(mockLogVerdict).toHaveBeenCalledWith({
+        feature: 'blessing', openid: 'u1', occasion: '生日', attempt: 1, passed: true, hits: [], text: undefined,
+      })
+    })
+
+    it('retries once with a corrective prompt naming the flagged terms', async () => {
+      const run = jest.fn()
+        .mockResolvedValueOnce('祝你生日快乐，笑死我了')
+        .mockResolvedValueOnce('祝你生日快乐，笑口常开')
+
+      const outcome = await generateWithModeration('原始提示词', { feature: 'blessing', occasion: '生日' }, run)
+
+      expect(outcome).toEqual({ result: '祝你生日快乐，笑口常开', passed: true })
+      expect(run).toHaveBeenNthCalledWith(2, expect.stringContaining('原始提示词'), 2)
+      expect(run.mock.calls[1][0]).toContain('「死」')
+      expect(mockLogVerdict).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        attempt: 1, passed: false, text: '祝你生日快乐，笑死我了',
+      }))
+      expect(mockLogVerdict).toHaveBeenNthCalledWith(2, expect.objectContaining({ attempt: 2, passed: true }))
+    })
+
+    it('reports failure when the retry is still flagged', async () => {
+      const run = jest.fn().mockResolvedValue({ summary: '去死吧' })
+
+      const outcome = await generateWithModeration(
+        'prompt',
+        { feature: 'couplet_review' },
+        run,
+        (result: { summary: string }) => result.summary
+      )
+
+      expect(outcome.passed).toBe(false)
+      expect(run).toHaveBeenCalledTimes(2)
+    })
+
+    it('keeps going when the log write fails', async () => {
+      mockLogVerdict.mockRejectedValueOnce(new Error('db down'))
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation()
+
+      const outcome = await generateWithModeration('prompt', { feature: 'couplet_upper', occasion: '春节' }, async () => '春回大地')
+
+      expect(outcome.passed).toBe(true)
+      expect(errorSpy).toHaveBeenCalledWith('记录审核结果失败:', expect.any(Error))
+    })
+  })
+})
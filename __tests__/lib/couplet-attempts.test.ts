@@ -0,0 +1,60 @@
+import { summarizeAnalysis, toAttemptTimeline } from '@/lib/couplet-attempts'
+import { analyzeCouplet } from '@/lib/couplet-validation'
+
+function attemptRow(attemptNo: number, score: number, overrides: Record<string, unknown> = {}) {
+  return {
+    attempt_no: attemptNo,
+    lower_line: '秋雨润物万户丰',
+    score,
+    review_json: JSON.stringify({ score, summary: `第${attemptNo}次`, strengths: ['对仗工整'], suggestions: ['再斟酌尾字'], canShare: true }),
+    analysis_json: JSON.stringify({ upperPattern: '', lowerPattern: '', endingRule: null, issues: [], score }),
+    hints_used: 0,
+    created_at: `2026-10-19T0${attemptNo}:00:00.000Z`,
+    ...overrides,
+  }
+}
+
+describe('couplet-attempts', () => {
+  describe('summarizeAnalysis', () => {
+    it('drops per-character details and keeps the pattern summary', () => {
+      const analysis = analyzeCouplet('春风送暖千家乐', '秋雨润物万户丰')
+      const summary = summarizeAnalysis(analysis)
+
+      expect(Object.keys(summary).sort()).toEqual(['endingRule', 'issues', 'lowerPattern', 'score', 'upperPattern'])
+      expect(summary.score).toBe(analysis.score)
+      expect(summary.issues).toEqual(analysis.issues)
+    })
+  })
+
+  describe('toAttemptTimeline', () => {
+    it('returns an empty timeline without attempts', () => {
+      expect(toAttemptTimeline([])).toEqual([])
+    })
+
+    it('maps rows and marks the highest score as best', () => {
+      const timeline = toAttemptTimeline([attemptRow(1, 3), attemptRow(2, 4.5), attemptRow(3, 4)])
+
+      expect(timeline.map((a) => a.attemptNo)).toEqual([1, 2, 3])
+      expect(timeline.map((a) => a.isBest)).toEqual([false, true, false])
+      expect(timeline[1]).toMatchObject({
+        summary: '第2次',
+        strengths: ['对仗工整'],
+        suggestions: ['再斟酌尾字'],
+        hintsUsed: 0,
+      })
+      expect(timeline[1].analysis?.score).toBe(4.5)
+    })
+
+    it('keeps the earliest attempt as best on a tie', () => {
+      const timeline = toAttemptTimeline([attemptRow(1, 4), attemptRow(2, 4)])
+
+      expect(timeline.map((a) => a.isBest)).toEqual([true, false])
+    })
+
+    it('tolerates missing or malformed JSON columns', () => {
+      const [attempt] = toAttemptTimeline([attemptRow(1, 3, { review_json: 'not json', analysis_json: null })])
+
+      expect(attempt).toMatchObject({ summary: '', strengths: [], suggestions: [], analysis: null, isBest: true })
+    })
+  })
+})
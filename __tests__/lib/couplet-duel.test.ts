@@ -0,0 +1,176 @@
+import {
+  DUEL_CONFIG,
+  answerDuel,
+  createDuel,
+  determineDuelWinner,
+  getDuelPoints,
+  getDuelStatus,
+  toDuelView,
+} from '@/lib/couplet-duel'
+import { reviewCouplet } from '@/lib/couplet-review'
+import { awardPoints } from '@/lib/points'
+import { duelDb } from '@/lib/db'
+
+jest.mock('@/lib/ai-service', () => ({ generateBlessing: jest.fn() }))
+jest.mock('@/lib/couplet-review', () => ({
+  reviewCouplet: jest.fn(),
+}))
+jest.mock('@/lib/points', () => ({
+  awardPoints: jest.fn(),
+}))
+jest.mock('@/lib/db', () => ({
+  duelDb: {
+    createDuel: jest.fn(),
+    submitAnswer: jest.fn(),
+  },
+}))
+
+const mockReview = reviewCouplet as jest.MockedFunction<typeof reviewCouplet>
+const mockAward = awardPoints as jest.MockedFunction<typeof awardPoints>
+const mockDuelDb = duelDb as jest.Mocked<typeof duelDb>
+
+const DUEL = {
+  id: 3,
+  token: 'abc',
+  challenger_openid: 'challenger',
+  upper_line: '春风送暖千家乐',
+  theme: '春节',
+  difficulty: 'medium',
+  challenger_lower_line: '瑞雪迎春万户欢',
+  challenger_score: 4,
+  challenger_summary: '对仗工整',
+  opponent_openid: null,
+  opponent_lower_line: null,
+  opponent_score: null,
+  opponent_review_json: null,
+  winner: null,
+  status: 'pending',
+  expires_at: '2099-01-01T00:00:00.000Z',
+  finished_at: null,
+}
+
+function review(score: number, canShare = true) {
+  return {
+    review: { score, summary: '好', strengths: [], suggestions: [], canShare },
+    analysis: { score } as never,
+  }
+}
+
+describe('couplet-duel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockAward.mockResolvedValue({ awarded: 0, duplicate: false, capped: false, balance: 0 })
+  })
+
+  describe('determineDuelWinner', () => {
+    it('picks the higher score and treats equal scores as a draw', () => {
+      expect(determineDuelWinner(4.5, 4)).toBe('challenger')
+      expect(determineDuelWinner(3, 4)).toBe('opponent')
+      expect(determineDuelWinner(4, 4)).toBe('draw')
+    })
+  })
+
+  describe('getDuelPoints', () => {
+    it('rewards both sides', () => {
+      expect(getDuelPoints('challenger', 'challenger')).toBe(DUEL_CONFIG.points.win)
+      expect(getDuelPoints('challenger', 'opponent')).toBe(DUEL_CONFIG.points.lose)
+      expect(getDuelPoints('draw', 'opponent')).toBe(DUEL_CONFIG.points.draw)
+      expect(DUEL_CONFIG.points.lose).toBeGreaterThan(0)
+    })
+  })
+
+  describe('getDuelStatus', () => {
+    const now = new Date('2026-10-19T00:00:00.000Z')
+
+    it('expires pending duels after expires_at', () => {
+      expect(getDuelStatus({ ...DUEL, expires_at: '2026-10-20T00:00:00.000Z' }, now)).toBe('pending')
+      expect(getDuelStatus({ ...DUEL, expires_at: '2026-10-18T00:00:00.000Z' }, now)).toBe('expired')
+    })
+
+    it('keeps finished duels finished after expiry', () => {
+      expect(getDuelStatus({ ...DUEL, status: 'finished', expires_at: '2026-10-18T00:00:00.000Z' }, now)).toBe('finished')
+    })
+  })
+
+  describe('toDuelView', () => {
+    it('hides the challenger answer from others until the duel finishes', () => {
+      expect(toDuelView(DUEL, 'friend')).toMatchObject({ status: 'pending', role: 'guest', challenger: null, opponent: null, winner: null })
+      expect(toDuelView(DUEL, 'challenger').challenger).toMatchObject({ lowerLine: '瑞雪迎春万户欢', score: 4 })
+    })
+
+    it('shows both answers, the winner and the viewer points once finished', () => {
+      const finished = {
+        ...DUEL,
+        opponent_openid: 'friend',
+        opponent_lower_line: '秋雨润物万户丰',
+        opponent_score: 4.5,
+        opponent_review_json: JSON.stringify({ summary: '意境不错' }),
+        winner: 'opponent',
+        status: 'finished',
+      }
+
+      const view = toDuelView(finished, 'friend')
+      expect(view).toMatchObject({ status: 'finished', role: 'opponent', winner: 'opponent', points: DUEL_CONFIG.points.win })
+      expect(view.opponent).toEqual({ lowerLine: '秋雨润物万户丰', score: 4.5, summary: '意境不错' })
+      expect(toDuelView(finished, 'challenger').points).toBe(DUEL_CONFIG.points.lose)
+      expect(toDuelView(finished, 'someone').points).toBeNull()
+    })
+  })
+
+  describe('createDuel', () => {
+    it('fixes the challenger answer with the hint discount applied', async () => {
+      mockDuelDb.createDuel.mockResolvedValue(DUEL as never)
+
+      await createDuel('challenger', {
+        id: 7,
+        upper_line: '春风送暖千家乐',
+        lower_line: '瑞雪迎春万户欢',
+        theme: '春节',
+        difficulty: 'medium',
+        score: 4,
+        hints_used: 1,
+        review_summary: '对仗工整',
+      })
+
+      const data = mockDuelDb.createDuel.mock.calls[0][0]
+      expect(data).toMatchObject({ recordId: 7, challengerOpenid: 'challenger', challengerScore: 3.6 })
+      expect(data.token).toMatch(/^[0-9a-f]{32}$/)
+      expect(new Date(data.expiresAt).getTime() - Date.now()).toBeGreaterThan((DUEL_CONFIG.expiresInHours - 1) * 3600 * 1000)
+    })
+  })
+
+  describe('answerDuel', () => {
+    it('records the answer and awards points to both participants', async () => {
+      mockReview.mockResolvedValue(review(4.5))
+      mockDuelDb.submitAnswer.mockResolvedValue({ ...DUEL, status: 'finished', winner: 'opponent' } as never)
+      mockAward.mockResolvedValueOnce({ awarded: DUEL_CONFIG.points.win, duplicate: false, capped: false, balance: 20 })
+
+      const result = await answerDuel('friend', DUEL, '秋雨润物万户丰')
+
+      expect(result).toMatchObject({ status: 'finished', winner: 'opponent', pointsAdded: DUEL_CONFIG.points.win })
+      expect(mockDuelDb.submitAnswer).toHaveBeenCalledWith('abc', expect.objectContaining({ openid: 'friend', score: 4.5, winner: 'opponent' }))
+      expect(mockAward).toHaveBeenCalledWith(expect.objectContaining({ openid: 'friend', points: DUEL_CONFIG.points.win, source: 'duel', idempotencyKey: 'duel:3' }))
+      expect(mockAward).toHaveBeenCalledWith(expect.objectContaining({ openid: 'challenger', points: DUEL_CONFIG.points.lose, idempotencyKey: 'duel:3' }))
+    })
+
+    it('does not use up the answer when the content is rejected', async () => {
+      mockReview.mockResolvedValue(review(4, false))
+
+      const result = await answerDuel('friend', DUEL, '秋雨润物万户丰')
+
+      expect(result.status).toBe('rejected')
+      expect(mockDuelDb.submitAnswer).not.toHaveBeenCalled()
+      expect(mockAward).not.toHaveBeenCalled()
+    })
+
+    it('reports a conflict when another answer got in first', async () => {
+      mockReview.mockResolvedValue(review(4))
+      mockDuelDb.submitAnswer.mockResolvedValue(null as never)
+
+      const result = await answerDuel('friend', DUEL, '秋雨润物万户丰')
+
+      expect(result).toEqual({ status: 'conflict' })
+      expect(mockAward).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,92 @@
+import { applyHintDiscount, buildHints, getHintScoreFactor, revealNextHint } from '@/lib/couplet-hints'
+import { generateLowerLineCandidates } from '@/lib/couplet-reverse'
+import { coupletDb, pointsDb } from '@/lib/db'
+
+jest.mock('@/lib/couplet-reverse', () => ({
+  generateLowerLineCandidates: jest.fn(),
+}))
+jest.mock('@/lib/db', () => ({
+  userStatsDb: {
+    initUserStats: jest.fn(),
+  },
+  pointsDb: {
+    hasEntry: jest.fn(),
+    getBalance: jest.fn(),
+  },
+  coupletDb: {
+    saveHintSample: jest.fn(),
+    chargeHint: jest.fn(),
+  },
+}))
+
+const mockGenerate = generateLowerLineCandidates as jest.MockedFunction<typeof generateLowerLineCandidates>
+const mockCoupletDb = coupletDb as jest.Mocked<typeof coupletDb>
+const mockPointsDb = pointsDb as jest.Mocked<typeof pointsDb>
+
+const RECORD = { id: 7, upper_line: '春风送暖千家乐', theme: '春节', hints_used: 0, hint_sample: null }
+
+describe('couplet-hints', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockCoupletDb.chargeHint.mockResolvedValue(true)
+    mockCoupletDb.saveHintSample.mockImplementation(async (_id, sample) => sample)
+    mockPointsDb.hasEntry.mockResolvedValue(false)
+    mockPointsDb.getBalance.mockResolvedValue(95)
+  })
+
+  it('reveals hints progressively', () => {
+    const sample = '瑞雪迎春万户欢'
+    expect(buildHints('春风送暖千家乐', sample, 0)).toEqual({})
+
+    const first = buildHints('春风送暖千家乐', sample, 1)
+    expect(first.partsOfSpeech).toHaveLength(7)
+    expect(first.partsOfSpeech![0]).toMatchObject({ char: '春' })
+    expect(first.firstChar).toBeUndefined()
+
+    expect(buildHints('春风送暖千家乐', sample, 2).firstChar).toBe('瑞')
+    expect(buildHints('春风送暖千家乐', sample, 3).samplePhrase).toEqual({ upper: '春风', lower: '瑞雪' })
+  })
+
+  it('discounts scores by hint level', () => {
+    expect(getHintScoreFactor(0)).toBe(1)
+    expect(getHintScoreFactor(3)).toBe(0.7)
+    expect(getHintScoreFactor(9)).toBe(0.7)
+    expect(applyHintDiscount(5, 1)).toBe(4.5)
+    expect(applyHintDiscount(4, 0)).toBe(4)
+  })
+
+  it('charges the first level without calling the AI', async () => {
+    await expect(revealNextHint('openid_1', RECORD)).resolves.toEqual({ status: 'revealed', level: 1, cost: 5, balance: 95 })
+    expect(mockGenerate).not.toHaveBeenCalled()
+    expect(mockCoupletDb.chargeHint).toHaveBeenCalledWith(expect.objectContaining({
+      recordId: 7,
+      level: 1,
+      cost: 5,
+      idempotencyKey: 'hint:7:1',
+    }))
+  })
+
+  it('prepares a sample line before charging the second level', async () => {
+    mockGenerate.mockResolvedValue([{ lowerLine: '瑞雪迎春万户欢', score: 5, analysis: {} as never }])
+
+    await expect(revealNextHint('openid_1', { ...RECORD, hints_used: 1 })).resolves.toMatchObject({ status: 'revealed', level: 2 })
+    expect(mockCoupletDb.saveHintSample).toHaveBeenCalledWith(7, '瑞雪迎春万户欢')
+  })
+
+  it('does not charge when no sample line can be generated', async () => {
+    mockGenerate.mockResolvedValue([])
+
+    await expect(revealNextHint('openid_1', { ...RECORD, hints_used: 1 })).resolves.toEqual({ status: 'unavailable', level: 2 })
+    expect(mockCoupletDb.chargeHint).not.toHaveBeenCalled()
+  })
+
+  it('reports insufficient points, duplicates and exhausted hints', async () => {
+    mockCoupletDb.chargeHint.mockResolvedValue(false)
+    await expect(revealNextHint('openid_1', RECORD)).resolves.toMatchObject({ status: 'insufficient' })
+
+    mockPointsDb.hasEntry.mockResolvedValue(true)
+    await expect(revealNextHint('openid_1', RECORD)).resolves.toMatchObject({ status: 'duplicate' })
+
+    await expect(revealNextHint('openid_1', { ...RECORD, hints_used: 3 })).resolves.toEqual({ status: 'exhausted' })
+  })
+})
@@ -0,0 +1,97 @@
+import {
+  analyzeCouplet,
+  blendCoupletScore,
+  getCharTone,
+  normalizeHorizontalScrollFromAI,
+  parseLowerLineCandidates,
+  parseHorizontalReviewJson,
+  validateCoupletReverseRequest,
+  validateHorizontalScroll,
+} from '@/lib/couplet-validation'
+
+describe('couplet-validation', () => {
+  describe('analyzeCouplet', () => {
+    it('scores a well-formed couplet highly', () => {
+      const analysis = analyzeCouplet('春风送暖千家乐', '岁月迎新万户欢')
+
+      expect(analysis.upperPattern).toBe('平平仄仄平平仄')
+      expect(analysis.lowerPattern).toBe('仄仄平平仄仄平')
+      expect(analysis.endingRule).toBe(true)
+      expect(analysis.toneContrast).toEqual({ opposed: 3, checked: 3 })
+      expect(analysis.posAlignment.matched).toBe(analysis.posAlignment.checked)
+      expect(analysis.repeatedChars).toEqual([])
+      expect(analysis.issues).toEqual([])
+      expect(analysis.score).toBe(5)
+    })
+
+    it('reports the ending rule, tone clashes, part-of-speech mismatches and repeats', () => {
+      const analysis = analyzeCouplet('春风送暖千家乐', '春风吹来一家欢')
+
+      expect(analysis.endingRule).toBe(true)
+      expect(analysis.toneContrast.opposed).toBeLessThan(analysis.toneContrast.checked)
+      expect(analysis.repeatedChars).toEqual(['春', '风', '家'])
+      expect(analysis.positions[3]).toEqual(expect.objectContaining({ upper: '暖', lower: '来', posMatch: false }))
+      expect(analysis.issues).toEqual(expect.arrayContaining([
+        '第2、6字平仄未相对',
+        '第4字形容词对动词，词性不对',
+        '「春」「风」「家」字重复',
+      ]))
+      expect(analysis.score).toBe(3)
+
+      expect(analyzeCouplet('家和万事兴', '人寿百年长').endingRule).toBeNull()
+      expect(analyzeCouplet('花开富贵年', '竹报平安岁').endingRule).toBe(false)
+    })
+
+    it('requires repeated characters to mirror each other', () => {
+      expect(analyzeCouplet('年年有余', '岁岁平安').repeatedChars).toEqual([])
+      expect(analyzeCouplet('年年有余', '岁月平安').repeatedChars).toEqual(['年'])
+    })
+
+    it('treats characters outside the table as unknown', () => {
+      expect(getCharTone('龘')).toBe('unknown')
+      expect(analyzeCouplet('龘龘龘龘', '龘龘龘龘').upperPattern).toBe('？？？？')
+    })
+  })
+
+  it('blends the AI score with the local analysis', () => {
+    const good = analyzeCouplet('春风送暖千家乐', '岁月迎新万户欢')
+    expect(blendCoupletScore(5, good)).toBe(5)
+    expect(blendCoupletScore(3, good)).toBe(4)
+    expect(blendCoupletScore(1, { ...good, score: 1 })).toBe(1)
+  })
+
+  describe('horizontal scroll', () => {
+    it('accepts exactly four characters', () => {
+      expect(validateHorizontalScroll(' 春满人间。')).toEqual({ valid: true, horizontalScroll: '春满人间' })
+      expect(validateHorizontalScroll('春满')).toMatchObject({ valid: false })
+      expect(validateHorizontalScroll('春色满人间')).toMatchObject({ valid: false })
+      expect(validateHorizontalScroll(undefined)).toMatchObject({ valid: false })
+    })
+
+    it('strips prefixes from AI output and rejects the wrong length', () => {
+      expect(normalizeHorizontalScrollFromAI('横批：「万象更新」\n解释')).toBe('万象更新')
+      expect(normalizeHorizontalScrollFromAI('万象更新好')).toBe('')
+    })
+
+    it('parses the review JSON with a fallback', () => {
+      expect(parseHorizontalReviewJson('{"score":9,"summary":"贴切","suggestions":["a","b"],"canShare":false}'))
+        .toEqual({ score: 5, summary: '贴切', suggestions: ['a'], canShare: false })
+      expect(parseHorizontalReviewJson('无法点评')).toMatchObject({ score: 4, canShare: true })
+    })
+  })
+
+  describe('reverse mode', () => {
+    it('validates the user upper line and infers the difficulty from its length', () => {
+      expect(validateCoupletReverseRequest({ upperLine: '春风送暖千家乐', theme: '春节' }))
+        .toEqual({ valid: true, upperLine: '春风送暖千家乐', theme: '春节', difficulty: 'medium' })
+      expect(validateCoupletReverseRequest({ upperLine: '福满门庭' })).toMatchObject({ theme: '日常', difficulty: 'simple' })
+      expect(validateCoupletReverseRequest({ upperLine: '春风' })).toMatchObject({ valid: false })
+      expect(validateCoupletReverseRequest({})).toMatchObject({ valid: false, error: '请填写上联' })
+    })
+
+    it('keeps only distinct candidates with the same length as the upper line', () => {
+      const raw = '1. 下联：瑞雪迎春万户欢\n2、瑞雪迎春万户欢\n3. 旭日东升\n春风送暖千家乐\n喜气盈门百业兴'
+      expect(parseLowerLineCandidates(raw, '春风送暖千家乐')).toEqual(['瑞雪迎春万户欢', '喜气盈门百业兴'])
+    })
+  })
+})
@@ -0,0 +1,154 @@
+import {
+  calculateDailyChallengePoints,
+  calculateDailyStreak,
+  getCalendarTheme,
+  getChallengeDifficulty,
+  ensureDailyChallenge,
+  pregenerateDailyChallenges,
+  resolveDailyTiming,
+} from '@/lib/daily-challenge'
+import { generateBlessing } from '@/lib/ai-service'
+import { dailyChallengeDb } from '@/lib/db'
+
+jest.mock('@/lib/ai-service', () => ({
+  generateBlessing: jest.fn(),
+}))
+jest.mock('@/lib/content-moderation', () => ({
+  generateWithModeration: jest.fn(async (prompt: string, _context: unknown, run: (prompt: string, attempt: number) => Promise<unknown>) => ({
+    result: await run(prompt, 1),
+    passed: true,
+  })),
+}))
+jest.mock('@/lib/db', () => ({
+  dailyChallengeDb: {
+    getDailyChallenge: jest.fn(),
+    createDailyChallenge: jest.fn(),
+    getAllUpperLines: jest.fn(),
+  },
+}))
+
+const mockGenerate = generateBlessing as jest.MockedFunction<typeof generateBlessing>
+const mockDb = dailyChallengeDb as jest.Mocked<typeof dailyChallengeDb>
+
+describe('daily-challenge', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'warn').mockImplementation()
+    jest.spyOn(console, 'error').mockImplementation()
+    mockDb.getDailyChallenge.mockResolvedValue(null as never)
+    mockDb.getAllUpperLines.mockResolvedValue([])
+    mockDb.createDailyChallenge.mockImplementation(async (data) => ({
+      challenge_date: data.date,
+      upper_line: data.upperLine,
+      theme: data.theme,
+      difficulty: data.difficulty,
+    }) as never)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('calendar', () => {
+    it('uses festival themes around lunar and fixed-date festivals', () => {
+      expect(getCalendarTheme('2027-02-05')).toBe('春节') // 除夕
+      expect(getCalendarTheme('2027-02-12')).toBe('春节') // 初七前的最后一天
+      expect(getCalendarTheme('2027-02-20')).toBe('元宵')
+      expect(getCalendarTheme('2026-09-25')).toBe('中秋')
+      expect(getCalendarTheme('2026-10-07')).toBe('国庆')
+      expect(getCalendarTheme('2026-12-31')).toBe('元旦')
+    })
+
+    it('rotates routine themes and maps weekdays to difficulty', () => {
+      expect(['日常', '乔迁', '贺寿']).toContain(getCalendarTheme('2026-11-11'))
+      expect(getCalendarTheme('2026-11-11')).not.toBe(getCalendarTheme('2026-11-12'))
+      expect(getChallengeDifficulty('2026-10-19')).toBe('simple') // 周一
+      expect(getChallengeDifficulty('2026-10-25')).toBe('hard')   // 周日
+    })
+  })
+
+  describe('pregenerateDailyChallenges', () => {
+    it('skips existing days and dedupes against past upper lines', async () => {
+      mockDb.getAllUpperLines.mockResolvedValue(['秋风送爽'])
+      mockDb.getDailyChallenge.mockImplementation(async (date) =>
+        (date === '2026-10-19' ? { upper_line: '已有上联' } : null) as never
+      )
+      // 周二、周三分别为简单、中等难度
+      mockGenerate
+        .mockResolvedValueOnce('秋风送爽')
+        .mockResolvedValueOnce('金桂飘香')
+        .mockResolvedValueOnce('金桂飘香')
+        .mockResolvedValueOnce('明月清风入小窗')
+
+      const results = await pregenerateDailyChallenges(3, '2026-10-19')
+
+      expect(results.map((item) => item.status)).toEqual(['exists', 'created', 'created'])
+      expect(results[1].upperLine).toBe('金桂飘香')
+      expect(results[2].upperLine).toBe('明月清风入小窗')
+      expect(mockGenerate).toHaveBeenCalledWith(expect.stringContaining('- 秋风送爽'), 'daily_challenge')
+      expect(mockDb.createDailyChallenge).toHaveBeenCalledTimes(2)
+    })
+
+    it('leaves a day for the next run when generation keeps failing', async () => {
+      mockGenerate.mockRejectedValue(new Error('429'))
+
+      const results = await pregenerateDailyChallenges(1, '2026-10-20')
+
+      expect(results).toEqual([{ date: '2026-10-20', status: 'failed', error: '生成每日挑战上联失败' }])
+      expect(mockDb.createDailyChallenge).not.toHaveBeenCalled()
+    })
+  })
+
+  it('falls back to a bundled line on demand', async () => {
+    mockGenerate.mockRejectedValue(new Error('timeout'))
+    mockDb.getAllUpperLines.mockResolvedValue(['岁月如歌人生长'])
+
+    const { result } = await ensureDailyChallenge('2026-11-11', { allowFallback: true })
+
+    expect(result.status).toBe('fallback')
+    expect(result.difficulty).toBe('medium')
+    expect(result.upperLine).not.toBe('岁月如歌人生长')
+  })
+
+  describe('scoring', () => {
+    it('measures time from the server-issued start', () => {
+      const now = new Date('2026-10-19T02:01:30.400Z')
+
+      expect(resolveDailyTiming('2026-10-19T02:00:00.000Z', true, now)).toEqual({ timeSpent: 90, isLimitMode: true })
+      expect(resolveDailyTiming('2026-10-19T02:00:00.000Z', false, now)).toEqual({ timeSpent: 90, isLimitMode: false })
+    })
+
+    it('drops limit mode once the time limit has passed', () => {
+      const now = new Date('2026-10-19T02:05:00.000Z')
+
+      expect(resolveDailyTiming('2026-10-19T02:00:00.000Z', true, now)).toEqual({ timeSpent: 300, isLimitMode: false })
+    })
+
+    it('awards points by score with a limit mode bonus', () => {
+      expect(calculateDailyChallengePoints(4, false)).toBe(16)
+      expect(calculateDailyChallengePoints(4.5, true)).toBe(23)
+    })
+  })
+
+  describe('calculateDailyStreak', () => {
+    it('counts consecutive days and the best run', () => {
+      const dates = ['2026-10-01', '2026-10-02', '2026-10-03', '2026-10-04', '2026-10-10', '2026-10-18', '2026-10-19']
+
+      expect(calculateDailyStreak(dates, '2026-10-19')).toEqual({ current: 2, best: 4, participatedToday: true })
+    })
+
+    it('keeps the streak alive until today ends', () => {
+      expect(calculateDailyStreak(['2026-10-17', '2026-10-18'], '2026-10-19')).toEqual({
+        current: 2,
+        best: 2,
+        participatedToday: false,
+      })
+      expect(calculateDailyStreak(['2026-10-16', '2026-10-17'], '2026-10-19').current).toBe(0)
+      expect(calculateDailyStreak([], '2026-10-19')).toEqual({ current: 0, best: 0, participatedToday: false })
+    })
+
+    it('counts runs across month boundaries', () => {
+      expect(calculateDailyStreak(['2026-09-30', '2026-10-01'], '2026-10-01').current).toBe(2)
+    })
+  })
+})
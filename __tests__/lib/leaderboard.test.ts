@@ -0,0 +1,110 @@
+import {
+  calculateWeightedScore,
+  getLeaderboardScope,
+  getPeriodsAt,
+  getWeekStart,
+  refreshLeaderboardEntries,
+  resolveLeaderboardPeriod,
+} from '@/lib/leaderboard'
+import { leaderboardDb } from '@/lib/db'
+
+jest.mock('@/lib/ai-service', () => ({
+  generateBlessing: jest.fn(),
+}))
+jest.mock('@/lib/db', () => ({
+  leaderboardDb: {
+    refreshUserEntries: jest.fn(),
+  },
+}))
+
+const mockLeaderboardDb = leaderboardDb as jest.Mocked<typeof leaderboardDb>
+
+describe('leaderboard', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('starts weeks on Monday', () => {
+    expect(getWeekStart('2026-10-19')).toBe('2026-10-19')
+    expect(getWeekStart('2026-10-25')).toBe('2026-10-19')
+    expect(getWeekStart('2026-10-18')).toBe('2026-10-12')
+  })
+
+  it('splits periods at midnight China time', () => {
+    // 2026-10-18 23:30 北京时间，仍属于上一周
+    const [week, month, all] = getPeriodsAt(new Date('2026-10-18T15:30:00.000Z'))
+    expect(week).toEqual({
+      period: 'week',
+      key: '2026-10-12',
+      start: '2026-10-11T16:00:00.000Z',
+      end: '2026-10-18T16:00:00.000Z',
+    })
+    expect(month).toEqual({
+      period: 'month',
+      key: '2026-10',
+      start: '2026-09-30T16:00:00.000Z',
+      end: '2026-10-31T16:00:00.000Z',
+    })
+    expect(all).toEqual({ period: 'all', key: 'all', start: null, end: null })
+  })
+
+  it('rolls the month over at the end of the year', () => {
+    const [, month] = getPeriodsAt(new Date('2026-12-31T17:00:00.000Z'))
+    expect(month.key).toBe('2027-01')
+    expect(getPeriodsAt(new Date('2026-12-15T00:00:00.000Z'))[1].end).toBe('2026-12-31T16:00:00.000Z')
+  })
+
+  it('resolves query windows', () => {
+    const now = new Date('2026-10-21T04:00:00.000Z')
+    expect(resolveLeaderboardPeriod('this_week', now).key).toBe('2026-10-19')
+    expect(resolveLeaderboardPeriod('last_week', now).key).toBe('2026-10-12')
+    expect(resolveLeaderboardPeriod('month', now).key).toBe('2026-10')
+    expect(resolveLeaderboardPeriod('all', now).key).toBe('all')
+  })
+
+  it('weights scores by difficulty', () => {
+    expect(calculateWeightedScore(4, 'simple')).toBe(4)
+    expect(calculateWeightedScore(4, 'medium')).toBe(4.8)
+    expect(calculateWeightedScore(4, 'hard')).toBe(6)
+    expect(calculateWeightedScore(4, null)).toBe(4.8)
+    expect(calculateWeightedScore(3.5, 'hard')).toBeGreaterThan(calculateWeightedScore(5, 'simple'))
+  })
+
+  it('discounts hinted answers', () => {
+    expect(calculateWeightedScore(5, 'hard', 1)).toBe(6.75)
+    expect(calculateWeightedScore(5, 'medium', 3)).toBe(4.2)
+  })
+
+  it('builds snapshot scopes from filters', () => {
+    expect(getLeaderboardScope()).toBe('')
+    expect(getLeaderboardScope({ theme: '春节' })).toBe('theme:春节')
+    expect(getLeaderboardScope({ difficulty: 'hard' })).toBe('difficulty:hard')
+    expect(getLeaderboardScope({ theme: '春节', difficulty: 'hard' })).toBe('theme:春节|difficulty:hard')
+  })
+
+  it('refreshes every period and scope the record belongs to', async () => {
+    await refreshLeaderboardEntries('openid_1', {
+      shared_at: '2026-10-18T17:00:00.000Z',
+      theme: '春节',
+      difficulty: 'hard',
+    })
+
+    const [openid, periods, scopes, options] = mockLeaderboardDb.refreshUserEntries.mock.calls[0]
+    expect(openid).toBe('openid_1')
+    expect(periods.map((p) => p.key)).toEqual(['2026-10-19', '2026-10', 'all'])
+    expect(scopes.map((s) => s.scope)).toEqual(['', 'theme:春节', 'difficulty:hard', 'theme:春节|difficulty:hard'])
+    expect(options.minScore).toBe(3)
+    expect(options.hintFactors).toEqual([1, 0.9, 0.8, 0.7])
+  })
+
+  it('skips unshared records and swallows refresh errors', async () => {
+    await refreshLeaderboardEntries('openid_1', { shared_at: null, theme: '春节', difficulty: 'hard' })
+    expect(mockLeaderboardDb.refreshUserEntries).not.toHaveBeenCalled()
+
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    mockLeaderboardDb.refreshUserEntries.mockRejectedValue(new Error('db down'))
+    await expect(
+      refreshLeaderboardEntries('openid_1', { shared_at: '2026-10-19T00:00:00.000Z', theme: '日常' })
+    ).resolves.toBeUndefined()
+  })
+})
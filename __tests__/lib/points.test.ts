@@ -0,0 +1,80 @@
+import { awardPoints, getChinaDayStart } from '@/lib/points'
+import { pointsDb } from '@/lib/db'
+
+jest.mock('@/lib/ai-service', () => ({
+  generateBlessing: jest.fn(),
+}))
+jest.mock('@/lib/db', () => ({
+  userStatsDb: {
+    initUserStats: jest.fn(),
+  },
+  pointsDb: {
+    hasEntry: jest.fn(),
+    addEntry: jest.fn(),
+    getEarnedSince: jest.fn(),
+    getBalance: jest.fn(),
+    syncBalance: jest.fn(),
+  },
+}))
+
+const mockPointsDb = pointsDb as jest.Mocked<typeof pointsDb>
+
+const SHARE = {
+  openid: 'openid_1',
+  points: 10,
+  reason: '分享对联到朋友圈',
+  source: 'share' as const,
+  idempotencyKey: 'share:1:timeline',
+}
+
+describe('points', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPointsDb.hasEntry.mockResolvedValue(false)
+    mockPointsDb.addEntry.mockResolvedValue({ id: 1 } as never)
+    mockPointsDb.getEarnedSince.mockResolvedValue(0)
+    mockPointsDb.getBalance.mockResolvedValue(100)
+    mockPointsDb.syncBalance.mockResolvedValue(110)
+  })
+
+  it('starts the day at midnight China time', () => {
+    expect(getChinaDayStart(new Date('2026-10-19T17:30:00.000Z'))).toBe('2026-10-19T16:00:00.000Z')
+    expect(getChinaDayStart(new Date('2026-10-19T15:30:00.000Z'))).toBe('2026-10-18T16:00:00.000Z')
+  })
+
+  it('records an entry and returns the synced balance', async () => {
+    await expect(awardPoints(SHARE)).resolves.toEqual({ awarded: 10, duplicate: false, capped: false, balance: 110 })
+    expect(mockPointsDb.addEntry).toHaveBeenCalledWith({ ...SHARE, points: 10 })
+  })
+
+  it('does not pay the same idempotency key twice', async () => {
+    mockPointsDb.hasEntry.mockResolvedValue(true)
+
+    await expect(awardPoints(SHARE)).resolves.toEqual({ awarded: 0, duplicate: true, capped: false, balance: 100 })
+    expect(mockPointsDb.addEntry).not.toHaveBeenCalled()
+  })
+
+  it('treats a lost insert race as a duplicate', async () => {
+    mockPointsDb.addEntry.mockResolvedValue(null as never)
+
+    await expect(awardPoints(SHARE)).resolves.toMatchObject({ awarded: 0, duplicate: true })
+    expect(mockPointsDb.syncBalance).not.toHaveBeenCalled()
+  })
+
+  it('trims awards to the daily cap', async () => {
+    mockPointsDb.getEarnedSince.mockResolvedValue(45)
+
+    await expect(awardPoints(SHARE)).resolves.toMatchObject({ awarded: 5, capped: true })
+    expect(mockPointsDb.addEntry).toHaveBeenCalledWith({ ...SHARE, points: 5 })
+
+    mockPointsDb.getEarnedSince.mockResolvedValue(50)
+    await expect(awardPoints(SHARE)).resolves.toEqual({ awarded: 0, duplicate: false, capped: true, balance: 100 })
+  })
+
+  it('leaves uncapped sources alone', async () => {
+    await awardPoints({ ...SHARE, source: 'daily_challenge', points: 25, idempotencyKey: 'daily_challenge:2026-10-19' })
+
+    expect(mockPointsDb.getEarnedSince).not.toHaveBeenCalled()
+    expect(mockPointsDb.addEntry).toHaveBeenCalledWith(expect.objectContaining({ points: 25 }))
+  })
+})
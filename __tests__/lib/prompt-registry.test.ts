@@ -0,0 +1,53 @@
+import {
+  assignPromptVersion,
+  formatPromptVersion,
+  renderPromptTemplate,
+  resolvePromptVersion,
+  validatePromptTemplates,
+} from '@/lib/prompt-registry'
+import { PROMPT_TEMPLATE_VERSIONS, PromptTemplateVersion } from '@/lib/config/prompt-template-versions'
+
+describe('prompt-registry', () => {
+  const templates: PromptTemplateVersion[] = [
+    { key: 'couplet_upper', version: 'v1', weight: 1, variables: ['theme'], body: '以{{theme}}为题' },
+    { key: 'couplet_upper', version: 'v2', weight: 3, variables: ['theme'], body: '请围绕{{theme}}出上联' },
+    { key: 'couplet_upper', version: 'draft', weight: 0, variables: ['theme'], body: '草稿{{theme}}' },
+  ]
+
+  it('validates the shipped template versions', () => {
+    expect(() => validatePromptTemplates(PROMPT_TEMPLATE_VERSIONS)).not.toThrow()
+  })
+
+  it('rejects duplicate versions, undeclared variables and keys without traffic', () => {
+    expect(() => validatePromptTemplates([templates[0], templates[0]])).toThrow('重复')
+    expect(() => validatePromptTemplates([{ ...templates[0], body: '{{theme}}{{mood}}' }])).toThrow('mood')
+    expect(() => validatePromptTemplates([templates[2]])).toThrow('没有可分流的版本')
+  })
+
+  it('assigns each user to a stable bucket in proportion to weight', () => {
+    const first = assignPromptVersion('couplet_upper', 'openid-1', templates)
+    expect(assignPromptVersion('couplet_upper', 'openid-1', templates)).toBe(first)
+
+    const counts: Record<string, number> = {}
+    for (let i = 0; i < 400; i++) {
+      const version = assignPromptVersion('couplet_upper', `user-${i}`, templates)
+      counts[version] = (counts[version] ?? 0) + 1
+    }
+    expect(counts.draft).toBeUndefined()
+    expect(counts.v2).toBeGreaterThan(counts.v1)
+  })
+
+  it('prefers an existing requested version, then the user bucket, then the heaviest version', () => {
+    expect(resolvePromptVersion('couplet_upper', 'openid-1', 'draft', templates)).toBe('draft')
+    expect(resolvePromptVersion('couplet_upper', 'openid-1', 'v9', templates))
+      .toBe(assignPromptVersion('couplet_upper', 'openid-1', templates))
+    expect(resolvePromptVersion('couplet_upper', undefined, undefined, templates)).toBe('v2')
+  })
+
+  it('renders variables and fails on missing ones', () => {
+    expect(renderPromptTemplate('couplet_upper', 'v2', { theme: '春节' }, templates)).toBe('请围绕春节出上联')
+    expect(() => renderPromptTemplate('couplet_upper', 'v2', {}, templates)).toThrow('缺少变量 theme')
+    expect(() => renderPromptTemplate('couplet_upper', 'v3', { theme: '春节' }, templates)).toThrow('不存在')
+    expect(formatPromptVersion('blessing_template', 'v2')).toBe('blessing_template@v2')
+  })
+})
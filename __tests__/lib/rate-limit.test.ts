@@ -1,4 +1,5 @@
-import { getClientIP } from '@/lib/rate-limit';
+import { kv } from '@vercel/kv';
+import { checkRateLimit, getClientIP } from '@/lib/rate-limit';
 
 // Mock Vercel KV
 jest.mock('@vercel/kv', () => ({
@@ -105,4 +106,28 @@ describe('Rate Limit Service', () => {
       expect(getClientIP(request)).toBe('192.168.1.1');
     });
   });
-});
\ No newline at end of file
+
+  describe('checkRateLimit', () => {
+    const mockKv = kv as jest.Mocked<typeof kv>;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      // 分钟计数为 1，日计数为 51
+      mockKv.incr.mockResolvedValueOnce(1).mockResolvedValueOnce(51);
+    });
+
+    it('超过每日上限时应该拒绝请求', async () => {
+      const result = await checkRateLimit('openid_1');
+
+      expect(result.success).toBe(false);
+      expect(result.limit).toBe(50);
+      expect(result.error).toBe('今日使用次数已达上限');
+    });
+
+    it('应该叠加兑换获得的额外每日次数', async () => {
+      const result = await checkRateLimit('openid_1', { extraDaily: 20 });
+
+      expect(result.success).toBe(true);
+    });
+  });
+});
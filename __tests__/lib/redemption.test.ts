@@ -0,0 +1,123 @@
+import { getRedemptionCatalog, getUserEntitlements, isPremiumStyle, redeemItem } from '@/lib/redemption'
+import { entitlementDb, pointsDb } from '@/lib/db'
+
+jest.mock('@/lib/db', () => ({
+  userStatsDb: {
+    initUserStats: jest.fn(),
+  },
+  pointsDb: {
+    hasEntry: jest.fn(),
+    getBalance: jest.fn(),
+  },
+  entitlementDb: {
+    getActiveEntitlements: jest.fn(),
+    redeem: jest.fn(),
+  },
+}))
+
+const mockPointsDb = pointsDb as jest.Mocked<typeof pointsDb>
+const mockEntitlementDb = entitlementDb as jest.Mocked<typeof entitlementDb>
+
+const ROWS = [
+  { type: 'extra_daily_generations', value: null, amount: 20 },
+  { type: 'extra_daily_generations', value: null, amount: 20 },
+  { type: 'premium_style', value: '藏头诗', amount: null },
+  { type: 'card_theme', value: 'ink_wash', amount: null },
+]
+
+describe('redemption', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPointsDb.hasEntry.mockResolvedValue(false)
+    mockPointsDb.getBalance.mockResolvedValue(300)
+    mockEntitlementDb.getActiveEntitlements.mockResolvedValue([] as never)
+    mockEntitlementDb.redeem.mockResolvedValue(true)
+  })
+
+  it('sums active entitlements', async () => {
+    mockEntitlementDb.getActiveEntitlements.mockResolvedValue(ROWS as never)
+
+    await expect(getUserEntitlements('openid_1')).resolves.toEqual({
+      extraDailyGenerations: 40,
+      premiumStyles: ['藏头诗'],
+      cardThemes: ['ink_wash'],
+    })
+  })
+
+  it('recognises premium styles', () => {
+    expect(isPremiumStyle('藏头诗')).toBe(true)
+    expect(isPremiumStyle('传统')).toBe(false)
+    expect(isPremiumStyle(undefined)).toBe(false)
+  })
+
+  it('marks owned one-off items in the catalog', async () => {
+    mockEntitlementDb.getActiveEntitlements.mockResolvedValue(ROWS as never)
+
+    const catalog = await getRedemptionCatalog('openid_1')
+    const owned = catalog.filter((item) => item.owned).map((item) => item.id)
+    expect(owned).toEqual(['style_acrostic', 'card_ink_wash'])
+  })
+
+  it('redeems an item in one transaction', async () => {
+    mockPointsDb.getBalance.mockResolvedValue(100)
+
+    await expect(redeemItem('openid_1', 'style_acrostic', 'req-1')).resolves.toMatchObject({
+      status: 'redeemed',
+      balance: 100,
+    })
+    expect(mockEntitlementDb.redeem).toHaveBeenCalledWith(expect.objectContaining({
+      openid: 'openid_1',
+      itemId: 'style_acrostic',
+      cost: 200,
+      idempotencyKey: 'redeem:req-1',
+      type: 'premium_style',
+      value: '藏头诗',
+      amount: null,
+      expiresAt: null,
+    }))
+  })
+
+  it('gives generation packs an expiry', async () => {
+    await redeemItem('openid_1', 'extra_generations_20', 'req-2')
+
+    const data = mockEntitlementDb.redeem.mock.calls[0][0]
+    expect(data).toMatchObject({ type: 'extra_daily_generations', amount: 20, value: null })
+    expect(Date.parse(data.expiresAt as string) - Date.now()).toBeGreaterThan(6 * 24 * 60 * 60 * 1000)
+  })
+
+  it('does not charge a retried request twice', async () => {
+    mockPointsDb.hasEntry.mockResolvedValue(true)
+
+    await expect(redeemItem('openid_1', 'style_acrostic', 'req-1')).resolves.toMatchObject({ status: 'duplicate' })
+    expect(mockEntitlementDb.redeem).not.toHaveBeenCalled()
+  })
+
+  it('rejects unknown and already owned items', async () => {
+    await expect(redeemItem('openid_1', 'missing')).resolves.toEqual({ status: 'not_found' })
+
+    mockEntitlementDb.getActiveEntitlements.mockResolvedValue(ROWS as never)
+    await expect(redeemItem('openid_1', 'card_ink_wash')).resolves.toMatchObject({ status: 'owned' })
+    expect(mockEntitlementDb.redeem).not.toHaveBeenCalled()
+  })
+
+  it('reports insufficient points when the transaction writes nothing', async () => {
+    mockEntitlementDb.redeem.mockResolvedValue(false)
+    mockPointsDb.getBalance.mockResolvedValue(50)
+
+    await expect(redeemItem('openid_1', 'style_acrostic', 'req-3')).resolves.toMatchObject({
+      status: 'insufficient',
+      balance: 50,
+    })
+  })
+
+  it('reports owned when a concurrent redeem unlocked the same item first', async () => {
+    // 事务前未拥有，事务中发现另一请求已发放同一商品，不扣分
+    mockEntitlementDb.getActiveEntitlements
+      .mockResolvedValueOnce([] as never)
+      .mockResolvedValueOnce([ROWS[2]] as never)
+    mockEntitlementDb.redeem.mockResolvedValue(false)
+
+    await expect(redeemItem('openid_1', 'style_acrostic')).resolves.toMatchObject({ status: 'owned', balance: 300 })
+    expect(mockEntitlementDb.redeem).toHaveBeenCalledWith(expect.objectContaining({ repeatable: false }))
+  })
+})
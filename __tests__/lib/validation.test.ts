@@ -1,4 +1,4 @@
-import { validateInput, cleanText } from '@/lib/validation'
+import { validateInput, validateRefineInput, cleanText } from '@/lib/validation'
 
 describe('validation', () => {
   describe('validateInput', () => {
@@ -214,6 +214,27 @@ describe('validation', () => {
     })
   })
 
+  describe('validateRefineInput', () => {
+    it('accepts a blessing with a preset', () => {
+      const result = validateRefineInput({ blessing: '生日快乐，万事如意', preset: 'shorter' })
+
+      expect(result.valid).toBe(true)
+    })
+
+    it('rejects a blessing longer than the limit', () => {
+      const result = validateRefineInput({ blessing: '福'.repeat(301), preset: 'shorter' })
+
+      expect(result.valid).toBe(false)
+      expect(result.error).toBe('祝福语太长，无法修改')
+    })
+
+    it('accepts a blessing at the limit', () => {
+      const result = validateRefineInput({ blessing: '福'.repeat(300), preset: 'shorter' })
+
+      expect(result.valid).toBe(true)
+    })
+  })
+
   describe('cleanText', () => {
     it('removes control characters', () => {
       const input = 'Hello\x00\x01\x1F\x7FWorld'
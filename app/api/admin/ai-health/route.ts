@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import { loadProviderRegistry } from "@/lib/ai-providers";
+import { getProviderHealth, resetCircuit } from "@/lib/circuit-breaker";
+
+/**
+ * 查询 AI 供应商健康状态
+ * GET /api/admin/ai-health
+ */
+export async function GET(req: NextRequest) {
+  try {
+    if (!verifyAdminRequest(req)) {
+      return NextResponse.json({ error: "无权访问" }, { status: 401 });
+    }
+
+    const { providers, enableFallback } = loadProviderRegistry();
+
+    const health = await Promise.all(
+      providers.map(async (provider) => ({
+        name: provider.name,
+        adapter: provider.adapter,
+        model: provider.model,
+        ...(await getProviderHealth(provider.name)),
+      }))
+    );
+
+    return NextResponse.json({ enableFallback, providers: health });
+  } catch (error) {
+    console.error("获取供应商健康状态失败:", error);
+    return NextResponse.json({ error: "获取供应商健康状态失败" }, { status: 500 });
+  }
+}
+
+/**
+ * 手动重置某个供应商的熔断器
+ * POST /api/admin/ai-health  { "provider": "deepseek" }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (!verifyAdminRequest(req)) {
+      return NextResponse.json({ error: "无权访问" }, { status: 401 });
+    }
+
+    const { provider } = await req.json();
+    const { providers } = loadProviderRegistry();
+
+    if (!providers.some((item) => item.name === provider)) {
+      return NextResponse.json({ error: "供应商不存在" }, { status: 404 });
+    }
+
+    await resetCircuit(provider);
+
+    return NextResponse.json({ success: true, provider, health: await getProviderHealth(provider) });
+  } catch (error) {
+    console.error("重置熔断器失败:", error);
+    return NextResponse.json({ error: "重置熔断器失败" }, { status: 500 });
+  }
+}
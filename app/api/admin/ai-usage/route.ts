@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import { usageDb } from "@/lib/db";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 获取北京时间的日期字符串（YYYY-MM-DD）
+ */
+function toChinaDateString(date: Date): string {
+  return new Date(date.getTime() + 8 * 60 * 60 * 1000).toISOString().split("T")[0];
+}
+
+/**
+ * 查询 AI 用量与费用
+ * GET /api/admin/ai-usage?from=2026-10-01&to=2026-10-19
+ * 默认返回最近 7 天（北京时间），按天 / 供应商 / 功能汇总，并附带按功能的合计
+ */
+export async function GET(req: NextRequest) {
+  try {
+    if (!verifyAdminRequest(req)) {
+      return NextResponse.json({ error: "无权访问" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const to = searchParams.get("to") || toChinaDateString(new Date());
+    const from = searchParams.get("from") || toChinaDateString(new Date(Date.now() - 6 * 24 * 60 * 60 * 1000));
+
+    if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) {
+      return NextResponse.json({ error: "日期参数无效" }, { status: 400 });
+    }
+
+    const rows = await usageDb.getUsageSummary(from, to);
+
+    const usage = rows.map((row) => ({
+      day: String(row.day),
+      provider: String(row.provider),
+      feature: String(row.feature),
+      calls: Number(row.calls),
+      failures: Number(row.failures),
+      promptTokens: Number(row.prompt_tokens),
+      completionTokens: Number(row.completion_tokens),
+      cost: Number(row.cost),
+      avgLatencyMs: Math.round(Number(row.avg_latency_ms)),
+    }));
+
+    // 按功能合计，便于直接查看各功能的花费
+    const byFeature: Record<string, { calls: number; promptTokens: number; completionTokens: number; cost: number }> = {};
+    for (const item of usage) {
+      const total = byFeature[item.feature] ?? { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+      total.calls += item.calls;
+      total.promptTokens += item.promptTokens;
+      total.completionTokens += item.completionTokens;
+      total.cost += item.cost;
+      byFeature[item.feature] = total;
+    }
+
+    return NextResponse.json({ from, to, usage, byFeature });
+  } catch (error) {
+    console.error("获取AI用量失败:", error);
+    return NextResponse.json({ error: "获取AI用量失败" }, { status: 500 });
+  }
+}
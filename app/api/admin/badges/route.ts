@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import {
+  invalidateBadgeCache,
+  isBadgeActive,
+  loadBadgeDefinitions,
+  validateBadgeDefinition,
+} from "@/lib/badge-registry";
+import { badgeDb } from "@/lib/db";
+
+/**
+ * 查询全部徽章定义（含已下线的徽章）
+ * GET /api/admin/badges
+ */
+export async function GET(req: NextRequest) {
+  try {
+    if (!verifyAdminRequest(req)) {
+      return NextResponse.json({ error: "无权访问" }, { status: 401 });
+    }
+
+    const badges = await loadBadgeDefinitions();
+
+    return NextResponse.json({
+      badges: badges.map((badge) => ({ ...badge, active: isBadgeActive(badge) })),
+    });
+  } catch (error) {
+    console.error("获取徽章定义失败:", error);
+    return NextResponse.json({ error: "获取徽章定义失败" }, { status: 500 });
+  }
+}
+
+/**
+ * 新增徽章
+ * POST /api/admin/badges
+ * { "id": "mid_autumn_2026", "name": "中秋达人", "description": "中秋主题对联≥3个", "icon": "🥮",
+ *   "requirement": { "type": "theme_count", "value": 3, "theme": "中秋" },
+ *   "activeFrom": "2026-09-20", "activeTo": "2026-10-08" }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (!verifyAdminRequest(req)) {
+      return NextResponse.json({ error: "无权访问" }, { status: 401 });
+    }
+
+    let badge;
+    try {
+      badge = validateBadgeDefinition({ ...(await req.json()), retiredAt: null });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "徽章定义无效" },
+        { status: 400 }
+      );
+    }
+
+    const created = await badgeDb.createBadge(badge);
+    if (!created) {
+      return NextResponse.json({ error: "徽章 ID 已存在" }, { status: 409 });
+    }
+    invalidateBadgeCache();
+
+    return NextResponse.json({ success: true, badge });
+  } catch (error) {
+    console.error("新增徽章失败:", error);
+    return NextResponse.json({ error: "新增徽章失败" }, { status: 500 });
+  }
+}
+
+/**
+ * 下线徽章（已解锁的用户仍可查看，不再参与评估）
+ * DELETE /api/admin/badges?id=spring_expert
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    if (!verifyAdminRequest(req)) {
+      return NextResponse.json({ error: "无权访问" }, { status: 401 });
+    }
+
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id) {
+      return NextResponse.json({ error: "缺少徽章 ID" }, { status: 400 });
+    }
+
+    const retired = await badgeDb.retireBadge(id);
+    if (!retired) {
+      return NextResponse.json({ error: "徽章不存在或已下线" }, { status: 404 });
+    }
+    invalidateBadgeCache();
+
+    return NextResponse.json({ success: true, id, retiredAt: retired.retired_at });
+  } catch (error) {
+    console.error("下线徽章失败:", error);
+    return NextResponse.json({ error: "下线徽章失败" }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import { historyDb } from "@/lib/db";
+import { PROMPT_TEMPLATE_VERSIONS } from "@/lib/config/prompt-template-versions";
+import { formatPromptVersion } from "@/lib/prompt-registry";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 获取北京时间的日期字符串（YYYY-MM-DD）
+ */
+function toChinaDateString(date: Date): string {
+  return new Date(date.getTime() + 8 * 60 * 60 * 1000).toISOString().split("T")[0];
+}
+
+/**
+ * 比例保留四位小数，分母为 0 时返回 0
+ */
+function toRate(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 10000) / 10000 : 0;
+}
+
+/**
+ * 对比各提示词模板版本的效果
+ * GET /api/admin/prompt-versions?from=2026-10-01&to=2026-10-19
+ * 默认统计最近 7 天（北京时间），返回每个版本的生成次数、复制率与重新生成率；
+ * 没有数据的已配置版本也会列出，便于确认分流是否生效
+ */
+export async function GET(req: NextRequest) {
+  try {
+    if (!verifyAdminRequest(req)) {
+      return NextResponse.json({ error: "无权访问" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const to = searchParams.get("to") || toChinaDateString(new Date());
+    const from = searchParams.get("from") || toChinaDateString(new Date(Date.now() - 6 * 24 * 60 * 60 * 1000));
+
+    if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) {
+      return NextResponse.json({ error: "日期参数无效" }, { status: 400 });
+    }
+
+    const rows = await historyDb.getPromptVersionStats(from, to);
+    const statsByVersion = new Map(rows.map((row) => [String(row.prompt_version), row]));
+
+    const versions = PROMPT_TEMPLATE_VERSIONS.map((template) => {
+      const id = formatPromptVersion(template.key, template.version);
+      const row = statsByVersion.get(id);
+      const generations = row ? Number(row.generations) : 0;
+      const copies = row ? Number(row.copies) : 0;
+      const regenerations = row ? Number(row.regenerations) : 0;
+      return {
+        id,
+        key: template.key,
+        version: template.version,
+        description: template.description ?? "",
+        weight: template.weight,
+        generations,
+        copies,
+        regenerations,
+        copyRate: toRate(copies, generations),
+        regenerateRate: toRate(regenerations, generations),
+      };
+    });
+
+    return NextResponse.json({ from, to, versions });
+  } catch (error) {
+    console.error("获取提示词版本统计失败:", error);
+    return NextResponse.json({ error: "获取提示词版本统计失败" }, { status: 500 });
+  }
+}
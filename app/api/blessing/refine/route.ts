@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from "next/server";
+import axios from "axios";
+import { generateBlessing } from "@/lib/ai-service";
+import { createRefineMessages } from "@/lib/prompt-templates";
+import { checkBlessing } from "@/lib/blessing-postprocess";
+import { generateWithModeration } from "@/lib/content-moderation";
+import { resolveRefineInstruction } from "@/lib/config/refine-presets";
+import { validateRefineInput, cleanText } from "@/lib/validation";
+import { db, historyDb } from "@/lib/db";
+import { verifyToken } from "@/lib/auth";
+import { getUserEntitlements, isPremiumStyle } from "@/lib/redemption";
+import { checkRateLimit } from "@/lib/rate-limit";
+
+/**
+ * 修改请求体接口
+ */
+interface RefineRequest {
+  blessing?: string;          // 上一轮的祝福语（与 historyId 二选一）
+  historyId?: string;         // 历史记录 ID，优先于 blessing
+  preset?: string;            // 快捷修改选项（见 lib/config/refine-presets.ts）
+  instruction?: string;       // 自定义修改意见，与 preset 同时提供时以 preset 为准
+  name?: string;              // 对方的名字（加名字选项使用）
+  occasion?: string;          // 原始场合（可选）
+  festival?: string;          // 原始节日（可选）
+  targetPerson?: string;      // 原始祝福对象（可选）
+  style?: string;             // 原始风格（可选）
+  userProfile?: 'elderly' | 'standard' | 'young'; // 用户群配置
+}
+
+/**
+ * 将异常转换为用户友好的错误消息
+ */
+function getErrorMessage(error: unknown): string {
+  if (axios.isAxiosError(error) && error.response?.status === 429) {
+    return "请求太频繁，请稍后再试";
+  } else if (error instanceof Error && error.message.includes('429')) {
+    return "请求太频繁，请稍后再试";
+  }
+  return "修改失败，请重试";
+}
+
+/**
+ * 多轮修改祝福语
+ * POST /api/blessing/refine
+ * 把上一轮的祝福语作为 assistant 消息、修改意见作为新的 user 消息发送给模型，
+ * 返回修改后的祝福语；登录用户的结果会作为新的历史记录保存
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 检查是否为微信小程序访问 - 仅在生产环境中启用
+    const isDevelopment = process.env.NODE_ENV === 'development';
+    if (!isDevelopment) {
+      const userAgent = req.headers.get('user-agent') || '';
+      if (!userAgent.includes('MicroMessenger')) {
+        return NextResponse.json(
+          { error: "此应用仅支持微信小程序访问，请在微信中打开" },
+          { status: 403 }
+        );
+      }
+    }
+
+    let openid: string;
+    if (!isDevelopment) {
+      const token = req.cookies.get('auth_token')?.value || req.headers.get('Authorization')?.replace('Bearer ', '');
+      if (!token) {
+        return NextResponse.json({ error: '用户未登录' }, { status: 401 });
+      }
+      const decoded = verifyToken(token);
+      if (!decoded) {
+        return NextResponse.json({ error: '登录已过期' }, { status: 401 });
+      }
+      openid = decoded.openid;
+    } else {
+      console.log('开发模式：跳过微信验证和认证');
+      openid = 'dev_openid_12345';
+    }
+
+    const body: RefineRequest = await req.json();
+
+    const validation = validateRefineInput(body);
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const instruction = body.preset
+      ? resolveRefineInstruction(body.preset, body.name)
+      : cleanText(body.instruction || '');
+    if (!instruction) {
+      return NextResponse.json({ error: "修改选项无效" }, { status: 400 });
+    }
+
+    // 获取用户信息（开发环境使用模拟用户）
+    let userId: string | null = null;
+    if (isDevelopment) {
+      userId = 'dev_user_12345';
+    } else {
+      const userResult = await db.execute({
+        sql: 'SELECT id FROM users WHERE openid = ? LIMIT 1',
+        args: [openid],
+      });
+      userId = userResult.rows[0] ? String(userResult.rows[0].id) : null;
+    }
+
+    // 传入历史记录时，以记录中的祝福语和场合为准
+    let blessing = cleanText(body.blessing || '');
+    let occasion = body.occasion;
+    let targetPerson = body.targetPerson;
+    let style = body.style;
+    if (body.historyId) {
+      const item = userId ? await historyDb.getHistoryItem(body.historyId, userId) : null;
+      if (item) {
+        blessing = String(item.blessing);
+        occasion = item.occasion ? String(item.occasion) : occasion;
+        targetPerson = item.target_person ? String(item.target_person) : targetPerson;
+        style = item.style ? String(item.style) : style;
+      } else if (!blessing) {
+        return NextResponse.json({ error: "历史记录不存在" }, { status: 404 });
+      }
+    }
+
+    // 高级风格需先用积分兑换；风格可能取自历史记录，取出后再检查（开发环境不加载权益，高级风格同样不可用）
+    const entitlements = isDevelopment ? null : await getUserEntitlements(openid);
+    if (isPremiumStyle(style) && !entitlements?.premiumStyles.includes(style as string)) {
+      return NextResponse.json(
+        { error: "该风格需要先用积分兑换" },
+        { status: 403 }
+      );
+    }
+
+    // 修改同样调用 AI，与生成共用每日次数上限（叠加兑换的加油包；开发环境不依赖数据库，跳过）
+    if (entitlements) {
+      const rateLimit = await checkRateLimit(openid, { extraDaily: entitlements.extraDailyGenerations });
+      if (!rateLimit.success) {
+        return NextResponse.json(
+          { error: rateLimit.error, limit: rateLimit.limit, remaining: rateLimit.remaining, resetTime: rateLimit.resetTime },
+          { status: 429 }
+        );
+      }
+    }
+
+    const { result: refined, passed } = await generateWithModeration(
+      instruction,
+      { feature: 'blessing', occasion: [occasion, body.festival].filter(Boolean).join(' '), openid },
+      // 纠正提示词作为新的修改意见追加在同一段对话中
+      async (attemptInstruction) => checkBlessing(
+        await generateBlessing(
+          createRefineMessages({
+            blessing,
+            instruction: attemptInstruction,
+            occasion: [occasion, body.festival].filter(Boolean).join('、') || undefined,
+            targetPerson,
+            style,
+            userProfile: body.userProfile,
+          }),
+          'blessing_refine'
+        ),
+        body.userProfile
+      ).text
+    );
+
+    if (!passed || !refined) {
+      return NextResponse.json({ error: "修改失败，请重试" }, { status: 500 });
+    }
+
+    let historyId: string | null = null;
+    if (userId) {
+      try {
+        const historyItem = await historyDb.addHistory({
+          user_id: userId,
+          blessing: refined,
+          occasion,
+          target_person: targetPerson,
+          style: style || '传统',
+        });
+        historyId = historyItem?.id ? String(historyItem.id) : null;
+      } catch (historyError) {
+        // 历史记录插入失败不影响返回结果
+        console.error('插入历史记录失败:', historyError);
+      }
+    }
+
+    return NextResponse.json({ blessing: refined, historyId });
+  } catch (error) {
+    console.error("修改祝福语失败:", error);
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: 500 });
+  }
+}
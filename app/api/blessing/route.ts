@@ -3,15 +3,28 @@ import { NextRequest, NextResponse } from "next/server";
 // HTTP 请求库，用于错误处理
 import axios from "axios";
 // AI 服务函数，用于调用外部 AI API
-import { generateBlessing } from "@/lib/ai-service";
+import { generateBlessing, generateBlessingStream } from "@/lib/ai-service";
 // 提示词模板生成器
-import { createBlessingPrompt } from "@/lib/prompt-templates";
+import { createBlessingPrompt, createBlessingVariantsPrompt, getBlessingTemplateKey } from "@/lib/prompt-templates";
+// 提示词模板版本分流
+import { formatPromptVersion, resolvePromptVersion } from "@/lib/prompt-registry";
+// 多候选解析
+import { parseBlessingVariants, resolveVariantCount } from "@/lib/blessing-variants";
+// 生成结果后处理
+import { finalizeBlessing, polishBlessing } from "@/lib/blessing-postprocess";
+// 输出内容审核
+import { createStreamModerator, generateWithModeration, moderateText } from "@/lib/content-moderation";
+// 模板模式祝福语缓存
+import { isCacheableRequest, storeBlessing, takeCachedBlessing } from "@/lib/blessing-cache";
 // 输入验证和清理函数
 import { validateInput, cleanText } from "@/lib/validation";
 // 数据库客户端
 import { db, historyDb } from "@/lib/db";
 // JWT验证相关
 import { verifyToken } from "@/lib/auth";
+// 积分兑换权益与速率限制
+import { getUserEntitlements, isPremiumStyle } from "@/lib/redemption";
+import { checkRateLimit } from "@/lib/rate-limit";
 
 /**
  * API 请求体接口
@@ -25,8 +38,182 @@ interface BlessingRequest {
   customDescription?: string; // 自定义描述（智能模式）
   useSmartMode?: boolean;     // 是否使用智能模式
   timestamp?: number;         // 时间戳（可选）
-  version?: string; // 版本号（可选）
+  version?: string;           // 提示词模板版本（可选，未指定时按用户分流）
   userProfile?: 'elderly' | 'standard' | 'young'; // 用户群配置
+  stream?: boolean;           // 是否以 SSE 流式返回（可选）
+  variants?: number;          // 一次生成的候选数量（3-5，可选）
+  n?: number;                 // variants 的别名（可选）
+  regenerate?: boolean;       // 是否由「重新生成」触发（用于比较各模板版本的重新生成率）
+}
+
+/**
+ * 将异常转换为用户友好的错误消息
+ * @param error - 捕获到的异常
+ * @returns 可直接返回给前端的错误文本
+ */
+function getErrorMessage(error: unknown): string {
+  // 处理特定的已知错误类型
+  if (axios.isAxiosError(error)) {
+    if (error.response?.status === 429) {
+      return "请求太频繁，请稍后再试";
+    } else if (error.response?.status === 401 || error.response?.status === 403) {
+      return "服务暂时不可用";
+    }
+  } else if (error instanceof Error && error.message.includes('429')) {
+    return "请求太频繁，请稍后再试";
+  }
+  return "生成失败，请重试";
+}
+
+/**
+ * 为当前用户插入一条历史记录
+ * 用户不存在或插入失败时只记录日志，不影响祝福语的返回
+ * @param isDevelopment - 是否为开发环境
+ * @param openid - 当前用户 openid
+ * @param body - 原始请求参数
+ * @param blessing - 最终生成的祝福语
+ * @param candidates - 多候选模式下的全部候选（可选）
+ * @returns 新插入的历史记录 ID，未插入时返回 null
+ */
+async function saveHistory(
+  isDevelopment: boolean,
+  openid: string,
+  body: BlessingRequest,
+  blessing: string,
+  candidates?: string[]
+): Promise<string | null> {
+  // 获取用户信息
+  let user = null;
+  let userError = null;
+
+  if (!isDevelopment) {
+    const result = await db.execute({
+      sql: 'SELECT id FROM users WHERE openid = ? LIMIT 1',
+      args: [openid],
+    });
+    user = result.rows[0] ?? null;
+    userError = user ? null : 'not found';
+  } else {
+    // 在开发模式下，模拟一个用户对象而不依赖数据库
+    user = { id: 'dev_user_12345' };
+    userError = null;
+    console.log('开发模式：使用模拟用户数据');
+  }
+
+  if (userError || !user) {
+    // 如果用户不存在，但生成祝福语成功，仍返回祝福语，但不插入历史记录
+    console.warn('用户不存在，无法插入历史记录:', userError);
+    return null;
+  }
+
+  // 插入历史记录
+  try {
+    const historyItem = await historyDb.addHistory({
+      user_id: String(user.id),
+      blessing,
+      occasion: body.occasion,
+      target_person: body.targetPerson,
+      style: body.style || '传统',
+      candidates,
+      prompt_version: body.version ? formatPromptVersion(getBlessingTemplateKey(body), body.version) : undefined,
+      is_regenerate: body.regenerate,
+    });
+    return historyItem?.id ? String(historyItem.id) : null;
+  } catch (historyError) {
+    // 历史记录插入失败，但不影响祝福语生成
+    console.error('插入历史记录失败:', historyError);
+    return null;
+  }
+}
+
+/**
+ * 拼接审核用的场合上下文（场合、节日、用户描述）
+ * @param body - 原始请求参数
+ * @returns 场合上下文文本
+ */
+function getOccasionContext(body: BlessingRequest): string {
+  return [body.occasion, body.festival, body.customDescription].filter(Boolean).join(' ');
+}
+
+/**
+ * 生成、后处理并审核祝福语
+ * 审核未通过时用纠正提示词重试一次，仍未通过则抛出异常
+ * @param prompt - 完整的提示词
+ * @param body - 原始请求参数
+ * @param openid - 当前用户 openid（用于审核日志）
+ * @param firstAttempt - 首次生成使用的函数（流式模式下边生成边推送），重试一律使用非流式生成
+ * @returns 最终的祝福语
+ * @throws Error - 生成失败或两次都未通过审核时抛出异常
+ */
+async function generateCheckedBlessing(
+  prompt: string,
+  body: BlessingRequest,
+  openid: string,
+  firstAttempt: (prompt: string) => Promise<string> = generateBlessing
+): Promise<string> {
+  const { result, passed } = await generateWithModeration(
+    prompt,
+    { feature: 'blessing', occasion: getOccasionContext(body), openid },
+    async (attemptPrompt, attempt) => finalizeBlessing(
+      await (attempt === 1 ? firstAttempt(attemptPrompt) : generateBlessing(attemptPrompt)),
+      attemptPrompt,
+      body.userProfile,
+      generateBlessing
+    )
+  );
+
+  if (!passed) {
+    throw new Error("生成内容未通过安全审核");
+  }
+  return result;
+}
+
+/**
+ * 以 SSE 形式流式返回祝福语
+ * 每段增量文本推送 `{ delta }`，结束时推送 `{ done, blessing, historyId }`，出错时推送 `{ error }`
+ * 历史记录在流结束、拿到完整文本后才插入
+ * @param generate - 生成函数，通过 onToken 推送增量文本并返回完整祝福语
+ * @param onComplete - 生成完成后的回调（用于写缓存、插入历史记录），返回历史记录 ID
+ * @returns text/event-stream 响应
+ */
+function createStreamResponse(
+  generate: (onToken: (delta: string) => void) => Promise<string>,
+  onComplete: (blessing: string) => Promise<string | null>
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (payload: Record<string, unknown>) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+      };
+
+      try {
+        const blessing = await generate((delta) => send({ delta }));
+        let historyId: string | null = null;
+        try {
+          historyId = await onComplete(blessing);
+        } catch (completeError) {
+          // 收尾失败（如查询用户出错）不影响已生成的祝福语
+          console.error('插入历史记录失败:', completeError);
+        }
+        send({ done: true, blessing, historyId });
+      } catch (error) {
+        console.error("流式生成祝福语失败:", error);
+        send({ error: getErrorMessage(error) });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
 }
 
 /**
@@ -94,69 +281,108 @@ export async function POST(req: NextRequest) {
       body.customDescription = cleanText(body.customDescription);
     }
     
+    const openid = decoded.openid;
+
+    // 高级风格需先用积分兑换；每日生成次数叠加兑换的加油包（开发环境不依赖数据库，跳过）
+    if (!isDevelopment) {
+      const entitlements = await getUserEntitlements(openid);
+      if (isPremiumStyle(body.style) && !entitlements.premiumStyles.includes(body.style as string)) {
+        return NextResponse.json(
+          { error: "该风格需要先用积分兑换" },
+          { status: 403 }
+        );
+      }
+
+      const rateLimit = await checkRateLimit(openid, { extraDaily: entitlements.extraDailyGenerations });
+      if (!rateLimit.success) {
+        return NextResponse.json(
+          { error: rateLimit.error, limit: rateLimit.limit, remaining: rateLimit.remaining, resetTime: rateLimit.resetTime },
+          { status: 429 }
+        );
+      }
+    }
+
+    // 按用户稳定分配提示词模板版本（A/B 实验），版本号随历史记录保存
+    body.version = resolvePromptVersion(getBlessingTemplateKey(body), openid, body.version);
+
     // 根据请求参数生成相应的 AI 提示词
     const prompt = createBlessingPrompt(body);
-    
-    // 调用 AI 服务生成祝福语
-    const blessing = await generateBlessing(prompt);
 
-    // 获取用户信息
-    let user = null;
-    let userError = null;
+    // 多候选模式：一次返回 3-5 条候选，历史记录保存全部候选以便记录用户复制了哪一条
+    const variantCount = resolveVariantCount(body.variants ?? body.n);
+    if (variantCount) {
+      const occasion = getOccasionContext(body);
+      const { result: candidates } = await generateWithModeration(
+        createBlessingVariantsPrompt(body, variantCount),
+        { feature: 'blessing', occasion, openid },
+        async (variantsPrompt) => parseBlessingVariants(await generateBlessing(variantsPrompt), variantCount)
+          .map((candidate) => polishBlessing(candidate, body.userProfile))
+          .filter(Boolean),
+        (list) => list.join('\n')
+      );
+      // 重试后仍未通过审核的候选直接丢弃
+      const blessings = candidates.filter((candidate) => moderateText(candidate, occasion).passed);
 
-    if (!isDevelopment) {
-      const result = await db.execute({
-        sql: 'SELECT id FROM users WHERE openid = ? LIMIT 1',
-        args: [decoded.openid],
-      });
-      user = result.rows[0] ?? null;
-      userError = user ? null : 'not found';
-    } else {
-      // 在开发模式下，模拟一个用户对象而不依赖数据库
-      user = { id: 'dev_user_12345' };
-      userError = null;
-      console.log('开发模式：使用模拟用户数据');
+      if (blessings.length === 0) {
+        return NextResponse.json({ error: "生成失败，请重试" }, { status: 500 });
+      }
+
+      const historyId = await saveHistory(isDevelopment, openid, body, blessings[0], blessings);
+      return NextResponse.json({ blessing: blessings[0], blessings, historyId });
+    }
+
+    // 模板模式先查缓存池，命中时直接返回该用户未看过的条目
+    const cacheable = isCacheableRequest(body);
+    const cached = cacheable ? await takeCachedBlessing(prompt, openid) : null;
+
+    // 流式模式：边生成边推送，结束后再插入历史记录
+    if (body.stream) {
+      if (cached) {
+        return createStreamResponse(
+          async (onToken) => {
+            onToken(cached);
+            return cached;
+          },
+          (blessing) => saveHistory(isDevelopment, openid, body, blessing)
+        );
+      }
+      return createStreamResponse(
+        // 增量文本经增量审核后推送，命中即停止推送；结束事件中的文本为后处理、审核后的最终结果
+        (onToken) => generateCheckedBlessing(
+          prompt,
+          body,
+          openid,
+          (attemptPrompt) => generateBlessingStream(
+            attemptPrompt,
+            createStreamModerator(getOccasionContext(body), onToken)
+          )
+        ),
+        async (blessing) => {
+          if (cacheable) {
+            await storeBlessing(prompt, openid, blessing);
+          }
+          return saveHistory(isDevelopment, openid, body, blessing);
+        }
+      );
     }
 
-    if (userError || !user) {
-      // 如果用户不存在，但生成祝福语成功，仍返回祝福语，但不插入历史记录
-      console.warn('用户不存在，无法插入历史记录:', userError);
-      return NextResponse.json({ blessing });
+    // 调用 AI 服务生成祝福语（缓存未命中时）
+    const blessing = cached ?? await generateCheckedBlessing(prompt, body, openid);
+    if (cacheable && !cached) {
+      await storeBlessing(prompt, openid, blessing);
     }
 
     // 插入历史记录
-    try {
-      await historyDb.addHistory({
-        user_id: user.id,
-        blessing,
-        occasion: body.occasion,
-        target_person: body.targetPerson,
-        style: body.style || '传统',
-      });
-    } catch (historyError) {
-      // 历史记录插入失败，但不影响祝福语生成
-      console.error('插入历史记录失败:', historyError);
-    }
+    const historyId = await saveHistory(isDevelopment, openid, body, blessing);
 
     // 返回成功结果
-    return NextResponse.json({ blessing });
+    return NextResponse.json({ blessing, historyId });
   } catch (error) {
     // 记录错误信息用于调试
     console.error("生成祝福语失败:", error);
 
     // 安全的错误处理 - 只返回用户友好的消息
-    let errorMessage = "生成失败，请重试";
-    
-    // 处理特定的已知错误类型
-    if (axios.isAxiosError(error)) {
-      if (error.response?.status === 429) {
-        errorMessage = "请求太频繁，请稍后再试";
-      } else if (error.response?.status === 401 || error.response?.status === 403) {
-        errorMessage = "服务暂时不可用";
-      }
-    } else if (error instanceof Error && error.message.includes('429')) {
-      errorMessage = "请求太频繁，请稍后再试";
-    }
+    const errorMessage = getErrorMessage(error);
 
     // 返回错误响应
     return NextResponse.json({ error: errorMessage }, { status: 500 });
@@ -2,6 +2,9 @@
 import { NextRequest, NextResponse } from "next/server";
 // UI配置相关
 import { getUIConfig } from "@/lib/config/ui-config";
+// 登录用户的积分兑换权益
+import { resolveCoupletAuth } from "@/lib/couplet-api-auth";
+import { getUserEntitlements } from "@/lib/redemption";
 
 /**
  * 配置查询参数接口
@@ -34,8 +37,16 @@ export async function GET(req: NextRequest) {
     const version = searchParams.get('version') || undefined;
     const platform = searchParams.get('platform') || 'wechat';
 
-    // 获取UI配置
-    const config = getUIConfig(version);
+    // 获取UI配置（已登录时附带积分兑换解锁的风格、卡片主题和每日生成上限）
+    const auth = resolveCoupletAuth(req);
+    // 权益读取失败时仍返回基础配置，不影响小程序初始化
+    const entitlements = auth
+      ? await getUserEntitlements(auth.openid).catch((error) => {
+          console.error("获取用户权益失败:", error);
+          return undefined;
+        })
+      : undefined;
+    const config = getUIConfig(version, entitlements);
 
     // 添加平台特定的配置调整（如果需要）
     // 这里可以根据不同平台返回不同的配置
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveCoupletAuth } from "@/lib/couplet-api-auth";
+import { ATTEMPT_CONFIG, toAttemptTimeline } from "@/lib/couplet-attempts";
+import { attemptDb, coupletDb } from "@/lib/db";
+
+/**
+ * 获取对联的尝试时间线
+ * GET /api/couplet/attempts?recordId=1
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const isDevelopment = process.env.NODE_ENV === "development";
+    if (!isDevelopment) {
+      const userAgent = req.headers.get("user-agent") || "";
+      if (!userAgent.includes("MicroMessenger")) {
+        return NextResponse.json(
+          { error: "此应用仅支持微信小程序访问，请在微信中打开" },
+          { status: 403 }
+        );
+      }
+    }
+
+    const auth = resolveCoupletAuth(req);
+    if (!auth) {
+      return NextResponse.json({ error: "用户未登录" }, { status: 401 });
+    }
+
+    const recordId = Number(new URL(req.url).searchParams.get("recordId"));
+    if (!Number.isInteger(recordId) || recordId <= 0) {
+      return NextResponse.json({ error: "参数无效" }, { status: 400 });
+    }
+
+    const record = await coupletDb.getCoupletRecord(recordId);
+    if (!record || record.openid !== auth.openid) {
+      return NextResponse.json({ error: "对联不存在" }, { status: 404 });
+    }
+
+    const attempts = toAttemptTimeline(await attemptDb.getAttempts(recordId));
+
+    return NextResponse.json({
+      recordId,
+      upperLine: record.upper_line,
+      bestScore: record.score,
+      maxAttempts: ATTEMPT_CONFIG.maxAttempts,
+      remaining: Math.max(0, ATTEMPT_CONFIG.maxAttempts - attempts.length),
+      attempts,
+    });
+  } catch (error) {
+    console.error("获取尝试记录失败:", error);
+    return NextResponse.json({ error: "获取尝试记录失败，请重试" }, { status: 500 });
+  }
+}
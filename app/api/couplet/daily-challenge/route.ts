@@ -1,10 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
+import axios from "axios";
 import { resolveCoupletAuth } from "@/lib/couplet-api-auth";
+import { COUPLET_REVIEW_FALLBACK, validateCoupletReviewRequest } from "@/lib/couplet-validation";
+import { reviewCouplet } from "@/lib/couplet-review";
+import { evaluateAchievements } from "@/lib/achievements";
 import { dailyChallengeDb } from "@/lib/db";
-
-function getTodayDateString(): string {
-  return new Date().toISOString().split("T")[0];
-}
+import { awardPoints } from "@/lib/points";
+import {
+  DAILY_CHALLENGE_CONFIG,
+  calculateDailyChallengePoints,
+  calculateDailyStreak,
+  ensureDailyChallenge,
+  getChinaDateString,
+  resolveDailyTiming,
+} from "@/lib/daily-challenge";
 
 export async function GET(req: NextRequest) {
   try {
@@ -24,47 +33,23 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: "用户未登录" }, { status: 401 });
     }
 
-    const today = getTodayDateString();
-
-    // 获取或创建今日挑战
-    let challenge = await dailyChallengeDb.getDailyChallenge(today);
-
-    if (!challenge) {
-      // 如果今日挑战不存在，生成一个新的
-      // 实际应用中，这里应该调用 AI 生成上联
-      const themes = ["春节", "元宵", "贺寿", "乔迁", "日常"];
-      const difficulties = ["simple", "medium", "hard"];
-      const randomTheme = themes[Math.floor(Math.random() * themes.length)];
-      const randomDifficulty = difficulties[Math.floor(Math.random() * difficulties.length)];
-
-      // 这里暂时使用示例上联，实际应该调用生成 API
-      const exampleUpperLines = {
-        "春节": "新春到来百花艳",
-        "元宵": "灯谜烁烁春宵明",
-        "贺寿": "寿星耀彩百年康",
-        "乔迁": "新居落成家业昌",
-        "日常": "岁月如歌人生长",
-      };
-
-      const upperLine = (exampleUpperLines as any)[randomTheme] || exampleUpperLines["日常"];
-
-      challenge = await dailyChallengeDb.createDailyChallenge({
-        date: today,
-        upperLine,
-        theme: randomTheme,
-        difficulty: randomDifficulty,
-      });
-    }
+    // 挑战按北京时间切换日期
+    const today = getChinaDateString();
+
+    // 通常已由定时任务提前生成；缺失时按需生成，AI 不可用时使用备用上联
+    const { challenge } = await ensureDailyChallenge(today, { allowFallback: true });
 
-    // 获取用户今日记录（如果存在）
-    const userRecord = await dailyChallengeDb.getUserDailyRecord(auth.openid, today);
+    // 首次获取时记录开始时间，提交时据此计算用时
+    const userRecord = await dailyChallengeDb.startDailyRecord(auth.openid, today);
 
     return NextResponse.json({
       date: today,
       upperLine: challenge.upper_line,
       theme: challenge.theme,
       difficulty: challenge.difficulty,
-      userRecord: userRecord ? {
+      startedAt: userRecord?.started_at ?? null,
+      limitSeconds: DAILY_CHALLENGE_CONFIG.limitSeconds,
+      userRecord: userRecord && userRecord.score !== null ? {
         score: userRecord.score,
         timeSpent: userRecord.time_spent,
         isLimitMode: userRecord.is_limit_mode,
@@ -76,3 +61,121 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ error: "获取每日挑战失败，请重试" }, { status: 500 });
   }
 }
+
+/**
+ * 提交今日挑战的下联
+ * POST /api/couplet/daily-challenge  { lowerLine, isLimitMode }
+ * 用时按服务端记录的开始时间计算；每天只记一次分，点评后发放积分
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const isDevelopment = process.env.NODE_ENV === "development";
+    if (!isDevelopment) {
+      const userAgent = req.headers.get("user-agent") || "";
+      if (!userAgent.includes("MicroMessenger")) {
+        return NextResponse.json(
+          { error: "此应用仅支持微信小程序访问，请在微信中打开" },
+          { status: 403 }
+        );
+      }
+    }
+
+    const auth = resolveCoupletAuth(req);
+    if (!auth) {
+      return NextResponse.json({ error: "用户未登录" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const today = getChinaDateString();
+
+    const challenge = await dailyChallengeDb.getDailyChallenge(today);
+    const record = await dailyChallengeDb.getUserDailyRecord(auth.openid, today);
+    if (!challenge || !record?.started_at) {
+      return NextResponse.json({ error: "请先开始今日挑战" }, { status: 400 });
+    }
+    if (record.score !== null) {
+      return NextResponse.json({ error: "今日挑战已完成，明天再来吧" }, { status: 409 });
+    }
+
+    // 上联以当天挑战为准，不接受客户端传入
+    const validation = validateCoupletReviewRequest({
+      upperLine: challenge.upper_line,
+      lowerLine: body?.lowerLine,
+    });
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { review, analysis } = await reviewCouplet(validation.upperLine!, validation.lowerLine!, {
+      difficulty: challenge.difficulty as 'simple' | 'medium' | 'hard',
+      theme: String(challenge.theme),
+      openid: auth.openid,
+    });
+
+    // 内容不合规时不计分，用户可修改后重新提交
+    if (!review.canShare) {
+      return NextResponse.json(
+        {
+          error: "对联内容不符合分享要求，请修改后重试",
+          review: COUPLET_REVIEW_FALLBACK,
+        },
+        { status: 400 }
+      );
+    }
+
+    const timing = resolveDailyTiming(String(record.started_at), body?.isLimitMode === true);
+
+    // 并发提交时只有第一次能写入成绩
+    const saved = await dailyChallengeDb.saveDailyRecord({
+      openid: auth.openid,
+      date: today,
+      lowerLine: validation.lowerLine!,
+      score: review.score,
+      reviewSummary: review.summary,
+      timeSpent: timing.timeSpent,
+      isLimitMode: timing.isLimitMode,
+    });
+    if (!saved) {
+      return NextResponse.json({ error: "今日挑战已完成，明天再来吧" }, { status: 409 });
+    }
+
+    const points = await awardPoints({
+      openid: auth.openid,
+      points: calculateDailyChallengePoints(review.score, timing.isLimitMode),
+      reason: "完成每日挑战",
+      source: 'daily_challenge',
+      idempotencyKey: `daily_challenge:${today}`,
+    });
+    const streak = calculateDailyStreak(await dailyChallengeDb.getUserChallengeDates(auth.openid), today);
+    const newBadges = await evaluateAchievements(auth.openid);
+
+    return NextResponse.json({
+      review,
+      analysis,
+      timeSpent: timing.timeSpent,
+      isLimitMode: timing.isLimitMode,
+      pointsAdded: points.awarded,
+      totalPoints: points.balance,
+      streak,
+      newBadges,
+    });
+  } catch (error) {
+    console.error("提交每日挑战失败:", error);
+
+    let errorMessage = "提交失败，请重试";
+    if (axios.isAxiosError(error)) {
+      if (error.response?.status === 429) {
+        errorMessage = "请求太频繁，请稍后再试";
+      } else if (
+        error.response?.status === 401 ||
+        error.response?.status === 403
+      ) {
+        errorMessage = "服务暂时不可用";
+      }
+    } else if (error instanceof Error && error.message.includes("429")) {
+      errorMessage = "请求太频繁，请稍后再试";
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
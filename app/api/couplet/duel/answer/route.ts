@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import axios from "axios";
+import { COUPLET_REVIEW_FALLBACK, validateCoupletReviewRequest } from "@/lib/couplet-validation";
+import { resolveCoupletAuth } from "@/lib/couplet-api-auth";
+import { answerDuel, getDuelStatus, toDuelView } from "@/lib/couplet-duel";
+import { duelDb } from "@/lib/db";
+
+/**
+ * 应战：对同一上联作答，点评后判定胜负
+ * POST /api/couplet/duel/answer
+ * { "token": "xxx", "lowerLine": "秋雨润物万户丰" }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const isDevelopment = process.env.NODE_ENV === "development";
+    if (!isDevelopment) {
+      const userAgent = req.headers.get("user-agent") || "";
+      if (!userAgent.includes("MicroMessenger")) {
+        return NextResponse.json(
+          { error: "此应用仅支持微信小程序访问，请在微信中打开" },
+          { status: 403 }
+        );
+      }
+    }
+
+    const auth = resolveCoupletAuth(req);
+    if (!auth) {
+      return NextResponse.json({ error: "用户未登录" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    if (typeof body?.token !== "string" || !body.token) {
+      return NextResponse.json({ error: "参数无效" }, { status: 400 });
+    }
+
+    const duel = await duelDb.getDuelByToken(body.token);
+    if (!duel) {
+      return NextResponse.json({ error: "对决不存在" }, { status: 404 });
+    }
+    if (duel.challenger_openid === auth.openid) {
+      return NextResponse.json({ error: "不能应战自己发起的对决" }, { status: 400 });
+    }
+    const status = getDuelStatus(duel);
+    if (status === "finished") {
+      return NextResponse.json({ error: "对决已结束" }, { status: 409 });
+    }
+    if (status === "expired") {
+      return NextResponse.json({ error: "对决已过期" }, { status: 410 });
+    }
+
+    // 上联取自对决记录，沿用点评接口的字数与内容校验
+    const validation = validateCoupletReviewRequest({ upperLine: duel.upper_line, lowerLine: body.lowerLine });
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = await answerDuel(auth.openid, duel, validation.lowerLine!);
+    if (result.status === "rejected") {
+      return NextResponse.json(
+        {
+          error: "对联内容不符合分享要求，请修改后重试",
+          review: COUPLET_REVIEW_FALLBACK,
+        },
+        { status: 400 }
+      );
+    }
+    if (result.status === "conflict") {
+      return NextResponse.json({ error: "对决已结束" }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      review: result.review,
+      analysis: result.analysis,
+      winner: result.winner,
+      pointsAdded: result.pointsAdded,
+      duel: toDuelView(result.duel!, auth.openid),
+    });
+  } catch (error) {
+    console.error("对决作答失败:", error);
+
+    let errorMessage = "作答失败，请重试";
+    if (axios.isAxiosError(error)) {
+      if (error.response?.status === 429) {
+        errorMessage = "请求太频繁，请稍后再试";
+      } else if (
+        error.response?.status === 401 ||
+        error.response?.status === 403
+      ) {
+        errorMessage = "服务暂时不可用";
+      }
+    } else if (error instanceof Error && error.message.includes("429")) {
+      errorMessage = "请求太频繁，请稍后再试";
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
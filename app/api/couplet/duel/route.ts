@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveCoupletAuth } from "@/lib/couplet-api-auth";
+import { DUEL_CONFIG, createDuel, toDuelView } from "@/lib/couplet-duel";
+import { coupletDb, duelDb } from "@/lib/db";
+
+/**
+ * 查看对决结果
+ * GET /api/couplet/duel?token=xxx
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const isDevelopment = process.env.NODE_ENV === "development";
+    if (!isDevelopment) {
+      const userAgent = req.headers.get("user-agent") || "";
+      if (!userAgent.includes("MicroMessenger")) {
+        return NextResponse.json(
+          { error: "此应用仅支持微信小程序访问，请在微信中打开" },
+          { status: 403 }
+        );
+      }
+    }
+
+    const auth = resolveCoupletAuth(req);
+    if (!auth) {
+      return NextResponse.json({ error: "用户未登录" }, { status: 401 });
+    }
+
+    const token = new URL(req.url).searchParams.get("token");
+    if (!token) {
+      return NextResponse.json({ error: "参数无效" }, { status: 400 });
+    }
+
+    const duel = await duelDb.getDuelByToken(token);
+    if (!duel) {
+      return NextResponse.json({ error: "对决不存在" }, { status: 404 });
+    }
+
+    return NextResponse.json(toDuelView(duel, auth.openid));
+  } catch (error) {
+    console.error("获取对决失败:", error);
+    return NextResponse.json({ error: "获取对决失败，请重试" }, { status: 500 });
+  }
+}
+
+/**
+ * 用已点评的对联向好友发起对决，返回分享用的 token
+ * POST /api/couplet/duel
+ * { "recordId": 1 }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const isDevelopment = process.env.NODE_ENV === "development";
+    if (!isDevelopment) {
+      const userAgent = req.headers.get("user-agent") || "";
+      if (!userAgent.includes("MicroMessenger")) {
+        return NextResponse.json(
+          { error: "此应用仅支持微信小程序访问，请在微信中打开" },
+          { status: 403 }
+        );
+      }
+    }
+
+    const auth = resolveCoupletAuth(req);
+    if (!auth) {
+      return NextResponse.json({ error: "用户未登录" }, { status: 401 });
+    }
+
+    const { recordId } = await req.json();
+    if (typeof recordId !== "number") {
+      return NextResponse.json({ error: "参数无效" }, { status: 400 });
+    }
+
+    // 只能用自己已完成点评且内容合规的对联发起（反向模式没有评分，同样排除）
+    const record = await coupletDb.getCoupletRecord(recordId);
+    if (!record || record.openid !== auth.openid) {
+      return NextResponse.json({ error: "对联不存在" }, { status: 404 });
+    }
+    if (record.score === null || !record.lower_line || !Number(record.can_share)) {
+      return NextResponse.json({ error: "请先完成下联点评再发起对决" }, { status: 400 });
+    }
+
+    const duel = await createDuel(auth.openid, record);
+
+    return NextResponse.json({
+      token: duel.token,
+      upperLine: duel.upper_line,
+      expiresAt: duel.expires_at,
+      expiresInHours: DUEL_CONFIG.expiresInHours,
+    });
+  } catch (error) {
+    console.error("发起对决失败:", error);
+    return NextResponse.json({ error: "发起对决失败，请重试" }, { status: 500 });
+  }
+}
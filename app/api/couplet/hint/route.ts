@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import axios from "axios";
+import type { Row } from "@libsql/client/http";
+import { resolveCoupletAuth } from "@/lib/couplet-api-auth";
+import { HINT_CONFIG, buildHints, getHintScoreFactor, revealNextHint } from "@/lib/couplet-hints";
+import { coupletDb } from "@/lib/db";
+
+// 提示状态：已揭示的内容、下一级消耗与当前评分折扣
+function toHintPayload(record: Row) {
+  const hintsUsed = Number(record.hints_used) || 0;
+  const next = HINT_CONFIG.levels[hintsUsed];
+  return {
+    recordId: record.id,
+    hintsUsed,
+    maxLevel: HINT_CONFIG.levels.length,
+    next: next ? { level: hintsUsed + 1, name: next.name, cost: next.cost } : null,
+    scoreFactor: getHintScoreFactor(hintsUsed),
+    hints: buildHints(String(record.upper_line), record.hint_sample ? String(record.hint_sample) : null, hintsUsed),
+  };
+}
+
+/**
+ * 查看已揭示的提示（不消耗积分）
+ * GET /api/couplet/hint?recordId=1
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const isDevelopment = process.env.NODE_ENV === "development";
+    if (!isDevelopment) {
+      const userAgent = req.headers.get("user-agent") || "";
+      if (!userAgent.includes("MicroMessenger")) {
+        return NextResponse.json(
+          { error: "此应用仅支持微信小程序访问，请在微信中打开" },
+          { status: 403 }
+        );
+      }
+    }
+
+    const auth = resolveCoupletAuth(req);
+    if (!auth) {
+      return NextResponse.json({ error: "用户未登录" }, { status: 401 });
+    }
+
+    const recordId = Number(new URL(req.url).searchParams.get("recordId"));
+    if (!Number.isInteger(recordId) || recordId <= 0) {
+      return NextResponse.json({ error: "参数无效" }, { status: 400 });
+    }
+
+    const record = await coupletDb.getCoupletRecord(recordId);
+    if (!record || record.openid !== auth.openid) {
+      return NextResponse.json({ error: "对联不存在" }, { status: 404 });
+    }
+
+    return NextResponse.json(toHintPayload(record));
+  } catch (error) {
+    console.error("获取提示失败:", error);
+    return NextResponse.json({ error: "获取提示失败，请重试" }, { status: 500 });
+  }
+}
+
+/**
+ * 使用下一级提示（消耗积分）
+ * POST /api/couplet/hint
+ * { "recordId": 1 }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const isDevelopment = process.env.NODE_ENV === "development";
+    if (!isDevelopment) {
+      const userAgent = req.headers.get("user-agent") || "";
+      if (!userAgent.includes("MicroMessenger")) {
+        return NextResponse.json(
+          { error: "此应用仅支持微信小程序访问，请在微信中打开" },
+          { status: 403 }
+        );
+      }
+    }
+
+    const auth = resolveCoupletAuth(req);
+    if (!auth) {
+      return NextResponse.json({ error: "用户未登录" }, { status: 401 });
+    }
+
+    const { recordId } = await req.json();
+    if (typeof recordId !== "number") {
+      return NextResponse.json({ error: "参数无效" }, { status: 400 });
+    }
+
+    // 只能为自己尚未点评的经典模式对联使用提示
+    const record = await coupletDb.getCoupletRecord(recordId);
+    if (!record || record.openid !== auth.openid) {
+      return NextResponse.json({ error: "对联不存在" }, { status: 404 });
+    }
+    if (record.mode === "reverse") {
+      return NextResponse.json({ error: "反向模式不提供提示" }, { status: 400 });
+    }
+    if (record.score !== null) {
+      return NextResponse.json({ error: "已完成点评，不能再使用提示" }, { status: 400 });
+    }
+
+    const result = await revealNextHint(auth.openid, record);
+    switch (result.status) {
+      case "exhausted":
+        return NextResponse.json({ error: "提示已全部使用" }, { status: 409 });
+      case "unavailable":
+        return NextResponse.json({ error: "暂时无法生成提示，请重试" }, { status: 500 });
+      case "insufficient":
+        return NextResponse.json(
+          { error: "积分不足", cost: result.cost, balance: result.balance },
+          { status: 400 }
+        );
+    }
+
+    const updated = (await coupletDb.getCoupletRecord(recordId)) ?? record;
+    return NextResponse.json({
+      ...toHintPayload(updated),
+      pointsSpent: result.status === "revealed" ? result.cost : 0,
+      balance: result.balance,
+    });
+  } catch (error) {
+    console.error("使用提示失败:", error);
+
+    let errorMessage = "使用提示失败，请重试";
+    if (axios.isAxiosError(error)) {
+      if (error.response?.status === 429) {
+        errorMessage = "请求太频繁，请稍后再试";
+      } else if (
+        error.response?.status === 401 ||
+        error.response?.status === 403
+      ) {
+        errorMessage = "服务暂时不可用";
+      }
+    } else if (error instanceof Error && error.message.includes("429")) {
+      errorMessage = "请求太频繁，请稍后再试";
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
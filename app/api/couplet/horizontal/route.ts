@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import axios from "axios";
+import { validateHorizontalScroll } from "@/lib/couplet-validation";
+import { resolveCoupletAuth } from "@/lib/couplet-api-auth";
+import { generateHorizontalScroll, reviewHorizontalScroll } from "@/lib/couplet-horizontal";
+import { coupletDb } from "@/lib/db";
+
+/**
+ * 为已点评的对联配横批
+ * POST /api/couplet/horizontal
+ * { "recordId": 1 }                              由 AI 按上下联生成
+ * { "recordId": 1, "horizontalScroll": "春满人间" } 用户自写，AI 点评后保存
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const isDevelopment = process.env.NODE_ENV === "development";
+    if (!isDevelopment) {
+      const userAgent = req.headers.get("user-agent") || "";
+      if (!userAgent.includes("MicroMessenger")) {
+        return NextResponse.json(
+          { error: "此应用仅支持微信小程序访问，请在微信中打开" },
+          { status: 403 }
+        );
+      }
+    }
+
+    const auth = resolveCoupletAuth(req);
+    if (!auth) {
+      return NextResponse.json({ error: "用户未登录" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { recordId } = body;
+    if (typeof recordId !== "number") {
+      return NextResponse.json({ error: "参数无效" }, { status: 400 });
+    }
+
+    // 只能为自己已完成点评且内容合规的对联配横批
+    const record = await coupletDb.getCoupletRecord(recordId);
+    if (!record || record.openid !== auth.openid) {
+      return NextResponse.json({ error: "对联不存在" }, { status: 404 });
+    }
+    if (record.score === null || !record.lower_line || !Number(record.can_share)) {
+      return NextResponse.json({ error: "请先完成下联点评" }, { status: 400 });
+    }
+
+    const upperLine = String(record.upper_line);
+    const lowerLine = String(record.lower_line);
+    const context = { theme: record.theme ? String(record.theme) : undefined, openid: auth.openid };
+
+    if (body.horizontalScroll === undefined) {
+      const horizontalScroll = await generateHorizontalScroll(upperLine, lowerLine, context);
+      if (!horizontalScroll) {
+        return NextResponse.json({ error: "生成横批失败，请重试" }, { status: 500 });
+      }
+      await coupletDb.updateHorizontalScroll(recordId, { horizontalScroll, source: "ai", score: null, summary: null });
+
+      return NextResponse.json({ upperLine, lowerLine, horizontalScroll, source: "ai", review: null });
+    }
+
+    const validation = validateHorizontalScroll(body.horizontalScroll);
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const horizontalScroll = validation.horizontalScroll!;
+
+    const review = await reviewHorizontalScroll(upperLine, lowerLine, horizontalScroll, context);
+    if (!review.canShare) {
+      return NextResponse.json({ error: "横批内容不符合分享要求，请修改后重试", review }, { status: 400 });
+    }
+    await coupletDb.updateHorizontalScroll(recordId, {
+      horizontalScroll,
+      source: "user",
+      score: review.score,
+      summary: review.summary,
+    });
+
+    return NextResponse.json({ upperLine, lowerLine, horizontalScroll, source: "user", review });
+  } catch (error) {
+    console.error("配横批失败:", error);
+
+    let errorMessage = "配横批失败，请重试";
+    if (axios.isAxiosError(error)) {
+      if (error.response?.status === 429) {
+        errorMessage = "请求太频繁，请稍后再试";
+      } else if (
+        error.response?.status === 401 ||
+        error.response?.status === 403
+      ) {
+        errorMessage = "服务暂时不可用";
+      }
+    } else if (error instanceof Error && error.message.includes("429")) {
+      errorMessage = "请求太频繁，请稍后再试";
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
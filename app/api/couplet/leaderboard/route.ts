@@ -1,5 +1,43 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/lib/db";
+import type { Row } from "@libsql/client/http";
+import { db, dailyChallengeDb, leaderboardDb } from "@/lib/db";
+import { DAILY_CHALLENGE_CONFIG, calculateDailyStreak, getChinaDateString } from "@/lib/daily-challenge";
+import { COUPLET_THEMES, CoupletTheme } from "@/lib/couplet-validation";
+import {
+  LEADERBOARD_CONFIG,
+  LeaderboardFilter,
+  getLeaderboardScope,
+  isLeaderboardWindow,
+  resolveLeaderboardPeriod,
+} from "@/lib/leaderboard";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// 每日挑战排名分：评分 + 限时模式加分
+const DAILY_RANK_SCORE = "(udr.score + CASE WHEN udr.is_limit_mode = 1 THEN ? ELSE 0 END)";
+
+const DIFFICULTIES = ["simple", "medium", "hard"] as const;
+
+// 周榜 / 主题榜快照行转换为接口返回的榜单条目
+function toRankingItem(row: Row, rank: number) {
+  return {
+    rank,
+    recordId: row.record_id,
+    openid: row.openid,
+    nickname: row.nickname || "匿名用户",
+    avatar: row.avatar_url,
+    upperLine: row.upper_line,
+    lowerLine: row.lower_line,
+    horizontalScroll: row.horizontal_scroll ?? null,
+    score: row.score,
+    weightedScore: Number(row.weighted_score),
+    hintsUsed: Number(row.hints_used) || 0,
+    theme: row.theme,
+    difficulty: row.difficulty,
+    summary: row.review_summary,
+    sharedAt: row.shared_at,
+  };
+}
 
 export async function GET(req: NextRequest) {
   try {
@@ -20,75 +58,149 @@ export async function GET(req: NextRequest) {
     const openid = searchParams.get("openid");
 
     if (type === "weekly") {
-      // 获取本周排行榜（≥3星且已分享）
+      // 周榜 / 月榜 / 总榜：读取快照，每位用户只占一个名次（≥3星且已分享的最佳对联）
+      const timeWindow = searchParams.get("window") || "this_week";
+      if (!isLeaderboardWindow(timeWindow)) {
+        return NextResponse.json({ error: "时间窗口参数无效" }, { status: 400 });
+      }
+      const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10) || 1);
+      const pageSize = Math.min(
+        Math.max(1, parseInt(searchParams.get("pageSize") || searchParams.get("limit") || "", 10) || LEADERBOARD_CONFIG.defaultPageSize),
+        LEADERBOARD_CONFIG.maxPageSize
+      );
+      const offset = (page - 1) * pageSize;
+
+      // 主题、难度筛选：每个筛选组合是独立的榜单，排名仍按难度加权分
+      const theme = searchParams.get("theme") || undefined;
+      if (theme && !COUPLET_THEMES.includes(theme as CoupletTheme)) {
+        return NextResponse.json({ error: "主题参数无效" }, { status: 400 });
+      }
+      const difficulty = searchParams.get("difficulty") || undefined;
+      if (difficulty && !DIFFICULTIES.includes(difficulty as typeof DIFFICULTIES[number])) {
+        return NextResponse.json({ error: "难度参数无效" }, { status: 400 });
+      }
+
+      const { period, key } = resolveLeaderboardPeriod(timeWindow);
+      const scope = getLeaderboardScope({ theme, difficulty: difficulty as LeaderboardFilter["difficulty"] });
+
+      const [rows, total, userEntry] = await Promise.all([
+        leaderboardDb.getEntries(period, key, scope, pageSize, offset),
+        leaderboardDb.countEntries(period, key, scope),
+        openid ? leaderboardDb.getUserRank(period, key, scope, openid) : Promise.resolve(null),
+      ]);
+
+      const rankings = rows.map((row, index) => toRankingItem(row, offset + index + 1));
+
+      return NextResponse.json({
+        type: "weekly",
+        window: timeWindow,
+        period: key,
+        theme: theme ?? null,
+        difficulty: difficulty ?? null,
+        rankings,
+        userRank: userEntry?.rank ?? null,
+        total,
+        pagination: {
+          page,
+          pageSize,
+          total,
+          totalPages: Math.ceil(total / pageSize),
+        },
+      });
+    } else if (type === "theme_top") {
+      // 主题页：各主题在时间窗口内的最佳对联（各主题榜单的第一名）
+      const timeWindow = searchParams.get("window") || "this_week";
+      if (!isLeaderboardWindow(timeWindow)) {
+        return NextResponse.json({ error: "时间窗口参数无效" }, { status: 400 });
+      }
+      const { period, key } = resolveLeaderboardPeriod(timeWindow);
+      const leaders = await leaderboardDb.getThemeLeaders(period, key);
+
+      return NextResponse.json({
+        type: "theme_top",
+        window: timeWindow,
+        period: key,
+        themes: COUPLET_THEMES.map((theme) => {
+          const row = leaders.find((leader) => leader.theme === theme);
+          return { theme, top: row ? toRankingItem(row, 1) : null };
+        }),
+      });
+    } else if (type === "daily") {
+      // 获取某天（默认北京时间今天）的每日挑战排名：排名分降序、用时升序，仍相同时先提交者优先
+      const date = searchParams.get("date") || getChinaDateString();
+      if (!DATE_PATTERN.test(date)) {
+        return NextResponse.json({ error: "日期参数无效" }, { status: 400 });
+      }
+      const bonus = DAILY_CHALLENGE_CONFIG.rankingLimitBonus;
+      // 当天挑战仍可作答，隐藏下联以免被照抄（接口无需登录，openid 参数不能证明身份，本人的下联同样隐藏）
+      const revealAnswers = date < getChinaDateString();
+
       const result = await db.execute({
-        sql: `SELECT 
-              cr.id,
-              cr.openid,
-              cr.upper_line,
-              cr.lower_line,
-              cr.theme,
-              cr.difficulty,
-              cr.score,
-              cr.review_summary,
-              cr.shared_at,
+        sql: `SELECT
+              udr.openid,
+              udr.lower_line,
+              udr.score,
+              udr.time_spent,
+              udr.is_limit_mode,
+              udr.updated_at,
+              ${DAILY_RANK_SCORE} AS rank_score,
+              dc.upper_line,
               u.nickname,
               u.avatar_url
-            FROM couplet_records cr
-            LEFT JOIN users u ON cr.openid = u.openid
-            WHERE cr.score >= 3 AND cr.is_shared = 1
-            ORDER BY cr.score DESC, cr.shared_at DESC
+            FROM user_daily_records udr
+            JOIN daily_challenges dc ON dc.challenge_date = udr.challenge_date
+            LEFT JOIN users u ON udr.openid = u.openid
+            WHERE udr.challenge_date = ? AND udr.score IS NOT NULL
+            ORDER BY rank_score DESC, udr.time_spent ASC, udr.updated_at ASC
             LIMIT ?`,
-        args: [limit],
+        args: [bonus, date, limit],
       });
 
-      const rankings = (result.rows as any[]).map((row, index) => ({
+      const rankings = result.rows.map((row, index) => ({
         rank: index + 1,
-        recordId: row.id,
         openid: row.openid,
         nickname: row.nickname || "匿名用户",
         avatar: row.avatar_url,
         upperLine: row.upper_line,
-        lowerLine: row.lower_line,
+        lowerLine: revealAnswers ? row.lower_line : null,
         score: row.score,
-        theme: row.theme,
-        difficulty: row.difficulty,
-        summary: row.review_summary,
-        sharedAt: row.shared_at,
+        rankScore: Number(row.rank_score),
+        timeSpent: row.time_spent,
+        isLimitMode: Boolean(row.is_limit_mode),
       }));
 
-      // 如果提供了 openid，找出用户的排名
+      // 如果提供了 openid，找出用户当天的排名和连续挑战天数
       let userRank = null;
+      let streak = null;
       if (openid) {
-        const userRankResult = await db.execute({
-          sql: `SELECT COUNT(*) as rank_position
-                FROM couplet_records
-                WHERE score >= 3 AND is_shared = 1
-                AND (score > (
-                  SELECT score FROM couplet_records 
-                  WHERE openid = ? 
-                  ORDER BY score DESC LIMIT 1
-                ) OR (
-                  score = (
-                    SELECT score FROM couplet_records 
-                    WHERE openid = ? 
-                    ORDER BY score DESC LIMIT 1
-                  ) AND shared_at < (
-                    SELECT shared_at FROM couplet_records 
-                    WHERE openid = ? 
-                    ORDER BY score DESC LIMIT 1
-                  )
-                ))`,
-          args: [openid, openid, openid],
-        });
-        const rankPos = Number(userRankResult.rows[0].rank_position) || 0;
-        userRank = rankPos + 1;
+        const userRecord = await dailyChallengeDb.getUserDailyRecord(openid, date);
+        if (userRecord && userRecord.score !== null) {
+          const userRankScore = Number(userRecord.score) + (Number(userRecord.is_limit_mode) === 1 ? bonus : 0);
+          const userRankResult = await db.execute({
+            sql: `SELECT COUNT(*) AS rank_position
+                  FROM user_daily_records udr
+                  WHERE udr.challenge_date = ? AND udr.score IS NOT NULL
+                  AND (${DAILY_RANK_SCORE} > ?
+                    OR (${DAILY_RANK_SCORE} = ? AND udr.time_spent < ?)
+                    OR (${DAILY_RANK_SCORE} = ? AND udr.time_spent = ? AND udr.updated_at < ?))`,
+            args: [
+              date,
+              bonus, userRankScore,
+              bonus, userRankScore, userRecord.time_spent,
+              bonus, userRankScore, userRecord.time_spent, userRecord.updated_at,
+            ],
+          });
+          userRank = (Number(userRankResult.rows[0].rank_position) || 0) + 1;
+        }
+        streak = calculateDailyStreak(await dailyChallengeDb.getUserChallengeDates(openid));
       }
 
       return NextResponse.json({
-        type: "weekly",
+        type: "daily",
+        date,
         rankings,
         userRank,
+        streak,
         total: rankings.length,
       });
     } else if (type === "personal" && openid) {
@@ -122,6 +234,9 @@ export async function GET(req: NextRequest) {
           recordId: row.id,
           upperLine: row.upper_line,
           lowerLine: row.lower_line,
+          horizontalScroll: row.horizontal_scroll ?? null,
+          mode: row.mode ?? "classic",
+          lowerCandidates: row.lower_candidates ? JSON.parse(String(row.lower_candidates)) : null,
           theme: row.theme,
           difficulty: row.difficulty,
           score: row.score,
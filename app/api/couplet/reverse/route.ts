@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import axios from "axios";
+import { validateCoupletReverseRequest } from "@/lib/couplet-validation";
+import { resolveCoupletAuth } from "@/lib/couplet-api-auth";
+import { moderateText } from "@/lib/content-moderation";
+import { generateLowerLineCandidates, resolveCandidateCount } from "@/lib/couplet-reverse";
+import { getChinaDateString } from "@/lib/daily-challenge";
+import { getUserEntitlements } from "@/lib/redemption";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { coupletDb } from "@/lib/db";
+
+/**
+ * 反向模式：用户出上联，AI 对出多条候选下联
+ * POST /api/couplet/reverse
+ * { "upperLine": "春风送暖千家乐", "theme": "春节", "count": 3 }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const isDevelopment = process.env.NODE_ENV === "development";
+    if (!isDevelopment) {
+      const userAgent = req.headers.get("user-agent") || "";
+      if (!userAgent.includes("MicroMessenger")) {
+        return NextResponse.json(
+          { error: "此应用仅支持微信小程序访问，请在微信中打开" },
+          { status: 403 }
+        );
+      }
+    }
+
+    const auth = resolveCoupletAuth(req);
+    if (!auth) {
+      return NextResponse.json({ error: "用户未登录" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const validation = validateCoupletReverseRequest(body);
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const upperLine = validation.upperLine!;
+    const theme = validation.theme!;
+
+    // 用户出的上联同样要过内容审核
+    if (!moderateText(upperLine, theme).passed) {
+      return NextResponse.json({ error: "上联内容不符合要求，请修改后重试" }, { status: 400 });
+    }
+
+    // 每日挑战、对决和待作答对联的上联不能拿来让 AI 代对，否则可借反向模式获取答案
+    if (await coupletDb.isUpperLineInPlay(upperLine, getChinaDateString())) {
+      return NextResponse.json({ error: "该上联正在挑战中，请换一副上联" }, { status: 400 });
+    }
+
+    // 反向模式同样调用 AI，与祝福语生成共用每日次数上限（叠加兑换的加油包；开发环境跳过）
+    if (!isDevelopment) {
+      const entitlements = await getUserEntitlements(auth.openid);
+      const rateLimit = await checkRateLimit(auth.openid, { extraDaily: entitlements.extraDailyGenerations });
+      if (!rateLimit.success) {
+        return NextResponse.json(
+          { error: rateLimit.error, limit: rateLimit.limit, remaining: rateLimit.remaining, resetTime: rateLimit.resetTime },
+          { status: 429 }
+        );
+      }
+    }
+
+    const candidates = await generateLowerLineCandidates(
+      upperLine,
+      { theme, openid: auth.openid },
+      resolveCandidateCount(body.count)
+    );
+    if (candidates.length === 0) {
+      return NextResponse.json({ error: "生成下联失败，请重试" }, { status: 500 });
+    }
+
+    // 保存本次对句：下联记为格律评分最高的候选，全部候选另存
+    const record = await coupletDb.createCoupletRecord({
+      openid: auth.openid,
+      upperLine,
+      lowerLine: candidates[0].lowerLine,
+      theme,
+      difficulty: validation.difficulty,
+      mode: "reverse",
+      lowerCandidates: candidates.map((candidate) => candidate.lowerLine),
+    });
+
+    return NextResponse.json({
+      recordId: record.id,
+      mode: "reverse",
+      upperLine,
+      theme,
+      difficulty: validation.difficulty,
+      candidates,
+    });
+  } catch (error) {
+    console.error("生成下联失败:", error);
+
+    let errorMessage = "生成失败，请重试";
+    if (axios.isAxiosError(error)) {
+      if (error.response?.status === 429) {
+        errorMessage = "请求太频繁，请稍后再试";
+      } else if (
+        error.response?.status === 401 ||
+        error.response?.status === 403
+      ) {
+        errorMessage = "服务暂时不可用";
+      }
+    } else if (error instanceof Error && error.message.includes("429")) {
+      errorMessage = "请求太频繁，请稍后再试";
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -1,14 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import axios from "axios";
-import { generateBlessing } from "@/lib/ai-service";
-import { createCoupletReviewPrompt } from "@/lib/prompt-templates";
-import {
-  COUPLET_REVIEW_FALLBACK,
-  parseCoupletReviewJson,
-  validateCoupletReviewRequest,
-} from "@/lib/couplet-validation";
+import { COUPLET_REVIEW_FALLBACK, normalizeCoupletLine, validateCoupletReviewRequest } from "@/lib/couplet-validation";
 import { resolveCoupletAuth } from "@/lib/couplet-api-auth";
-import { coupletDb, userStatsDb } from "@/lib/db";
+import { reviewCouplet } from "@/lib/couplet-review";
+import { evaluateAchievements } from "@/lib/achievements";
+import { refreshLeaderboardEntries } from "@/lib/leaderboard";
+import { applyHintDiscount } from "@/lib/couplet-hints";
+import { ATTEMPT_CONFIG, summarizeAnalysis } from "@/lib/couplet-attempts";
+import { attemptDb, coupletDb, userStatsDb } from "@/lib/db";
 
 export async function POST(req: NextRequest) {
   try {
@@ -34,22 +33,37 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: validation.error }, { status: 400 });
     }
 
-    // 如果有 recordId，从数据库获取难度信息
+    // 如果有 recordId，从数据库获取难度和主题信息
     let difficulty: 'simple' | 'medium' | 'hard' | undefined = 'medium';
-    if (validation.recordId) {
-      const record = await coupletDb.getCoupletRecord(validation.recordId);
-      if (record && record.difficulty) {
-        difficulty = record.difficulty as 'simple' | 'medium' | 'hard';
-      }
+    const record = validation.recordId ? await coupletDb.getCoupletRecord(validation.recordId) : null;
+    if (validation.recordId && (!record || record.openid !== auth.openid)) {
+      return NextResponse.json({ error: "对联不存在" }, { status: 404 });
+    }
+    // 反向模式的下联由 AI 对出，不参与点评和排行
+    if (record?.mode === "reverse") {
+      return NextResponse.json({ error: "反向模式的对联不支持点评" }, { status: 400 });
+    }
+    // 有对联记录时以记录中的上联为准，防止拿自选的上联换取该记录的评分
+    const upperLine = record ? normalizeCoupletLine(String(record.upper_line)) : validation.upperLine!;
+    if (upperLine !== validation.upperLine) {
+      return NextResponse.json({ error: "上联与对联记录不一致" }, { status: 400 });
+    }
+    if (record && record.difficulty) {
+      difficulty = record.difficulty as 'simple' | 'medium' | 'hard';
+    }
+    // 每副对联的提交次数有上限，达到上限后不再调用 AI 点评
+    if (record && (await attemptDb.countAttempts(Number(record.id))) >= ATTEMPT_CONFIG.maxAttempts) {
+      return NextResponse.json(
+        { error: `每副对联最多提交 ${ATTEMPT_CONFIG.maxAttempts} 次` },
+        { status: 409 }
+      );
     }
 
-    const prompt = createCoupletReviewPrompt(
-      validation.upperLine!,
-      validation.lowerLine!,
-      difficulty
-    );
-    const raw = await generateBlessing(prompt);
-    const review = parseCoupletReviewJson(raw);
+    const { review, analysis } = await reviewCouplet(upperLine, validation.lowerLine!, {
+      difficulty,
+      theme: record?.theme ? String(record.theme) : undefined,
+      openid: auth.openid,
+    });
 
     if (!review.canShare) {
       return NextResponse.json(
@@ -61,21 +75,63 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // 更新对联记录：保存下联、评分、总结等信息
+    // 使用过提示的答案按级别打折，排行榜同样使用打折后的分数
+    const hintsUsed = Number(record?.hints_used) || 0;
+
+    // 保存本次尝试；评分超过此前最佳时写回对联记录（下联、评分、总结）
+    let attempt = null;
     if (validation.recordId) {
-      await coupletDb.updateCoupletScore(
+      const saved = await attemptDb.addAttempt({
+        recordId: validation.recordId,
+        openid: auth.openid,
+        lowerLine: validation.lowerLine!,
+        score: review.score,
+        reviewJson: JSON.stringify(review),
+        analysisJson: JSON.stringify(summarizeAnalysis(analysis)),
+        hintsUsed,
+        maxAttempts: ATTEMPT_CONFIG.maxAttempts,
+      });
+      if (!saved) {
+        return NextResponse.json(
+          { error: `每副对联最多提交 ${ATTEMPT_CONFIG.maxAttempts} 次` },
+          { status: 409 }
+        );
+      }
+
+      const promoted = await coupletDb.updateCoupletScore(
         validation.recordId,
         validation.lowerLine!,
         review.score,
         review.summary,
         review.canShare
       );
+      // 已分享的对联换成更优的下联后，评分变化会影响其所在周期的排行榜
+      if (promoted) {
+        await refreshLeaderboardEntries(auth.openid, promoted);
+      }
+
+      attempt = {
+        attemptNo: Number(saved.attempt_no),
+        remaining: Math.max(0, ATTEMPT_CONFIG.maxAttempts - Number(saved.attempt_no)),
+        promoted: Boolean(promoted),
+        bestScore: promoted ? review.score : Number(record?.score),
+      };
     }
 
     // 初始化用户统计（如果不存在）
     await userStatsDb.initUserStats(auth.openid);
 
-    return NextResponse.json({ review });
+    // 保存了评分才可能达成新成就
+    const newBadges = validation.recordId ? await evaluateAchievements(auth.openid) : [];
+
+    return NextResponse.json({
+      review,
+      analysis,
+      hintsUsed,
+      adjustedScore: applyHintDiscount(review.score, hintsUsed),
+      attempt,
+      newBadges,
+    });
   } catch (error) {
     console.error("评下联失败:", error);
 
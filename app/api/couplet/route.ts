@@ -2,11 +2,13 @@ import { NextRequest, NextResponse } from "next/server";
 import axios from "axios";
 import { generateBlessing } from "@/lib/ai-service";
 import { createCoupletUpperPrompt } from "@/lib/prompt-templates";
+import { resolvePromptVersion } from "@/lib/prompt-registry";
 import {
   normalizeUpperLineFromAI,
   validateCoupletUpperRequest,
 } from "@/lib/couplet-validation";
 import { resolveCoupletAuth } from "@/lib/couplet-api-auth";
+import { generateWithModeration } from "@/lib/content-moderation";
 import { coupletDb, userStatsDb } from "@/lib/db";
 
 export async function POST(req: NextRequest) {
@@ -33,11 +35,19 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: validation.error }, { status: 400 });
     }
 
-    const prompt = createCoupletUpperPrompt(validation.theme!, validation.difficulty);
-    const raw = await generateBlessing(prompt);
-    const upperLine = normalizeUpperLineFromAI(raw);
+    const prompt = createCoupletUpperPrompt(
+      validation.theme!,
+      validation.difficulty,
+      resolvePromptVersion("couplet_upper", auth.openid)
+    );
+    // 生成并审核上联，未通过时重试一次
+    const { result: upperLine, passed } = await generateWithModeration(
+      prompt,
+      { feature: "couplet_upper", occasion: validation.theme, openid: auth.openid },
+      async (attemptPrompt) => normalizeUpperLineFromAI(await generateBlessing(attemptPrompt, "couplet_upper"))
+    );
 
-    if (!upperLine || [...upperLine].length < 4) {
+    if (!passed || !upperLine || Array.from(upperLine).length < 4) {
       return NextResponse.json(
         { error: "生成上联失败，请重试" },
         { status: 500 }
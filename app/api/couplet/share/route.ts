@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { resolveCoupletAuth } from "@/lib/couplet-api-auth";
 import { coupletDb, userStatsDb } from "@/lib/db";
+import { evaluateAchievements } from "@/lib/achievements";
+import { refreshLeaderboardEntries } from "@/lib/leaderboard";
+import { POINTS_CONFIG, awardPoints } from "@/lib/points";
 
 export async function POST(req: NextRequest) {
   try {
@@ -23,34 +26,59 @@ export async function POST(req: NextRequest) {
     const body = await req.json();
     const { recordId, shareType } = body;
 
-    if (!recordId || !['friend', 'timeline'].includes(shareType)) {
+    if (typeof recordId !== 'number' || !['friend', 'timeline'].includes(shareType)) {
       return NextResponse.json({ error: "参数无效" }, { status: 400 });
     }
 
+    // 只能分享自己已完成点评且内容合规的对联
+    const record = await coupletDb.getCoupletRecord(recordId);
+    if (!record || record.openid !== auth.openid) {
+      return NextResponse.json({ error: "对联不存在" }, { status: 404 });
+    }
+    if (record.score === null || !Number(record.can_share)) {
+      return NextResponse.json({ error: "请先完成点评再分享" }, { status: 400 });
+    }
+
     // 确保用户统计表存在
     await userStatsDb.initUserStats(auth.openid);
 
-    // 标记对联为已分享
-    await coupletDb.markAsShared(recordId);
+    const target = shareType === 'timeline' ? '朋友圈' : '朋友';
+    const result = await awardPoints({
+      openid: auth.openid,
+      points: POINTS_CONFIG.share[shareType as 'friend' | 'timeline'],
+      reason: `分享对联到${target}`,
+      source: 'share',
+      idempotencyKey: `share:${recordId}:${shareType}`,
+    });
 
-    // 根据分享类型计算积分
-    const points = shareType === 'timeline' ? 10 : 5;
+    // 标记对联为已分享，并累计分享次数：每次分享都计入（炸裂分享、分享达人等成就依据），只有积分按幂等键发放一次
+    const shared = await coupletDb.markAsShared(recordId);
+    await userStatsDb.incrementShares(auth.openid);
+    await refreshLeaderboardEntries(auth.openid, shared);
 
-    // 添加积分
-    await userStatsDb.addPoints(
-      auth.openid,
-      points,
-      `分享对联到${shareType === 'timeline' ? '朋友圈' : '朋友'}`
-    );
+    const newBadges = await evaluateAchievements(auth.openid);
 
-    // 获取更新后的用户统计
-    const stats = await userStatsDb.getUserStats(auth.openid);
+    let message = `+${result.awarded}积分`;
+    if (result.duplicate) {
+      message = `这副对联已分享到${target}，不再重复加分`;
+    } else if (result.awarded === 0) {
+      message = "今日分享积分已达上限";
+    }
 
     return NextResponse.json({
       success: true,
-      pointsAdded: points,
-      totalPoints: stats?.total_points || 0,
-      message: `+${points}积分`,
+      pointsAdded: result.awarded,
+      totalPoints: result.balance,
+      duplicate: result.duplicate,
+      capped: result.capped,
+      message,
+      newBadges,
+      // 分享卡片展示完整春联：上联、下联、横批
+      couplet: {
+        upperLine: record.upper_line,
+        lowerLine: record.lower_line,
+        horizontalScroll: record.horizontal_scroll ?? null,
+      },
     });
   } catch (error) {
     console.error("分享记录失败:", error);
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCronRequest } from "@/lib/admin-auth";
+import { DAILY_CHALLENGE_CONFIG, pregenerateDailyChallenges } from "@/lib/daily-challenge";
+
+/**
+ * 提前生成每日挑战（供定时任务调用）
+ * GET /api/cron/daily-challenge?days=7
+ * 请求头需携带 `Authorization: Bearer <CRON_SECRET>`；从北京时间今天起生成 days 天，已存在的日期跳过
+ */
+export async function GET(req: NextRequest) {
+  try {
+    if (!verifyCronRequest(req)) {
+      return NextResponse.json({ error: "无权访问" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const days = Number(searchParams.get("days")) || DAILY_CHALLENGE_CONFIG.pregenerateDays;
+
+    const results = await pregenerateDailyChallenges(days);
+    const failed = results.filter((item) => item.status === "failed").length;
+
+    if (failed > 0) {
+      console.warn(`每日挑战预生成有 ${failed} 天失败`);
+    }
+
+    return NextResponse.json({ results, failed });
+  } catch (error) {
+    console.error("预生成每日挑战失败:", error);
+    return NextResponse.json({ error: "预生成每日挑战失败" }, { status: 500 });
+  }
+}
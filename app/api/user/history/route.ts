@@ -163,6 +163,82 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
   }
 }
 
+/**
+ * 记录用户复制了多候选中的哪一条
+ * PATCH /api/user/history  { historyId, copiedIndex }
+ */
+export async function PATCH(request: NextRequest): Promise<NextResponse> {
+  try {
+    // 从 Cookie 获取 token
+    const token = request.cookies.get('auth_token')?.value || request.headers.get('authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: '用户未登录' },
+        { status: 401 }
+      );
+    }
+
+    // 验证 token
+    const decoded = verifyToken(token);
+
+    if (!decoded) {
+      return NextResponse.json(
+        { error: '登录已过期' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { historyId, copiedIndex } = body;
+
+    if (!historyId || !Number.isInteger(copiedIndex)) {
+      return NextResponse.json(
+        { error: '参数无效' },
+        { status: 400 }
+      );
+    }
+
+    // 获取用户信息
+    const userResult = await db.execute({
+      sql: 'SELECT id FROM users WHERE openid = ? LIMIT 1',
+      args: [decoded.openid],
+    });
+    const user = userResult.rows[0];
+
+    if (!user) {
+      return NextResponse.json(
+        { error: '用户不存在' },
+        { status: 404 }
+      );
+    }
+
+    const historyItem = await historyDb.recordCopy(String(historyId), String(user.id), copiedIndex);
+
+    if (!historyItem) {
+      return NextResponse.json(
+        { error: '历史记录不存在' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      historyItem: {
+        id: historyItem.id,
+        blessing: historyItem.blessing,
+        copiedIndex: historyItem.copied_index,
+      },
+    });
+  } catch (error) {
+    console.error('记录复制失败:', error);
+    return NextResponse.json(
+      { error: '记录复制失败' },
+      { status: 500 }
+    );
+  }
+}
+
 /**
  * 删除历史记录
  * DELETE /api/user/history?id=xxx
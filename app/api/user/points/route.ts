@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveCoupletAuth } from "@/lib/couplet-api-auth";
+import { pointsDb } from "@/lib/db";
+import { POINTS_CONFIG, PointsSource, getChinaDayStart } from "@/lib/points";
+
+/**
+ * 获取积分余额与积分流水
+ * GET /api/user/points?page=1&pageSize=20
+ * 附带今日各来源已获得的积分及每日上限
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const isDevelopment = process.env.NODE_ENV === "development";
+    if (!isDevelopment) {
+      const userAgent = req.headers.get("user-agent") || "";
+      if (!userAgent.includes("MicroMessenger")) {
+        return NextResponse.json(
+          { error: "此应用仅支持微信小程序访问，请在微信中打开" },
+          { status: 403 }
+        );
+      }
+    }
+
+    const auth = resolveCoupletAuth(req);
+    if (!auth) {
+      return NextResponse.json({ error: "用户未登录" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10) || 1);
+    const pageSize = Math.min(Math.max(1, parseInt(searchParams.get("pageSize") || "20", 10) || 20), 50);
+
+    const dayStart = getChinaDayStart();
+    const sources = Object.keys(POINTS_CONFIG.dailyCaps) as PointsSource[];
+
+    const [balance, history, earnedToday] = await Promise.all([
+      pointsDb.getBalance(auth.openid),
+      pointsDb.getHistory(auth.openid, pageSize, (page - 1) * pageSize),
+      Promise.all(sources.map((source) => pointsDb.getEarnedSince(auth.openid, source, dayStart))),
+    ]);
+
+    return NextResponse.json({
+      balance,
+      today: sources.map((source, index) => ({
+        source,
+        earned: earnedToday[index],
+        cap: POINTS_CONFIG.dailyCaps[source],
+      })),
+      history: history.items.map((row) => ({
+        id: row.id,
+        points: row.points,
+        reason: row.reason,
+        source: row.source,
+        createdAt: row.created_at,
+      })),
+      pagination: {
+        page,
+        pageSize,
+        total: history.total,
+        totalPages: Math.ceil(history.total / pageSize),
+      },
+    });
+  } catch (error) {
+    console.error("获取积分失败:", error);
+    return NextResponse.json({ error: "获取积分失败，请重试" }, { status: 500 });
+  }
+}
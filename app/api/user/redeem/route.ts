@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveCoupletAuth } from "@/lib/couplet-api-auth";
+import { pointsDb } from "@/lib/db";
+import { getRedemptionCatalog, getUserEntitlements, redeemItem } from "@/lib/redemption";
+
+/**
+ * 获取兑换目录、积分余额和当前权益
+ * GET /api/user/redeem
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const isDevelopment = process.env.NODE_ENV === "development";
+    if (!isDevelopment) {
+      const userAgent = req.headers.get("user-agent") || "";
+      if (!userAgent.includes("MicroMessenger")) {
+        return NextResponse.json(
+          { error: "此应用仅支持微信小程序访问，请在微信中打开" },
+          { status: 403 }
+        );
+      }
+    }
+
+    const auth = resolveCoupletAuth(req);
+    if (!auth) {
+      return NextResponse.json({ error: "用户未登录" }, { status: 401 });
+    }
+
+    const [items, balance, entitlements] = await Promise.all([
+      getRedemptionCatalog(auth.openid),
+      pointsDb.getBalance(auth.openid),
+      getUserEntitlements(auth.openid),
+    ]);
+
+    return NextResponse.json({ balance, items, entitlements });
+  } catch (error) {
+    console.error("获取兑换目录失败:", error);
+    return NextResponse.json({ error: "获取兑换目录失败，请重试" }, { status: 500 });
+  }
+}
+
+/**
+ * 用积分兑换商品
+ * POST /api/user/redeem
+ * { "itemId": "style_acrostic", "requestId": "客户端生成的唯一 ID（重试时保持不变）" }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const isDevelopment = process.env.NODE_ENV === "development";
+    if (!isDevelopment) {
+      const userAgent = req.headers.get("user-agent") || "";
+      if (!userAgent.includes("MicroMessenger")) {
+        return NextResponse.json(
+          { error: "此应用仅支持微信小程序访问，请在微信中打开" },
+          { status: 403 }
+        );
+      }
+    }
+
+    const auth = resolveCoupletAuth(req);
+    if (!auth) {
+      return NextResponse.json({ error: "用户未登录" }, { status: 401 });
+    }
+
+    const { itemId, requestId } = await req.json();
+    if (!itemId || typeof itemId !== "string") {
+      return NextResponse.json({ error: "缺少商品 ID" }, { status: 400 });
+    }
+    if (requestId !== undefined && (typeof requestId !== "string" || requestId.length > 64)) {
+      return NextResponse.json({ error: "requestId 无效" }, { status: 400 });
+    }
+
+    const result = await redeemItem(auth.openid, itemId, requestId);
+    switch (result.status) {
+      case "not_found":
+        return NextResponse.json({ error: "商品不存在" }, { status: 404 });
+      case "owned":
+        return NextResponse.json({ error: "已拥有该商品" }, { status: 409 });
+      case "insufficient":
+        return NextResponse.json(
+          { error: "积分不足", cost: result.item?.cost, balance: result.balance },
+          { status: 400 }
+        );
+    }
+
+    return NextResponse.json({
+      success: true,
+      duplicate: result.status === "duplicate",
+      item: result.item,
+      balance: result.balance,
+      entitlements: await getUserEntitlements(auth.openid),
+    });
+  } catch (error) {
+    console.error("兑换失败:", error);
+    return NextResponse.json({ error: "兑换失败，请重试" }, { status: 500 });
+  }
+}
@@ -4,7 +4,8 @@
 import { useState } from 'react'
 // 业务配置数据（场景、人群、风格） - 这些导入在表单组件中使用
 // API 调用函数和类型定义
-import { generateBlessing, BlessingOptions } from '@/lib/api-client'
+import { generateBlessingStream, generateBlessingVariants, recordBlessingCopy, refineBlessing, BlessingOptions } from '@/lib/api-client'
+import type { RefinePresetKey } from '@/lib/config'
 // 子组件导入
 import BlessingForm from './BlessingForm'      // 表单组件
 import ResultDisplay from './ResultDisplay'    // 结果展示组件
@@ -33,6 +34,41 @@ export default function BlessingGenerator() {
   const [error, setError] = useState<string>('')             // 错误信息
   const [copySuccess, setCopySuccess] = useState(false)      // 复制成功状态
   const [copyFading, setCopyFading] = useState(false)        // 复制提示淡出动画状态
+  const [candidates, setCandidates] = useState<string[]>([])  // 重新生成时的多条候选
+  const [activeIndex, setActiveIndex] = useState(0)           // 当前展示的候选下标
+  const [historyId, setHistoryId] = useState<string | null>(null) // 当前结果对应的历史记录 ID
+
+  /**
+   * 以流式方式生成祝福语
+   * 收到的增量文本实时拼接显示，结束后以服务端最终文本为准
+   */
+  const streamBlessing = async () => {
+    let streamed = ''
+    let streamedHistoryId: string | null = null
+    let result: string
+    try {
+      result = await generateBlessingStream(
+        options,
+        (delta) => {
+          streamed += delta
+          setBlessing(streamed)
+        },
+        (id) => {
+          streamedHistoryId = id
+        }
+      )
+    } catch (err) {
+      // 增量文本在审核前推送，生成失败（含未通过审核）时清掉已显示的内容，避免被复制或修改
+      setBlessing('')
+      setCandidates([])
+      setHistoryId(null)
+      throw err
+    }
+    setBlessing(result)
+    setCandidates([])
+    setActiveIndex(0)
+    setHistoryId(streamedHistoryId)
+  }
 
   /**
    * 处理表单提交事件
@@ -45,9 +81,8 @@ export default function BlessingGenerator() {
     setError('')        // 清除之前的错误信息
     
     try {
-      // 调用 API 生成祝福语
-      const result = await generateBlessing(options)
-      setBlessing(result)
+      // 调用 API 流式生成祝福语
+      await streamBlessing()
     } catch (err) {
       // 处理错误情况
       setError(err instanceof Error ? err.message : '生成失败，请重试')
@@ -58,16 +93,19 @@ export default function BlessingGenerator() {
 
   /**
    * 处理重新生成操作
-   * 使用相同参数重新调用 API 生成祝福语
+   * 使用相同参数一次生成多条候选，用户可左右滑动挑选
    */
   const handleRegenerate = async () => {
     setLoading(true)    // 设置加载状态
     setError('')        // 清除错误信息
     
     try {
-      // 使用当前选项重新生成
-      const result = await generateBlessing(options)
-      setBlessing(result)
+      // 使用当前选项重新生成多条候选
+      const result = await generateBlessingVariants({ ...options, regenerate: true })
+      setCandidates(result.blessings)
+      setActiveIndex(0)
+      setHistoryId(result.historyId)
+      setBlessing(result.blessings[0])
     } catch (err) {
       setError(err instanceof Error ? err.message : '生成失败，请重试')
     } finally {
@@ -75,6 +113,45 @@ export default function BlessingGenerator() {
     }
   }
 
+  /**
+   * 处理快捷修改操作
+   * 在当前展示的祝福语基础上按选项修改，结果替换当前内容
+   * @param preset - 快捷修改选项
+   * @param name - 对方的名字（加名字选项使用）
+   */
+  const handleRefine = async (preset: RefinePresetKey, name?: string) => {
+    setLoading(true)
+    setError('')
+
+    try {
+      const result = await refineBlessing({
+        blessing,
+        historyId: candidates.length > 0 ? null : historyId,
+        preset,
+        name,
+        context: options,
+      })
+      setBlessing(result.blessing)
+      setCandidates([])
+      setActiveIndex(0)
+      setHistoryId(result.historyId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '修改失败，请重试')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  /**
+   * 切换当前展示的候选
+   * @param index - 候选下标
+   */
+  const handleActiveIndexChange = (index: number) => {
+    if (!candidates[index]) return
+    setActiveIndex(index)
+    setBlessing(candidates[index])
+  }
+
   /**
    * 处理复制祝福语功能
    * 将生成的祝福语复制到系统剪贴板，并显示成功提示
@@ -85,6 +162,11 @@ export default function BlessingGenerator() {
       await navigator.clipboard.writeText(blessing)
       setCopySuccess(true)   // 显示复制成功提示
       setCopyFading(false)   // 重置淡出状态
+
+      // 记录复制的是哪一条候选（用于统计，不阻塞提示）
+      if (historyId) {
+        void recordBlessingCopy(historyId, activeIndex)
+      }
       
       // 2.5秒后开始淡出动画
       setTimeout(() => {
@@ -133,6 +215,10 @@ export default function BlessingGenerator() {
           copyFading={copyFading}
           onCopy={handleCopy}
           onRegenerate={handleRegenerate}
+          candidates={candidates}
+          activeIndex={activeIndex}
+          onActiveIndexChange={handleActiveIndexChange}
+          onRefine={handleRefine}
         />
       </div>
     </>
@@ -1,10 +1,15 @@
 "use client";
 
+import { useRef } from "react";
+
 interface BlessingResultProps {
   blessing: string;
   loading: boolean;
   onCopy: () => void;
   onRegenerate: () => void;
+  candidates?: string[];
+  activeIndex?: number;
+  onActiveIndexChange?: (index: number) => void;
 }
 
 export default function BlessingResult({
@@ -12,17 +17,82 @@ export default function BlessingResult({
   loading,
   onCopy,
   onRegenerate,
+  candidates = [],
+  activeIndex = 0,
+  onActiveIndexChange,
 }: BlessingResultProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const hasCandidates = candidates.length > 1;
+
+  // 滑动结束后根据滚动位置确定当前卡片
+  const handleScroll = () => {
+    const track = trackRef.current;
+    if (!track || !track.clientWidth) return;
+    const index = Math.round(track.scrollLeft / track.clientWidth);
+    if (index !== activeIndex) {
+      onActiveIndexChange?.(index);
+    }
+  };
+
+  // 点击圆点切换到对应卡片
+  const scrollToCandidate = (index: number) => {
+    const track = trackRef.current;
+    if (track) {
+      track.scrollTo({ left: index * track.clientWidth, behavior: "smooth" });
+    }
+    onActiveIndexChange?.(index);
+  };
+
   return (
     <div className="card-result">
       {/* 右下角装饰 */}
       <div className="decoration-br"></div>
 
-      <div className="flex-1 relative z-10 flex items-center justify-center">
-        <div className="text-xl leading-relaxed text-center font-medium text-amber-900 bg-gradient-to-r from-red-600 via-orange-500 to-yellow-600 bg-clip-text text-transparent drop-shadow-sm">
-          {blessing}
+      {hasCandidates ? (
+        <div className="flex-1 relative z-10 flex flex-col justify-center">
+          {/* 候选卡片：横向滑动，按卡片吸附 */}
+          <div
+            ref={trackRef}
+            onScroll={handleScroll}
+            className="flex overflow-x-auto snap-x snap-mandatory"
+            style={{ scrollbarWidth: "none" }}
+            aria-label="候选祝福语，左右滑动切换"
+          >
+            {candidates.map((candidate, index) => (
+              <div
+                key={index}
+                className="w-full flex-shrink-0 snap-center flex items-center justify-center px-2"
+                aria-hidden={index !== activeIndex}
+              >
+                <div className="text-xl leading-relaxed text-center font-medium text-amber-900 bg-gradient-to-r from-red-600 via-orange-500 to-yellow-600 bg-clip-text text-transparent drop-shadow-sm">
+                  {candidate}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2 justify-center mt-4" role="tablist">
+            {candidates.map((_, index) => (
+              <button
+                key={index}
+                onClick={() => scrollToCandidate(index)}
+                className={`h-2 rounded-full transition-all ${
+                  index === activeIndex ? "w-6 bg-red-500" : "w-2 bg-red-200"
+                }`}
+                role="tab"
+                aria-selected={index === activeIndex}
+                aria-label={`查看第 ${index + 1} 条候选`}
+              />
+            ))}
+          </div>
         </div>
-      </div>
+      ) : (
+        <div className="flex-1 relative z-10 flex items-center justify-center">
+          <div className="text-xl leading-relaxed text-center font-medium text-amber-900 bg-gradient-to-r from-red-600 via-orange-500 to-yellow-600 bg-clip-text text-transparent drop-shadow-sm">
+            {blessing}
+          </div>
+        </div>
+      )}
 
       <div className="flex gap-4 justify-center mt-6 flex-shrink-0">
         <button
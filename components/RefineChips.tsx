@@ -0,0 +1,70 @@
+"use client";
+
+import { useState } from "react";
+import { REFINE_PRESETS, RefinePreset, RefinePresetKey } from "@/lib/config";
+
+interface RefineChipsProps {
+  loading: boolean;
+  onRefine: (preset: RefinePresetKey, name?: string) => void;
+}
+
+const CHIP_CLASS =
+  "inline-flex items-center gap-1 px-3 py-1.5 bg-gradient-to-r from-purple-100 to-pink-100 border border-purple-200 rounded-full text-xs font-medium text-gray-700 transition-all duration-200 hover:from-purple-200 hover:to-pink-200 hover:border-purple-300 hover:shadow-md focus:outline-none focus:ring-2 focus:ring-purple-400/30 disabled:opacity-50 disabled:cursor-not-allowed";
+
+export default function RefineChips({ loading, onRefine }: RefineChipsProps) {
+  const [showNameInput, setShowNameInput] = useState(false);
+  const [name, setName] = useState("");
+
+  const handleClick = (preset: RefinePreset) => {
+    // 加名字需要先填写名字
+    if (preset.needsName) {
+      setShowNameInput(true);
+      return;
+    }
+    onRefine(preset.key);
+  };
+
+  const handleNameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onRefine("add_name", name.trim());
+    setShowNameInput(false);
+    setName("");
+  };
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="flex flex-wrap gap-2" role="group" aria-label="快捷修改">
+        {REFINE_PRESETS.map((preset) => (
+          <button
+            key={preset.key}
+            type="button"
+            onClick={() => handleClick(preset)}
+            disabled={loading}
+            className={CHIP_CLASS}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      {showNameInput && (
+        <form onSubmit={handleNameSubmit} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={20}
+            placeholder="对方的名字，如：小王"
+            aria-label="对方的名字"
+            className="flex-1 px-3 py-1.5 border border-purple-200 rounded-full text-sm focus:outline-none focus:ring-2 focus:ring-purple-400/30"
+            autoFocus
+          />
+          <button type="submit" disabled={loading || !name.trim()} className={CHIP_CLASS}>
+            确定
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import ErrorMessage from "./ErrorMessage";
 import EmptyState from "./EmptyState";
 import BlessingResult from "./BlessingResult";
+import RefineChips from "./RefineChips";
+import type { RefinePresetKey } from "@/lib/config";
 
 interface ResultDisplayProps {
   blessing: string;
@@ -12,6 +14,10 @@ interface ResultDisplayProps {
   copyFading: boolean;
   onCopy: () => void;
   onRegenerate: () => void;
+  candidates?: string[];
+  activeIndex?: number;
+  onActiveIndexChange?: (index: number) => void;
+  onRefine?: (preset: RefinePresetKey, name?: string) => void;
 }
 
 export default function ResultDisplay({
@@ -22,6 +28,10 @@ export default function ResultDisplay({
   copyFading,
   onCopy,
   onRegenerate,
+  candidates,
+  activeIndex,
+  onActiveIndexChange,
+  onRefine,
 }: ResultDisplayProps) {
   return (
     <div className="card-primary min-h-[380px] sm:h-[420px] md:h-[480px] lg:h-[520px] xl:h-[560px] flex flex-col transition-all duration-300 ease-in-out">
@@ -43,7 +53,11 @@ export default function ResultDisplay({
               loading={loading}
               onCopy={onCopy}
               onRegenerate={onRegenerate}
+              candidates={candidates}
+              activeIndex={activeIndex}
+              onActiveIndexChange={onActiveIndexChange}
             />
+            {onRefine && <RefineChips loading={loading} onRefine={onRefine} />}
           </div>
 
           {/* 复制成功提示区域 - 固定空间 */}
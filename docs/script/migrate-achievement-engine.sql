@@ -0,0 +1,9 @@
+-- Migration: Achievement evaluation
+-- Date: 2026-10-19
+-- Run: turso db shell <db-name> < docs/script/migrate-achievement-engine.sql
+
+-- 单个对联的分享次数（「炸裂分享」徽章按此计算）
+ALTER TABLE couplet_records ADD COLUMN share_count INTEGER DEFAULT 0;
+
+-- 已分享过的历史记录至少计为 1 次
+UPDATE couplet_records SET share_count = 1 WHERE is_shared = 1 AND share_count = 0;
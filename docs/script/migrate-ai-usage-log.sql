@@ -0,0 +1,20 @@
+-- Migration: Token usage and cost accounting for AI calls
+-- Date: 2026-10-19
+-- Run: turso db shell <db-name> < docs/script/migrate-ai-usage-log.sql
+
+-- 每次 AI 调用（含失败）一条记录
+CREATE TABLE IF NOT EXISTS ai_usage_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  feature TEXT NOT NULL,              -- 业务场景：blessing / couplet_upper / couplet_review / daily_challenge
+  provider TEXT NOT NULL,             -- 供应商名称
+  model TEXT NOT NULL,                -- 模型名称
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  cost REAL NOT NULL DEFAULT 0,       -- 按供应商单价估算的费用（元）
+  latency_ms INTEGER NOT NULL,        -- 调用耗时（毫秒）
+  success INTEGER NOT NULL DEFAULT 1, -- 是否调用成功
+  error TEXT,                         -- 失败时的错误信息
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_log_created ON ai_usage_log(created_at);
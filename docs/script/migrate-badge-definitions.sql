@@ -0,0 +1,29 @@
+-- Migration: Badge definitions table
+-- Date: 2026-10-19
+-- Run: turso db shell <db-name> < docs/script/migrate-badge-definitions.sql
+
+-- 徽章定义，requirement 为 JSON 条件，格式见 lib/config/badges.ts
+CREATE TABLE IF NOT EXISTS badge_definitions (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL,
+  icon TEXT NOT NULL,
+  requirement TEXT NOT NULL,   -- 如 {"type":"theme_count","value":5,"theme":"春节"}
+  active_from TEXT,            -- 限时徽章开始日期（北京时间 YYYY-MM-DD，含当天），为空表示不限
+  active_to TEXT,              -- 限时徽章结束日期（含当天），为空表示不限
+  retired_at TEXT,             -- 下线时间，下线后不再评估，已解锁的用户仍可查看
+  created_at TEXT NOT NULL
+);
+
+-- 初始徽章（与 lib/config/badges.ts 中的默认定义一致）
+INSERT OR IGNORE INTO badge_definitions (id, name, description, icon, requirement, created_at) VALUES
+  ('novice', '新手对联师', '完成首个3星评分的下联', '🌟', '{"type":"first_3_star","value":1}', '2026-10-19T00:00:00.000Z'),
+  ('enthusiast', '对联爱好者', '累计完成5个对联', '⭐', '{"type":"total_couplets","value":5}', '2026-10-19T00:00:00.000Z'),
+  ('master', '对联大师', '5个对联平均分≥4星', '⭐⭐', '{"type":"avg_score","value":4,"minCount":5}', '2026-10-19T00:00:00.000Z'),
+  ('sharing_expert', '分享达人', '分享10次对联', '🎁', '{"type":"total_shares","value":10}', '2026-10-19T00:00:00.000Z'),
+  ('spring_expert', '春节达人', '春节主题对联≥5个', '🧧', '{"type":"theme_count","value":5,"theme":"春节"}', '2026-10-19T00:00:00.000Z'),
+  ('lantern_expert', '元宵达人', '元宵主题对联≥5个', '🏮', '{"type":"theme_count","value":5,"theme":"元宵"}', '2026-10-19T00:00:00.000Z'),
+  ('viral', '炸裂分享', '某个对联被分享≥5次', '🚀', '{"type":"viral_share","value":5}', '2026-10-19T00:00:00.000Z'),
+  ('streak_3', '三日不辍', '连续3天完成每日挑战', '🔥', '{"type":"daily_streak","value":3}', '2026-10-19T00:00:00.000Z'),
+  ('streak_7', '七日连珠', '连续7天完成每日挑战', '📅', '{"type":"daily_streak","value":7}', '2026-10-19T00:00:00.000Z'),
+  ('streak_30', '月满华章', '连续30天完成每日挑战', '🏆', '{"type":"daily_streak","value":30}', '2026-10-19T00:00:00.000Z');
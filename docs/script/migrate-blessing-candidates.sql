@@ -0,0 +1,9 @@
+-- Migration: Multiple blessing candidates per request
+-- Date: 2026-10-19
+-- Run: turso db shell <db-name> < docs/script/migrate-blessing-candidates.sql
+
+-- 一次生成的全部候选（JSON 数组），单条生成时为空
+ALTER TABLE user_history ADD COLUMN candidates TEXT;
+
+-- 用户复制的候选下标，未复制时为空
+ALTER TABLE user_history ADD COLUMN copied_index INTEGER;
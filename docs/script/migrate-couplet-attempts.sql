@@ -0,0 +1,30 @@
+-- Migration: Couplet attempts (every submitted lower line with its review)
+-- Date: 2026-10-19
+-- Run: turso db shell <db-name> < docs/script/migrate-couplet-attempts.sql
+
+-- 每次提交的下联及点评，评分最高的一次写回 couplet_records
+CREATE TABLE IF NOT EXISTS couplet_attempts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  record_id INTEGER NOT NULL,
+  openid TEXT NOT NULL,
+  attempt_no INTEGER NOT NULL,   -- 从 1 开始的提交序号
+  lower_line TEXT NOT NULL,
+  score DECIMAL(3,2) NOT NULL,
+  review_json TEXT NOT NULL,     -- AI 点评（评分、总结、优点、建议）
+  analysis_json TEXT,            -- 本地格律分析摘要
+  hints_used INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  UNIQUE (record_id, attempt_no)
+);
+
+CREATE INDEX IF NOT EXISTS idx_couplet_attempts_openid ON couplet_attempts(openid, created_at);
+
+-- 回填历史数据：已点评的对联只保留了最终一次，作为第 1 次尝试
+INSERT OR IGNORE INTO couplet_attempts
+  (record_id, openid, attempt_no, lower_line, score, review_json, analysis_json, hints_used, created_at)
+SELECT id, openid, 1, lower_line, score,
+       json_object('score', score, 'summary', COALESCE(review_summary, ''), 'strengths', json('[]'),
+                   'suggestions', json('[]'), 'canShare', json(CASE WHEN can_share THEN 'true' ELSE 'false' END)),
+       NULL, COALESCE(hints_used, 0), COALESCE(updated_at, created_at)
+FROM couplet_records
+WHERE score IS NOT NULL AND lower_line IS NOT NULL;
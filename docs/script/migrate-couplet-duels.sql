@@ -0,0 +1,29 @@
+-- Migration: Couplet duels (challenge a friend with the same upper line)
+-- Date: 2026-10-19
+-- Run: turso db shell <db-name> < docs/script/migrate-couplet-duels.sql
+
+-- 对决：发起人用已点评的对联生成分享 token，好友对同一上联作答后判定胜负
+CREATE TABLE IF NOT EXISTS couplet_duels (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  token TEXT NOT NULL UNIQUE,            -- 分享链接中的对决标识
+  record_id INTEGER NOT NULL,            -- 发起人的对联记录
+  challenger_openid TEXT NOT NULL,
+  upper_line TEXT NOT NULL,
+  theme TEXT,
+  difficulty TEXT,
+  challenger_lower_line TEXT NOT NULL,   -- 发起时的下联与评分（按提示折扣后）
+  challenger_score DECIMAL(3,2) NOT NULL,
+  challenger_summary TEXT,
+  opponent_openid TEXT,                  -- 应战好友，作答后写入
+  opponent_lower_line TEXT,
+  opponent_score DECIMAL(3,2),
+  opponent_review_json TEXT,
+  winner TEXT,                           -- challenger / opponent / draw
+  status TEXT NOT NULL DEFAULT 'pending', -- pending / finished（过期按 expires_at 判断）
+  expires_at TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  finished_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_couplet_duels_challenger ON couplet_duels(challenger_openid, created_at);
+CREATE INDEX IF NOT EXISTS idx_couplet_duels_opponent ON couplet_duels(opponent_openid, finished_at);
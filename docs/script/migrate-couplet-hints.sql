@@ -0,0 +1,9 @@
+-- Migration: Couplet hints
+-- Date: 2026-10-19
+-- Run: turso db shell <db-name> < docs/script/migrate-couplet-hints.sql
+
+-- 已使用的提示级数（0-3），点评和排行榜按级数给评分打折
+ALTER TABLE couplet_records ADD COLUMN hints_used INTEGER NOT NULL DEFAULT 0;
+
+-- 2、3 级提示所用的参考下联，首次使用时由 AI 生成
+ALTER TABLE couplet_records ADD COLUMN hint_sample TEXT;
@@ -0,0 +1,9 @@
+-- Migration: Couplet reverse mode (user writes the upper line, AI answers)
+-- Date: 2026-10-19
+-- Run: turso db shell <db-name> < docs/script/migrate-couplet-mode.sql
+
+-- 对句模式：classic 为 AI 出上联、用户对下联；reverse 为用户出上联、AI 对下联
+ALTER TABLE couplet_records ADD COLUMN mode TEXT NOT NULL DEFAULT 'classic';
+
+-- 反向模式 AI 生成的全部候选下联（JSON 数组，按格律评分降序），经典模式为空
+ALTER TABLE couplet_records ADD COLUMN lower_candidates TEXT;
@@ -0,0 +1,10 @@
+-- Migration: Daily challenge answers
+-- Date: 2026-10-19
+-- Run: turso db shell <db-name> < docs/script/migrate-daily-challenge-answers.sql
+
+-- 服务端下发的开始时间，用时按提交时间与其差值计算，不信任客户端上报
+ALTER TABLE user_daily_records ADD COLUMN started_at TIMESTAMP;
+
+-- 用户提交的下联与点评总结
+ALTER TABLE user_daily_records ADD COLUMN lower_line VARCHAR(100);
+ALTER TABLE user_daily_records ADD COLUMN review_summary VARCHAR(100);
@@ -0,0 +1,9 @@
+-- Migration: Couplet horizontal scroll (横批)
+-- Date: 2026-10-19
+-- Run: turso db shell <db-name> < docs/script/migrate-horizontal-scroll.sql
+
+-- 横批：下联点评通过后由 AI 生成或用户自写，重新点评改动下联时清空
+ALTER TABLE couplet_records ADD COLUMN horizontal_scroll TEXT;      -- 4 字横批
+ALTER TABLE couplet_records ADD COLUMN horizontal_source TEXT;      -- ai / user
+ALTER TABLE couplet_records ADD COLUMN horizontal_score DECIMAL(3,2); -- 用户自写横批的点评分
+ALTER TABLE couplet_records ADD COLUMN horizontal_summary TEXT;     -- 用户自写横批的点评总结
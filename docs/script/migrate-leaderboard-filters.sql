@@ -0,0 +1,58 @@
+-- Migration: Theme / difficulty leaderboard scopes and difficulty-weighted scores
+-- Date: 2026-10-19
+-- Run: turso db shell <db-name> < docs/script/migrate-leaderboard-filters.sql
+-- 需在 migrate-leaderboard-snapshots.sql 之后执行。快照可由 couplet_records 完整重建，直接删表重建。
+
+DROP TABLE IF EXISTS leaderboard_entries;
+
+CREATE TABLE leaderboard_entries (
+  period TEXT NOT NULL,          -- week / month / all
+  period_key TEXT NOT NULL,      -- 周一日期（YYYY-MM-DD）/ 月份（YYYY-MM）/ all，均按北京时间
+  scope TEXT NOT NULL DEFAULT '',-- 筛选范围：'' / theme:春节 / difficulty:hard / theme:春节|difficulty:hard
+  openid TEXT NOT NULL,
+  record_id INTEGER NOT NULL,    -- 该用户在本周期、本范围的最佳对联
+  score DECIMAL(3,2) NOT NULL,
+  weighted_score DECIMAL(4,2) NOT NULL, -- 难度加权分，权重见 lib/leaderboard.ts 的 difficultyWeights
+  theme TEXT NOT NULL,
+  difficulty TEXT NOT NULL,
+  shared_at TEXT NOT NULL,       -- 对联首次分享时间
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (period, period_key, scope, openid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_entries_rank
+  ON leaderboard_entries(period, period_key, scope, weighted_score DESC, shared_at, openid);
+
+-- 回填：每个周期、每个筛选范围内每位用户取加权分最高、同分最先分享的对联
+-- 权重：simple 1 / medium 1.2 / hard 1.5（与 LEADERBOARD_CONFIG.difficultyWeights 保持一致）
+-- 周一 = 北京时间日期所在周的周日（weekday 0 向后取）往前 6 天
+INSERT INTO leaderboard_entries
+  (period, period_key, scope, openid, record_id, score, weighted_score, theme, difficulty, shared_at, updated_at)
+WITH shared AS (
+  SELECT id, openid, score, theme, COALESCE(difficulty, 'medium') AS difficulty, shared_at,
+         ROUND(score * CASE COALESCE(difficulty, 'medium') WHEN 'simple' THEN 1 WHEN 'hard' THEN 1.5 ELSE 1.2 END, 2)
+           AS weighted_score
+  FROM couplet_records
+  WHERE is_shared = 1 AND score >= 3 AND shared_at IS NOT NULL
+),
+scoped AS (
+  SELECT '' AS scope, * FROM shared
+  UNION ALL SELECT 'theme:' || theme, * FROM shared
+  UNION ALL SELECT 'difficulty:' || difficulty, * FROM shared
+  UNION ALL SELECT 'theme:' || theme || '|difficulty:' || difficulty, * FROM shared
+),
+periods AS (
+  SELECT 'week' AS period, date(shared_at, '+8 hours', 'weekday 0', '-6 days') AS period_key, * FROM scoped
+  UNION ALL SELECT 'month', strftime('%Y-%m', shared_at, '+8 hours'), * FROM scoped
+  UNION ALL SELECT 'all', 'all', * FROM scoped
+),
+ranked AS (
+  SELECT *, ROW_NUMBER() OVER (
+    PARTITION BY period, period_key, scope, openid
+    ORDER BY weighted_score DESC, shared_at ASC, id ASC
+  ) AS rn
+  FROM periods
+)
+SELECT period, period_key, scope, openid, id, score, weighted_score, theme, difficulty, shared_at, datetime('now')
+FROM ranked
+WHERE rn = 1;
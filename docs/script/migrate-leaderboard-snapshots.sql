@@ -0,0 +1,50 @@
+-- Migration: Leaderboard snapshots (weekly / monthly / all-time, one best entry per user)
+-- Date: 2026-10-19
+-- Run: turso db shell <db-name> < docs/script/migrate-leaderboard-snapshots.sql
+
+-- 排行榜快照，点评和分享后刷新对应用户的条目
+CREATE TABLE IF NOT EXISTS leaderboard_entries (
+  period TEXT NOT NULL,          -- week / month / all
+  period_key TEXT NOT NULL,      -- 周一日期（YYYY-MM-DD）/ 月份（YYYY-MM）/ all，均按北京时间
+  openid TEXT NOT NULL,
+  record_id INTEGER NOT NULL,    -- 该用户在本周期的最佳对联
+  score DECIMAL(3,2) NOT NULL,
+  shared_at TEXT NOT NULL,       -- 对联首次分享时间
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (period, period_key, openid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_entries_rank
+  ON leaderboard_entries(period, period_key, score DESC, shared_at, openid);
+
+-- 回填历史数据：每个周期每位用户取评分最高、同分最先分享的对联
+-- 周一 = 北京时间日期所在周的周日（weekday 0 向后取）往前 6 天
+INSERT OR REPLACE INTO leaderboard_entries (period, period_key, openid, record_id, score, shared_at, updated_at)
+SELECT period, period_key, openid, id, score, shared_at, datetime('now')
+FROM (
+  SELECT 'week' AS period,
+         date(shared_at, '+8 hours', 'weekday 0', '-6 days') AS period_key,
+         openid, id, score, shared_at,
+         ROW_NUMBER() OVER (
+           PARTITION BY openid, date(shared_at, '+8 hours', 'weekday 0', '-6 days')
+           ORDER BY score DESC, shared_at ASC, id ASC
+         ) AS rn
+  FROM couplet_records
+  WHERE is_shared = 1 AND score >= 3 AND shared_at IS NOT NULL
+  UNION ALL
+  SELECT 'month', strftime('%Y-%m', shared_at, '+8 hours'),
+         openid, id, score, shared_at,
+         ROW_NUMBER() OVER (
+           PARTITION BY openid, strftime('%Y-%m', shared_at, '+8 hours')
+           ORDER BY score DESC, shared_at ASC, id ASC
+         )
+  FROM couplet_records
+  WHERE is_shared = 1 AND score >= 3 AND shared_at IS NOT NULL
+  UNION ALL
+  SELECT 'all', 'all',
+         openid, id, score, shared_at,
+         ROW_NUMBER() OVER (PARTITION BY openid ORDER BY score DESC, shared_at ASC, id ASC)
+  FROM couplet_records
+  WHERE is_shared = 1 AND score >= 3 AND shared_at IS NOT NULL
+)
+WHERE rn = 1;
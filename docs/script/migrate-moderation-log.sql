@@ -0,0 +1,18 @@
+-- Migration: Output content moderation verdicts
+-- Date: 2026-10-19
+-- Run: turso db shell <db-name> < docs/script/migrate-moderation-log.sql
+
+-- 每次输出审核一条记录（重试时同一请求会有两条）
+CREATE TABLE IF NOT EXISTS moderation_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  feature TEXT NOT NULL,         -- blessing / couplet_upper / couplet_review
+  openid TEXT,
+  occasion TEXT,                 -- 场合上下文
+  attempt INTEGER NOT NULL,      -- 第几次生成（1 为首次，2 为重试）
+  passed INTEGER NOT NULL,       -- 是否通过审核
+  hits TEXT NOT NULL,            -- 命中词 JSON：[{ term, category }]
+  text TEXT,                     -- 未通过时的输出文本（截断到 500 字）
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_log_created ON moderation_log(created_at);
@@ -0,0 +1,19 @@
+-- Migration: Points ledger
+-- Date: 2026-10-19
+-- Run: turso db shell <db-name> < docs/script/migrate-points-ledger.sql
+
+-- 积分来源：share / daily_challenge 等，用于按来源统计每日上限
+ALTER TABLE points_log ADD COLUMN source TEXT;
+
+-- 幂等键，如 share:123:timeline；同一用户同一键只记一次
+ALTER TABLE points_log ADD COLUMN idempotency_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_points_log_idempotency ON points_log(openid, idempotency_key);
+CREATE INDEX IF NOT EXISTS idx_points_log_source_created ON points_log(openid, source, created_at);
+
+-- 历史流水没有幂等键，NULL 在唯一索引中互不冲突
+UPDATE points_log SET source = 'share' WHERE source IS NULL AND reason LIKE '分享对联%';
+
+-- 以流水为准校正积分余额
+UPDATE user_stats
+SET total_points = (SELECT COALESCE(SUM(points), 0) FROM points_log WHERE points_log.openid = user_stats.openid);
@@ -0,0 +1,11 @@
+-- Migration: Prompt template versions and A/B tracking
+-- Date: 2026-10-19
+-- Run: turso db shell <db-name> < docs/script/migrate-prompt-versions.sql
+
+-- 生成时使用的提示词模板版本，如 blessing_template@v2
+ALTER TABLE user_history ADD COLUMN prompt_version TEXT;
+
+-- 是否由「重新生成」按钮触发（1 表示用户对上一条结果不满意）
+ALTER TABLE user_history ADD COLUMN is_regenerate INTEGER DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_user_history_prompt_version ON user_history(prompt_version, created_at);
@@ -0,0 +1,19 @@
+-- Migration: Points redemption and entitlements
+-- Date: 2026-10-19
+-- Run: turso db shell <db-name> < docs/script/migrate-redemption.sql
+
+-- 用户权益，兑换时与积分扣减（points_log 中 source = 'redeem' 的负数流水）在同一事务中写入
+CREATE TABLE IF NOT EXISTS user_entitlements (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  openid TEXT NOT NULL,
+  item_id TEXT NOT NULL,        -- 兑换商品 ID，见 lib/config/redemption-catalog.ts
+  type TEXT NOT NULL,           -- extra_daily_generations / premium_style / card_theme
+  value TEXT,                   -- 风格或卡片主题
+  amount INTEGER,               -- 每天额外增加的生成次数
+  expires_at TEXT,              -- 过期时间，为空表示永久有效
+  source_key TEXT NOT NULL,     -- 对应积分流水的幂等键
+  created_at TEXT NOT NULL,
+  UNIQUE (openid, source_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_entitlements_openid ON user_entitlements(openid, expires_at);
@@ -0,0 +1,149 @@
+import { BadgeDefinition, BadgeRequirement } from "@/lib/config/badges";
+import { isBadgeActive, loadBadgeDefinitions } from "@/lib/badge-registry";
+import { calculateDailyStreak } from "@/lib/daily-challenge";
+import { achievementDb, dailyChallengeDb, userStatsDb } from "@/lib/db";
+
+/**
+ * 成就评估
+ * 点评、分享、每日挑战提交后调用：从 couplet_records、user_stats 和每日挑战记录汇总指标，
+ * 按徽章条件计算进度（0-100），达成时解锁。解锁只写入一次，重复评估不会重复返回同一徽章。
+ * 已下线或不在有效期内的徽章不参与评估，限时的主题徽章只统计有效期内创建的对联。
+ */
+
+/**
+ * 计算徽章进度所需的用户指标
+ */
+export interface AchievementMetrics {
+  totalCouplets: number;               // 已完成（有评分）的对联数
+  threeStarCount: number;              // 3 星及以上的对联数
+  avgScore: number;                    // 已完成对联的平均分
+  totalShares: number;                 // 累计分享次数
+  maxShareCount: number;               // 单个对联的最高分享次数
+  themeCounts: Record<string, number>; // 各主题已完成的对联数
+  bestStreak: number;                  // 每日挑战最长连续天数
+}
+
+/**
+ * 新解锁的徽章（随点评 / 分享结果返回给前端展示）
+ */
+export interface UnlockedBadge {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+}
+
+function toPercent(current: number, target: number): number {
+  if (target <= 0) return 100;
+  return Math.max(0, Math.min(100, Math.floor((current / target) * 100)));
+}
+
+/**
+ * 计算单个徽章条件的进度
+ * @param requirement - 徽章条件
+ * @param metrics - 用户指标
+ * @returns 进度（0-100），100 表示已达成
+ */
+export function calculateBadgeProgress(requirement: BadgeRequirement, metrics: AchievementMetrics): number {
+  switch (requirement.type) {
+    case 'first_3_star':
+      return toPercent(metrics.threeStarCount, requirement.value);
+    case 'total_couplets':
+      return toPercent(metrics.totalCouplets, requirement.value);
+    case 'avg_score':
+      // 数量和平均分都要达标，进度取两者中较低的一项
+      return Math.min(
+        toPercent(metrics.totalCouplets, requirement.minCount),
+        toPercent(metrics.avgScore, requirement.value)
+      );
+    case 'total_shares':
+      return toPercent(metrics.totalShares, requirement.value);
+    case 'theme_count':
+      return toPercent(metrics.themeCounts[requirement.theme] ?? 0, requirement.value);
+    case 'viral_share':
+      return toPercent(metrics.maxShareCount, requirement.value);
+    case 'daily_streak':
+      return toPercent(metrics.bestStreak, requirement.value);
+  }
+}
+
+/**
+ * 汇总用户指标
+ */
+async function loadMetrics(openid: string): Promise<AchievementMetrics> {
+  const [coupletMetrics, themeCounts, stats, challengeDates] = await Promise.all([
+    achievementDb.getCoupletMetrics(openid),
+    achievementDb.getThemeCounts(openid),
+    userStatsDb.getUserStats(openid),
+    dailyChallengeDb.getUserChallengeDates(openid),
+  ]);
+  return {
+    ...coupletMetrics,
+    themeCounts,
+    totalShares: Number(stats?.total_shares) || 0,
+    bestStreak: calculateDailyStreak(challengeDates).best,
+  };
+}
+
+/**
+ * 限时徽章的有效期换算为 created_at 的比较范围（北京时间整天，结束日含当天）
+ */
+function getBadgeRange(badge: BadgeDefinition): { from: string | null; to: string | null } {
+  const dayStart = (date: string) => new Date(`${date}T00:00:00+08:00`).getTime();
+  return {
+    from: badge.activeFrom ? new Date(dayStart(badge.activeFrom)).toISOString() : null,
+    to: badge.activeTo ? new Date(dayStart(badge.activeTo) + 24 * 60 * 60 * 1000).toISOString() : null,
+  };
+}
+
+/**
+ * 徽章评估所用的指标：限时的主题徽章只统计有效期内创建的对联
+ */
+async function getBadgeMetrics(openid: string, badge: BadgeDefinition, metrics: AchievementMetrics): Promise<AchievementMetrics> {
+  if (badge.requirement.type !== 'theme_count' || (!badge.activeFrom && !badge.activeTo)) {
+    return metrics;
+  }
+  return { ...metrics, themeCounts: await achievementDb.getThemeCounts(openid, getBadgeRange(badge)) };
+}
+
+function toUnlockedBadge(badge: BadgeDefinition): UnlockedBadge {
+  return { id: badge.id, name: badge.name, description: badge.description, icon: badge.icon };
+}
+
+/**
+ * 评估用户的全部徽章：更新进度，达成时解锁
+ * 评估失败只记录错误，不影响点评、分享等主流程
+ * @param openid - 用户 openid
+ * @returns 本次新解锁的徽章
+ */
+export async function evaluateAchievements(openid: string): Promise<UnlockedBadge[]> {
+  try {
+    const badges = (await loadBadgeDefinitions()).filter((badge) => isBadgeActive(badge));
+    await achievementDb.initAchievements(openid, badges.map((badge) => badge.id));
+    const [achievements, metrics] = await Promise.all([
+      achievementDb.getUserAchievements(openid),
+      loadMetrics(openid),
+    ]);
+    const current = new Map(achievements.map((row) => [String(row.badge_id), row]));
+
+    const unlocked: UnlockedBadge[] = [];
+    for (const badge of badges) {
+      const row = current.get(badge.id);
+      if (row?.unlocked_at) continue;
+
+      const progress = calculateBadgeProgress(badge.requirement, await getBadgeMetrics(openid, badge, metrics));
+      if (progress >= 100) {
+        // 并发评估时只有一次能解锁成功
+        if (await achievementDb.unlockAchievement(openid, badge.id)) {
+          unlocked.push(toUnlockedBadge(badge));
+        }
+      } else if (progress !== Number(row?.progress ?? 0)) {
+        await achievementDb.updateProgress(openid, badge.id, progress);
+      }
+    }
+    return unlocked;
+  } catch (error) {
+    console.error("评估成就失败:", error);
+    return [];
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest } from "next/server";
+import * as crypto from "crypto";
+
+/**
+ * 校验管理接口请求
+ * 通过 `x-admin-token` 请求头或 `Authorization: Bearer` 传入 ADMIN_API_TOKEN
+ * 未配置 ADMIN_API_TOKEN 时一律拒绝
+ * @param req - Next.js 请求对象
+ * @returns 是否为合法的管理请求
+ */
+export function verifyAdminRequest(req: NextRequest): boolean {
+  const provided =
+    req.headers.get("x-admin-token") ||
+    req.headers.get("Authorization")?.replace("Bearer ", "") ||
+    "";
+
+  return safeCompare(process.env.ADMIN_API_TOKEN, provided);
+}
+
+/**
+ * 校验定时任务请求
+ * 通过 `Authorization: Bearer` 传入 CRON_SECRET（与 Vercel Cron 的约定一致）
+ * 未配置 CRON_SECRET 时一律拒绝
+ * @param req - Next.js 请求对象
+ * @returns 是否为合法的定时任务请求
+ */
+export function verifyCronRequest(req: NextRequest): boolean {
+  const provided = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+  return safeCompare(process.env.CRON_SECRET, provided);
+}
+
+/**
+ * 以恒定时间比较密钥，未配置密钥时返回 false
+ */
+function safeCompare(expected: string | undefined, provided: string): boolean {
+  if (!expected) {
+    return false;
+  }
+
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+
+  // 长度不同时 timingSafeEqual 会抛错，先行判断
+  if (expectedBuffer.length !== providedBuffer.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(expectedBuffer, providedBuffer);
+}
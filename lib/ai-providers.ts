@@ -0,0 +1,390 @@
+/**
+ * AI 供应商注册表
+ * 负责从环境变量加载有序的供应商链，并为不同的请求/响应格式提供适配器
+ *
+ * 配置方式（二选一）：
+ * 1. AI_PROVIDERS：JSON 数组，按优先级排列，例如
+ *    [{"name":"deepseek","apiKeyEnv":"DEEPSEEK_API_KEY","baseUrl":"https://api.deepseek.com","model":"deepseek-chat"},
+ *     {"name":"qwen","apiKeyEnv":"QWEN_API_KEY","baseUrl":"https://dashscope.aliyuncs.com/compatible-mode/v1","model":"qwen-turbo","temperature":0.8}]
+ * 2. 兼容旧配置：PRIMARY_AI_* 与 FALLBACK_AI_*
+ *
+ * 条目中可选的 inputPrice / outputPrice（元 / 百万 tokens）用于在用量日志中估算费用
+ */
+
+/**
+ * 适配器类型
+ * - openai：OpenAI 兼容接口（DeepSeek、通义千问兼容模式、Kimi、本地兼容服务等）
+ * - wenxin：百度文心一言千帆接口
+ * - anthropic：Anthropic Messages 接口
+ */
+export type AIAdapterType = "openai" | "wenxin" | "anthropic";
+
+/**
+ * 单个 AI 供应商配置
+ * temperature / maxTokens / timeout 未设置时使用 AI_* 全局环境变量
+ */
+export interface AIProviderConfig {
+  name: string;            // 供应商名称，用于日志与统计
+  adapter: AIAdapterType;  // 请求/响应格式适配器
+  apiKey: string;          // API 密钥（本地服务可为空）
+  baseUrl: string;         // API 基础 URL
+  model: string;           // 使用的模型名称
+  temperature?: number;    // 生成随机性
+  maxTokens?: number;      // 最大生成 token 数
+  timeout?: number;        // 请求超时时间（毫秒）
+  inputPrice?: number;     // 输入单价（元 / 百万 tokens），用于用量统计估算费用
+  outputPrice?: number;    // 输出单价（元 / 百万 tokens）
+}
+
+/**
+ * 对话消息
+ * 多轮对话（如对已生成的祝福语继续修改）时按顺序传入
+ */
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * 提示词：单条文本，或按顺序排列的多轮对话消息
+ */
+export type AIPrompt = string | ChatMessage[];
+
+/**
+ * 单次调用的 token 用量
+ */
+export interface AIUsage {
+  promptTokens: number;      // 输入 token 数
+  completionTokens: number;  // 输出 token 数
+}
+
+/**
+ * 供应商注册表
+ */
+export interface AIProviderRegistry {
+  providers: AIProviderConfig[];  // 按优先级排列的供应商链
+  enableFallback: boolean;        // 是否在失败时依次尝试后续供应商
+}
+
+/**
+ * 适配器构造出的 HTTP 请求
+ */
+export interface AIRequest {
+  url: string;
+  body: Record<string, unknown>;
+  headers: Record<string, string>;
+}
+
+/**
+ * 请求/响应格式适配器
+ */
+export interface AIAdapter {
+  // 根据配置和提示词（单条文本或多轮对话）构造请求
+  buildRequest(config: AIProviderConfig, prompt: AIPrompt, stream: boolean): AIRequest;
+  // 从非流式响应体中取出文本
+  parseResponse(data: unknown): string;
+  // 从单个流式事件的 JSON 数据中取出增量文本
+  parseStreamChunk(payload: unknown): string;
+  // 从响应体或流式事件中取出 token 用量（流式下可能分多次给出，未包含时返回 null）
+  parseUsage(payload: unknown): Partial<AIUsage> | null;
+}
+
+/**
+ * 各供应商响应体中用到的字段
+ */
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface OpenAIResponse {
+  choices: { message?: { content: string }; delta?: { content?: string } }[];
+  usage?: OpenAIUsage | null;
+}
+
+interface WenxinResponse {
+  result?: string;
+  error_code?: number;
+  error_msg?: string;
+  usage?: OpenAIUsage;
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicResponse {
+  type?: string;
+  content?: { type: string; text: string }[];
+  delta?: { text?: string };
+  usage?: AnthropicUsage;
+  message?: { usage?: AnthropicUsage };
+}
+
+/**
+ * 转换 OpenAI / 千帆格式的 usage 字段
+ */
+function fromOpenAIUsage(usage: OpenAIUsage | null | undefined): Partial<AIUsage> | null {
+  if (!usage) return null;
+  return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens };
+}
+
+/**
+ * 把提示词统一转换为消息列表
+ * @param prompt - 单条文本或消息列表
+ * @returns 消息列表
+ */
+export function toChatMessages(prompt: AIPrompt): ChatMessage[] {
+  return typeof prompt === "string" ? [{ role: "user", content: prompt }] : prompt;
+}
+
+/**
+ * 拆出 system 消息
+ * 千帆与 Anthropic 不接受 messages 中的 system 角色，需要放到单独的 system 字段
+ */
+function splitSystemMessages(prompt: AIPrompt): { system: string; messages: ChatMessage[] } {
+  const messages = toChatMessages(prompt);
+  return {
+    system: messages.filter((message) => message.role === "system").map((message) => message.content).join("\n\n"),
+    messages: messages.filter((message) => message.role !== "system"),
+  };
+}
+
+/**
+ * 获取生成参数（供应商配置优先，其次为全局环境变量）
+ */
+export function resolveGenerationParams(config: AIProviderConfig) {
+  return {
+    maxTokens: config.maxTokens ?? (Number(process.env.AI_MAX_TOKENS) || 1000),
+    temperature: config.temperature ?? (Number(process.env.AI_TEMPERATURE) || 0.7),
+    timeout: config.timeout ?? (Number(process.env.AI_TIMEOUT) || 30000),
+  };
+}
+
+/**
+ * 各适配器实现
+ */
+export const AI_ADAPTERS: Record<AIAdapterType, AIAdapter> = {
+  openai: {
+    buildRequest(config, prompt, stream) {
+      const { maxTokens, temperature } = resolveGenerationParams(config);
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (config.apiKey) {
+        headers.Authorization = `Bearer ${config.apiKey}`;
+      }
+      return {
+        url: `${config.baseUrl}/chat/completions`,
+        body: {
+          model: config.model,
+          messages: toChatMessages(prompt),
+          max_tokens: maxTokens,
+          temperature,
+          stream,
+          // 流式模式下要求在最后一个事件中附带用量
+          ...(stream ? { stream_options: { include_usage: true } } : {}),
+        },
+        headers,
+      };
+    },
+    parseResponse(data) {
+      return (data as OpenAIResponse).choices[0].message!.content;
+    },
+    parseStreamChunk(payload) {
+      return (payload as OpenAIResponse).choices?.[0]?.delta?.content ?? "";
+    },
+    parseUsage(payload) {
+      return fromOpenAIUsage((payload as OpenAIResponse).usage);
+    },
+  },
+
+  wenxin: {
+    buildRequest(config, prompt, stream) {
+      const { maxTokens, temperature } = resolveGenerationParams(config);
+      const { system, messages } = splitSystemMessages(prompt);
+      return {
+        url: `${config.baseUrl}/chat/${config.model}?access_token=${encodeURIComponent(config.apiKey)}`,
+        body: {
+          messages,
+          ...(system ? { system } : {}),
+          // 千帆要求 temperature 在 (0, 1] 之间
+          temperature: Math.min(1, Math.max(0.01, temperature)),
+          max_output_tokens: maxTokens,
+          stream,
+        },
+        headers: { "Content-Type": "application/json" },
+      };
+    },
+    parseResponse(data) {
+      const response = data as WenxinResponse;
+      if (response.error_code) {
+        throw new Error(`文心一言调用失败: ${response.error_code} ${response.error_msg || ""}`.trim());
+      }
+      return response.result ?? "";
+    },
+    parseStreamChunk(payload) {
+      return (payload as WenxinResponse).result ?? "";
+    },
+    parseUsage(payload) {
+      // 千帆流式每个事件都带累计用量，后到的覆盖先到的即可
+      return fromOpenAIUsage((payload as WenxinResponse).usage);
+    },
+  },
+
+  anthropic: {
+    buildRequest(config, prompt, stream) {
+      const { maxTokens, temperature } = resolveGenerationParams(config);
+      const { system, messages } = splitSystemMessages(prompt);
+      return {
+        url: `${config.baseUrl}/messages`,
+        body: {
+          model: config.model,
+          messages,
+          ...(system ? { system } : {}),
+          max_tokens: maxTokens,
+          temperature,
+          stream,
+        },
+        headers: {
+          "x-api-key": config.apiKey,
+          "anthropic-version": "2023-06-01",
+          "Content-Type": "application/json",
+        },
+      };
+    },
+    parseResponse(data) {
+      return ((data as AnthropicResponse).content || [])
+        .filter((block) => block.type === "text")
+        .map((block) => block.text)
+        .join("");
+    },
+    parseStreamChunk(payload) {
+      const event = payload as AnthropicResponse;
+      return event.type === "content_block_delta" ? event.delta?.text ?? "" : "";
+    },
+    parseUsage(payload) {
+      // 非流式在 usage 中；流式下 message_start 给出输入用量，message_delta 给出输出用量
+      const event = payload as AnthropicResponse;
+      const usage = event.message?.usage ?? event.usage;
+      if (!usage) return null;
+      return { promptTokens: usage.input_tokens, completionTokens: usage.output_tokens };
+    },
+  },
+};
+
+/**
+ * 按供应商单价估算一次调用的费用
+ * @param config - 供应商配置
+ * @param usage - token 用量
+ * @returns 费用（元），未配置单价时为 0
+ */
+export function estimateCost(config: AIProviderConfig, usage: AIUsage): number {
+  const input = (usage.promptTokens * (config.inputPrice ?? 0)) / 1000000;
+  const output = (usage.completionTokens * (config.outputPrice ?? 0)) / 1000000;
+  return input + output;
+}
+
+/**
+ * 解析 AI_PROVIDERS 中的单个条目
+ * @throws Error - 缺少必填字段或适配器未知时抛出异常
+ */
+function parseProviderEntry(entry: unknown, index: number): AIProviderConfig {
+  if (!entry || typeof entry !== "object") {
+    throw new Error(`AI_PROVIDERS 第 ${index + 1} 项格式错误`);
+  }
+
+  const raw = entry as Record<string, unknown>;
+  const name = typeof raw.name === "string" && raw.name.trim() ? raw.name.trim() : `provider_${index + 1}`;
+  const adapter = (raw.adapter ?? "openai") as AIAdapterType;
+
+  if (!(adapter in AI_ADAPTERS)) {
+    throw new Error(`AI 供应商 ${name} 的适配器 ${String(raw.adapter)} 不受支持`);
+  }
+  if (typeof raw.baseUrl !== "string" || !raw.baseUrl || typeof raw.model !== "string" || !raw.model) {
+    throw new Error(`AI 供应商 ${name} 缺少 baseUrl 或 model`);
+  }
+
+  // 支持直接写 apiKey，也支持通过 apiKeyEnv 引用其他环境变量，避免把密钥写进 JSON
+  const apiKey =
+    typeof raw.apiKey === "string"
+      ? raw.apiKey
+      : typeof raw.apiKeyEnv === "string"
+        ? process.env[raw.apiKeyEnv] || ""
+        : "";
+
+  const optionalNumber = (value: unknown) =>
+    typeof value === "number" && Number.isFinite(value) ? value : undefined;
+
+  return {
+    name,
+    adapter,
+    apiKey,
+    baseUrl: raw.baseUrl.replace(/\/+$/, ""),
+    model: raw.model,
+    temperature: optionalNumber(raw.temperature),
+    maxTokens: optionalNumber(raw.maxTokens),
+    timeout: optionalNumber(raw.timeout),
+    inputPrice: optionalNumber(raw.inputPrice),
+    outputPrice: optionalNumber(raw.outputPrice),
+  };
+}
+
+/**
+ * 从旧版 PRIMARY_AI_* / FALLBACK_AI_* 环境变量构造供应商链
+ */
+function loadLegacyProviders(): AIProviderConfig[] {
+  const providers: AIProviderConfig[] = [];
+
+  if (process.env.PRIMARY_AI_API_KEY) {
+    providers.push({
+      name: "primary",
+      adapter: "openai",
+      apiKey: process.env.PRIMARY_AI_API_KEY,
+      baseUrl: process.env.PRIMARY_AI_BASE_URL || "https://api.deepseek.com",
+      model: process.env.PRIMARY_AI_MODEL || "deepseek-chat",
+    });
+  }
+
+  if (process.env.FALLBACK_AI_API_KEY) {
+    providers.push({
+      name: "fallback",
+      adapter: "openai",
+      apiKey: process.env.FALLBACK_AI_API_KEY,
+      baseUrl: process.env.FALLBACK_AI_BASE_URL || "https://api.openai.com/v1",
+      model: process.env.FALLBACK_AI_MODEL || "gpt-3.5-turbo",
+    });
+  }
+
+  return providers;
+}
+
+/**
+ * 加载 AI 供应商注册表
+ * 优先读取 AI_PROVIDERS，未配置时回退到旧版主力/备用环境变量
+ * @returns 供应商注册表
+ * @throws Error - AI_PROVIDERS 格式错误时抛出异常
+ */
+export function loadProviderRegistry(): AIProviderRegistry {
+  const enableFallback = process.env.ENABLE_FALLBACK === "true";
+  const rawProviders = process.env.AI_PROVIDERS?.trim();
+
+  if (!rawProviders) {
+    return { providers: loadLegacyProviders(), enableFallback };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawProviders);
+  } catch {
+    throw new Error("AI_PROVIDERS 配置格式错误，应为 JSON 数组");
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error("AI_PROVIDERS 配置格式错误，应为 JSON 数组");
+  }
+
+  return {
+    providers: parsed.map((entry, index) => parseProviderEntry(entry, index)),
+    enableFallback,
+  };
+}
@@ -1,106 +1,400 @@
 // 导入 HTTP 客户端库
 import axios from "axios";
+// AI 供应商注册表与适配器
+import {
+  AI_ADAPTERS,
+  AIAdapter,
+  AIPrompt,
+  AIProviderConfig,
+  AIUsage,
+  estimateCost,
+  loadProviderRegistry,
+  resolveGenerationParams,
+} from "@/lib/ai-providers";
+// 供应商熔断器
+import { canRequest, recordFailure, recordSuccess } from "@/lib/circuit-breaker";
+// 用量日志
+import { usageDb } from "@/lib/db";
 
 /**
  * AI 服务配置接口
  * 定义连接不同 AI 提供商所需的基本信息
+ * 未指定 adapter 时按 OpenAI 兼容格式处理
  */
-interface AIConfig {
+export interface AIConfig {
   apiKey: string;   // API 密钥
   baseUrl: string;  // API 基础 URL
   model: string;    // 使用的模型名称
+  name?: string;    // 供应商名称（可选）
+  adapter?: AIProviderConfig["adapter"];  // 请求/响应格式适配器（可选）
+  temperature?: number;  // 生成随机性（可选）
+  maxTokens?: number;    // 最大生成 token 数（可选）
+  timeout?: number;      // 请求超时时间（可选）
+}
+
+/**
+ * AI 调用结果
+ * 除生成文本外，记录实际提供服务的供应商
+ */
+export interface AIResult {
+  text: string;      // 生成的文本内容
+  provider: string;  // 提供服务的供应商名称
+  model: string;     // 使用的模型名称
+}
+
+/**
+ * 调用 AI 的业务场景，用于按功能统计用量与费用
+ */
+export type AIFeature =
+  | "blessing"
+  | "blessing_refine"
+  | "couplet_upper"
+  | "couplet_review"
+  | "couplet_horizontal"
+  | "couplet_lower"
+  | "daily_challenge";
+
+/**
+ * 单次调用的文本与用量
+ */
+interface AICallResult {
+  text: string;
+  usage: AIUsage;
+}
+
+/**
+ * 合并适配器解析出的用量（流式下输入、输出用量可能分别出现在不同事件中）
+ */
+function mergeUsage(usage: AIUsage, partial: Partial<AIUsage> | null): AIUsage {
+  if (!partial) return usage;
+  return {
+    promptTokens: partial.promptTokens ?? usage.promptTokens,
+    completionTokens: partial.completionTokens ?? usage.completionTokens,
+  };
+}
+
+/**
+ * 补全 AI 配置中的可选字段
+ */
+function toProviderConfig(config: AIConfig): AIProviderConfig {
+  return {
+    ...config,
+    name: config.name ?? config.model,
+    adapter: config.adapter ?? "openai",
+  };
 }
 
 /**
  * 调用 AI API 的核心函数
- * 支持多种 AI 提供商（DeepSeek、OpenAI、通义千问等）
+ * 通过适配器支持多种 AI 提供商（DeepSeek、OpenAI、通义千问、文心一言等）
  * @param config - AI 服务配置信息
- * @param prompt - 发送给 AI 的提示词
+ * @param prompt - 发送给 AI 的提示词（单条文本或多轮对话消息）
  * @returns Promise<string> - AI 生成的回复内容
  * @throws Error - 当 API 调用失败时抛出异常
  */
-export async function callAI(config: AIConfig, prompt: string): Promise<string> {
-  // 发送 OpenAI 兼容格式的聊天请求
-  const response = await axios.post(
-    `${config.baseUrl}/chat/completions`,
-    {
-      model: config.model,
-      messages: [{ role: "user", content: prompt }],
-      max_tokens: Number(process.env.AI_MAX_TOKENS) || 1000,  // 最大生成 token 数
-      temperature: Number(process.env.AI_TEMPERATURE) || 0.7,  // 生成随机性（0-1）
-      stream: false,  // 不使用流式输出
-    },
-    {
-      headers: {
-        Authorization: `Bearer ${config.apiKey}`,
-        "Content-Type": "application/json",
-      },
-      timeout: Number(process.env.AI_TIMEOUT) || 30000,  // 请求超时时间（毫秒）
-    }
-  );
+export async function callAI(config: AIConfig, prompt: AIPrompt): Promise<string> {
+  return (await requestAI(config, prompt)).text;
+}
 
-  // 返回 AI 生成的文本内容
-  return response.data.choices[0].message.content;
+/**
+ * 调用 AI API 并返回文本与 token 用量
+ */
+async function requestAI(config: AIConfig, prompt: AIPrompt): Promise<AICallResult> {
+  const provider = toProviderConfig(config);
+  const adapter = AI_ADAPTERS[provider.adapter];
+  // 由适配器构造对应供应商格式的请求（不使用流式输出）
+  const request = adapter.buildRequest(provider, prompt, false);
+
+  const response = await axios.post(request.url, request.body, {
+    headers: request.headers,
+    timeout: resolveGenerationParams(provider).timeout,  // 请求超时时间（毫秒）
+  });
+
+  // 返回 AI 生成的文本内容及用量
+  return {
+    text: adapter.parseResponse(response.data),
+    usage: mergeUsage({ promptTokens: 0, completionTokens: 0 }, adapter.parseUsage(response.data)),
+  };
 }
 
 /**
- * 祝福语生成主函数
- * 实现双重容错机制：主力 API + 备用 API
- * 支持多种 AI 提供商的自动切换
- * @param prompt - 完整的提示词内容
- * @returns Promise<string> - 生成的祝福语文本
- * @throws Error - 当所有 API 都不可用时抛出异常
+ * 解析一行 SSE 数据
+ * @param line - 形如 `data: {...}` 的单行文本
+ * @param adapter - 当前供应商的适配器
+ * @returns 增量文本与用量；`[DONE]` 返回 null，非数据行返回空文本
  */
-export async function generateBlessing(prompt: string): Promise<string> {
-  // 主力 AI 配置（优先使用）
-  const primaryConfig: AIConfig | null = process.env.PRIMARY_AI_API_KEY
-    ? {
-        apiKey: process.env.PRIMARY_AI_API_KEY,
-        baseUrl: process.env.PRIMARY_AI_BASE_URL || "https://api.deepseek.com",
-        model: process.env.PRIMARY_AI_MODEL || "deepseek-chat",
+function parseStreamLine(
+  line: string,
+  adapter: AIAdapter
+): { delta: string; usage: Partial<AIUsage> | null } | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("data:")) return { delta: "", usage: null };
+
+  const payload = trimmed.slice(5).trim();
+  if (payload === "[DONE]") return null;
+
+  try {
+    const data = JSON.parse(payload);
+    return { delta: adapter.parseStreamChunk(data), usage: adapter.parseUsage(data) };
+  } catch {
+    // 个别供应商会推送心跳或非 JSON 行，直接忽略
+    return { delta: "", usage: null };
+  }
+}
+
+/**
+ * 以流式方式调用 AI API
+ * 逐块解析 SSE 的 `data:` 事件，每收到一段增量文本就回调一次
+ * @param config - AI 服务配置信息
+ * @param prompt - 发送给 AI 的提示词（单条文本或多轮对话消息）
+ * @param onToken - 收到增量文本时的回调
+ * @returns Promise<string> - 拼接后的完整回复内容
+ * @throws Error - 当 API 调用失败或流中断时抛出异常
+ */
+export async function callAIStream(
+  config: AIConfig,
+  prompt: AIPrompt,
+  onToken: (delta: string) => void
+): Promise<string> {
+  return (await requestAIStream(config, prompt, onToken)).text;
+}
+
+/**
+ * 以流式方式调用 AI API 并返回完整文本与 token 用量
+ */
+async function requestAIStream(
+  config: AIConfig,
+  prompt: AIPrompt,
+  onToken: (delta: string) => void
+): Promise<AICallResult> {
+  const provider = toProviderConfig(config);
+  const adapter = AI_ADAPTERS[provider.adapter];
+  const request = adapter.buildRequest(provider, prompt, true);
+
+  const { timeout } = resolveGenerationParams(provider);
+  const response = await axios.post(request.url, request.body, {
+    headers: request.headers,
+    timeout,
+    responseType: "stream",
+  });
+
+  const stream = response.data as NodeJS.ReadableStream & { destroy?: () => void };
+  // 使用流式解码，避免多字节汉字被拆到两个数据块中
+  const decoder = new TextDecoder();
+
+  return new Promise<AICallResult>((resolve, reject) => {
+    let buffer = "";
+    let content = "";
+    let usage: AIUsage = { promptTokens: 0, completionTokens: 0 };
+    let finished = false;
+
+    // axios 的超时只覆盖到响应头返回；之后每个数据块之间同样限制 timeout，供应商卡住时中断连接
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        stream.destroy?.();
+        reject(new Error(`AI 流式响应超时（${timeout}ms 未收到数据）`));
+      }, timeout);
+    };
+    resetIdleTimer();
+
+    const handleLines = (lines: string[]) => {
+      for (const line of lines) {
+        const parsed = parseStreamLine(line, adapter);
+        if (parsed === null) {
+          finished = true;
+          return;
+        }
+        usage = mergeUsage(usage, parsed.usage);
+        if (parsed.delta) {
+          content += parsed.delta;
+          onToken(parsed.delta);
+        }
       }
-    : null;
-
-  // 备用 AI 配置（主力失败时使用）
-  const fallbackConfig: AIConfig | null = process.env.FALLBACK_AI_API_KEY
-    ? {
-        apiKey: process.env.FALLBACK_AI_API_KEY,
-        baseUrl: process.env.FALLBACK_AI_BASE_URL || "https://api.openai.com/v1",
-        model: process.env.FALLBACK_AI_MODEL || "gpt-3.5-turbo",
+    };
+
+    stream.on("data", (chunk: Uint8Array) => {
+      resetIdleTimer();
+      if (finished) return;
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      handleLines(lines);
+    });
+
+    stream.on("end", () => {
+      clearTimeout(idleTimer);
+      if (!finished) {
+        handleLines([buffer + decoder.decode()]);
       }
-    : null;
+      resolve({ text: content, usage });
+    });
+
+    stream.on("error", (error) => {
+      clearTimeout(idleTimer);
+      reject(error);
+    });
+  });
+}
+
+// 等待用量日志写入的最长时间（毫秒），超时后不再等待，避免数据库变慢拖慢 AI 调用
+const USAGE_LOG_TIMEOUT_MS = 500;
+
+/**
+ * 写入一条用量日志
+ * 在返回前等待写入完成（Serverless 环境在响应后可能冻结函数，未等待的写入会丢失），最多等待 USAGE_LOG_TIMEOUT_MS；
+ * 写入失败或超时只记录错误，不影响生成结果
+ */
+async function logUsage(
+  feature: AIFeature,
+  provider: AIProviderConfig,
+  startedAt: number,
+  usage: AIUsage,
+  error?: unknown
+): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      usageDb.logUsage({
+        feature,
+        provider: provider.name,
+        model: provider.model,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        cost: estimateCost(provider, usage),
+        latencyMs: Date.now() - startedAt,
+        success: !error,
+        error: error ? (error instanceof Error ? error.message : String(error)) : undefined,
+      }),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error("写入超时")), USAGE_LOG_TIMEOUT_MS);
+      }),
+    ]);
+  } catch (logError) {
+    console.error("记录AI用量失败:", logError);
+  } finally {
+    clearTimeout(timer);
+  }
+}
 
-  // 是否启用容错机制
-  const enableFallback = process.env.ENABLE_FALLBACK === "true";
+/**
+ * 按注册表中的供应商链依次尝试调用
+ * 未启用容错时只使用第一个供应商；熔断中的供应商会被直接跳过，避免等待超时
+ * 每次调用（包括失败的）都会写入用量日志
+ * @param run - 针对单个供应商执行的调用
+ * @param feature - 调用所属的业务场景
+ * @param canFallback - 当前失败后是否还允许切换到下一个供应商
+ * @returns 调用结果与提供服务的供应商
+ * @throws Error - 当未配置供应商或所有供应商都失败时抛出异常
+ */
+async function runProviderChain(
+  run: (provider: AIProviderConfig) => Promise<AICallResult>,
+  feature: AIFeature,
+  canFallback: () => boolean = () => true
+): Promise<{ result: AICallResult; provider: AIProviderConfig }> {
+  const { providers, enableFallback } = loadProviderRegistry();
 
   // 检查是否至少配置了一个 API
-  if (!primaryConfig && !fallbackConfig) {
+  if (providers.length === 0) {
     throw new Error("未配置任何AI API，请检查环境变量");
   }
 
-  // 尝试主力 API
-  if (primaryConfig) {
+  const chain = enableFallback ? providers : providers.slice(0, 1);
+
+  for (let i = 0; i < chain.length; i++) {
+    const provider = chain[i];
+
+    if (!(await canRequest(provider.name))) {
+      console.warn(`AI供应商 ${provider.name} 熔断中，已跳过`);
+      continue;
+    }
+
+    const startedAt = Date.now();
     try {
-      return await callAI(primaryConfig, prompt);
+      const result = await run(provider);
+      await recordSuccess(provider.name);
+      await logUsage(feature, provider, startedAt, result.usage);
+      return { result, provider };
     } catch (error) {
-      console.warn("主力API调用失败:", error);
-      
-      // 如果未启用容错或没有备用配置，直接抛出错误
-      if (!enableFallback || !fallbackConfig) {
+      await recordFailure(provider.name, error);
+      await logUsage(feature, provider, startedAt, { promptTokens: 0, completionTokens: 0 }, error);
+      if (i === chain.length - 1 || !canFallback()) {
+        console.error(`AI供应商 ${provider.name} 调用失败:`, error);
         throw error;
       }
+      console.warn(`AI供应商 ${provider.name} 调用失败，尝试下一个:`, error);
     }
   }
 
-  // 尝试备用 API
-  if (fallbackConfig) {
-    try {
-      return await callAI(fallbackConfig, prompt);
-    } catch (error) {
-      console.error("备用API调用失败:", error);
-      throw error;
-    }
-  }
+  throw new Error("所有AI供应商暂时不可用，请稍后重试");
+}
+
+/**
+ * 按供应商链生成文本，并返回实际提供服务的供应商
+ * @param prompt - 完整的提示词内容（单条文本或多轮对话消息）
+ * @param feature - 调用所属的业务场景（用于用量统计）
+ * @returns Promise<AIResult> - 生成结果
+ * @throws Error - 当所有 API 都不可用时抛出异常
+ */
+export async function generateWithProvider(prompt: AIPrompt, feature: AIFeature = "blessing"): Promise<AIResult> {
+  const { result, provider } = await runProviderChain((config) => requestAI(config, prompt), feature);
+  return { text: result.text, provider: provider.name, model: provider.model };
+}
+
+/**
+ * 祝福语生成主函数
+ * 按注册表中的供应商链依次尝试，支持多种 AI 提供商的自动切换
+ * @param prompt - 完整的提示词内容（单条文本或多轮对话消息）
+ * @param feature - 调用所属的业务场景（用于用量统计）
+ * @returns Promise<string> - 生成的祝福语文本
+ * @throws Error - 当所有 API 都不可用时抛出异常
+ */
+export async function generateBlessing(prompt: AIPrompt, feature: AIFeature = "blessing"): Promise<string> {
+  return (await generateWithProvider(prompt, feature)).text;
+}
 
-  throw new Error("所有API都不可用");
-}
\ No newline at end of file
+/**
+ * 按供应商链流式生成文本
+ * 只有在尚未输出任何内容时才会切换到下一个供应商，避免重复拼接文本
+ * @param prompt - 完整的提示词内容
+ * @param onToken - 收到增量文本时的回调
+ * @param feature - 调用所属的业务场景（用于用量统计）
+ * @returns Promise<AIResult> - 生成结果
+ * @throws Error - 当所有 API 都不可用时抛出异常
+ */
+export async function streamWithProvider(
+  prompt: AIPrompt,
+  onToken: (delta: string) => void,
+  feature: AIFeature = "blessing"
+): Promise<AIResult> {
+  // 记录是否已经向调用方输出过内容
+  let emitted = false;
+  const handleToken = (delta: string) => {
+    emitted = true;
+    onToken(delta);
+  };
+
+  const { result, provider } = await runProviderChain(
+    (config) => requestAIStream(config, prompt, handleToken),
+    feature,
+    () => !emitted
+  );
+  return { text: result.text, provider: provider.name, model: provider.model };
+}
+
+/**
+ * 流式祝福语生成函数
+ * @param prompt - 完整的提示词内容
+ * @param onToken - 收到增量文本时的回调
+ * @param feature - 调用所属的业务场景（用于用量统计）
+ * @returns Promise<string> - 完整的祝福语文本
+ * @throws Error - 当所有 API 都不可用时抛出异常
+ */
+export async function generateBlessingStream(
+  prompt: AIPrompt,
+  onToken: (delta: string) => void,
+  feature: AIFeature = "blessing"
+): Promise<string> {
+  return (await streamWithProvider(prompt, onToken, feature)).text;
+}
@@ -12,6 +12,8 @@ export interface BlessingOptions {
   // 智能描述模式选项
   customDescription?: string;  // 用户自由描述（包含所有场景信息）
   useSmartMode?: boolean;     // 是否启用智能模式
+
+  regenerate?: boolean;       // 是否由「重新生成」触发（用于统计各提示词版本的重新生成率）
 }
 
 /**
@@ -46,4 +48,215 @@ export async function generateBlessing(options: BlessingOptions): Promise<string
     console.error('API调用失败:', error);
     throw error instanceof Error ? error : new Error('生成祝福语失败，请稍后重试');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 流式生成祝福语函数
+ * 以 SSE 方式请求后端，边接收边回调增量文本，适合逐字展示
+ * @param options - 祝福语生成选项
+ * @param onToken - 收到增量文本时的回调
+ * @param onHistoryId - 收到历史记录 ID 时的回调（可选，用于记录复制）
+ * @returns Promise<string> - 返回最终完整的祝福语文本
+ * @throws Error - 当 API 调用失败、流中返回错误或网络错误时抛出异常
+ */
+export async function generateBlessingStream(
+  options: BlessingOptions,
+  onToken: (delta: string) => void,
+  onHistoryId?: (historyId: string) => void
+): Promise<string> {
+  try {
+    const response = await fetch('/api/blessing', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...options, stream: true }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || '生成祝福语失败');
+    }
+
+    if (!response.body) {
+      throw new Error('当前环境不支持流式输出');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let blessing = '';
+    let completed = false;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      // SSE 事件之间以空行分隔，最后一段可能不完整，留到下次处理
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const event of events) {
+        const line = event.trim();
+        if (!line.startsWith('data:')) continue;
+
+        let data;
+        try {
+          data = JSON.parse(line.slice(5).trim());
+        } catch {
+          // 不完整或损坏的事件直接跳过；若丢的是结束事件，下面按未完成处理
+          continue;
+        }
+        if (data.error) {
+          throw new Error(data.error);
+        }
+        if (data.delta) {
+          blessing += data.delta;
+          onToken(data.delta);
+        }
+        if (data.done) {
+          // 以服务端最终文本为准
+          completed = true;
+          blessing = data.blessing ?? blessing;
+          if (data.historyId) {
+            onHistoryId?.(data.historyId);
+          }
+        }
+      }
+    }
+
+    // 连接中途断开、没有收到结束事件时，已收到的文本不完整，按失败处理
+    if (!completed) {
+      throw new Error('生成祝福语失败');
+    }
+    return blessing;
+  } catch (error) {
+    console.error('API调用失败:', error);
+    throw error instanceof Error ? error : new Error('生成祝福语失败，请稍后重试');
+  }
+}
+
+/**
+ * 多候选生成结果
+ */
+export interface BlessingVariantsResult {
+  blessings: string[];       // 候选祝福语列表
+  historyId: string | null;  // 对应的历史记录 ID（用于记录复制了哪一条）
+}
+
+/**
+ * 一次生成多条候选祝福语
+ * @param options - 祝福语生成选项
+ * @param count - 候选数量（3-5）
+ * @returns Promise<BlessingVariantsResult> - 候选列表与历史记录 ID
+ * @throws Error - 当 API 调用失败或网络错误时抛出异常
+ */
+export async function generateBlessingVariants(
+  options: BlessingOptions,
+  count = 3
+): Promise<BlessingVariantsResult> {
+  try {
+    const response = await fetch('/api/blessing', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...options, variants: count }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || '生成祝福语失败');
+    }
+
+    const data = await response.json();
+    return {
+      blessings: data.blessings ?? [data.blessing],
+      historyId: data.historyId ?? null,
+    };
+  } catch (error) {
+    console.error('API调用失败:', error);
+    throw error instanceof Error ? error : new Error('生成祝福语失败，请稍后重试');
+  }
+}
+
+/**
+ * 记录用户复制了哪一条候选
+ * 仅用于统计，失败时静默忽略，不影响复制操作
+ * @param historyId - 历史记录 ID
+ * @param copiedIndex - 被复制的候选下标
+ */
+export async function recordBlessingCopy(historyId: string, copiedIndex: number): Promise<void> {
+  try {
+    await fetch('/api/user/history', {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ historyId, copiedIndex }),
+    });
+  } catch (error) {
+    console.warn('记录复制失败:', error);
+  }
+}
+
+/**
+ * 多轮修改请求参数
+ */
+export interface RefineBlessingOptions {
+  blessing: string;              // 当前展示的祝福语
+  historyId?: string | null;     // 对应的历史记录 ID（可选）
+  preset?: string;               // 快捷修改选项（如 shorter、add_name）
+  instruction?: string;          // 自定义修改意见
+  name?: string;                 // 对方的名字（加名字选项使用）
+  context?: BlessingOptions;     // 原始生成选项，用于保留场合、对象与风格
+}
+
+/**
+ * 多轮修改结果
+ */
+export interface RefineBlessingResult {
+  blessing: string;          // 修改后的祝福语
+  historyId: string | null;  // 修改结果对应的新历史记录 ID
+}
+
+/**
+ * 在上一轮结果的基础上修改祝福语
+ * @param options - 修改请求参数
+ * @returns Promise<RefineBlessingResult> - 修改后的祝福语与新的历史记录 ID
+ * @throws Error - 当 API 调用失败或网络错误时抛出异常
+ */
+export async function refineBlessing(options: RefineBlessingOptions): Promise<RefineBlessingResult> {
+  const { context, ...rest } = options;
+  try {
+    const response = await fetch('/api/blessing/refine', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        ...rest,
+        historyId: rest.historyId || undefined,
+        occasion: context?.scenario || undefined,
+        festival: context?.festival || undefined,
+        targetPerson: context?.targetPerson || undefined,
+        style: context?.style || undefined,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || '修改祝福语失败');
+    }
+
+    const data = await response.json();
+    return {
+      blessing: data.blessing,
+      historyId: data.historyId ?? null,
+    };
+  } catch (error) {
+    console.error('API调用失败:', error);
+    throw error instanceof Error ? error : new Error('修改祝福语失败，请稍后重试');
+  }
+}
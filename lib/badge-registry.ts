@@ -0,0 +1,218 @@
+import {
+  BadgeCountRequirementType,
+  BadgeDefinition,
+  BadgeRequirement,
+  DEFAULT_BADGE_DEFINITIONS,
+} from "@/lib/config/badges";
+import { getChinaDateString } from "@/lib/daily-challenge";
+import { badgeDb } from "@/lib/db";
+
+/**
+ * 徽章注册表
+ * 徽章定义保存在 badge_definitions 表中，管理员可随时新增或下线，无需重新部署。
+ * 读取时逐条校验条件，格式错误的记录跳过并记录日志；表为空或读取失败时使用默认定义。
+ */
+
+const COUNT_REQUIREMENT_TYPES: BadgeCountRequirementType[] = [
+  'first_3_star',
+  'total_couplets',
+  'total_shares',
+  'viral_share',
+  'daily_streak',
+];
+
+const BADGE_ID_PATTERN = /^[a-z0-9_]{2,50}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// 定义缓存时间（毫秒），管理接口修改后本实例立即失效，其余实例最迟在缓存过期后生效
+const CACHE_TTL_MS = 60 * 1000;
+
+let cache: { badges: BadgeDefinition[]; expiresAt: number } | null = null;
+
+/**
+ * 校验并解析徽章条件
+ * @param raw - 条件对象（来自数据表 JSON 或管理接口请求）
+ * @returns 类型明确的徽章条件
+ * @throws Error - 类型未知、目标数值无效或缺少必需参数时抛出异常
+ */
+export function parseBadgeRequirement(raw: unknown): BadgeRequirement {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("徽章条件必须是对象");
+  }
+  const input = raw as Record<string, unknown>;
+  const value = input.value;
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    throw new Error("徽章条件的目标数值必须为正数");
+  }
+
+  if (input.type === 'avg_score') {
+    const minCount = input.minCount ?? 1;
+    if (typeof minCount !== "number" || !Number.isInteger(minCount) || minCount < 1) {
+      throw new Error("avg_score 条件的 minCount 必须为正整数");
+    }
+    if (value > 5) {
+      throw new Error("avg_score 条件的目标分数不能超过 5");
+    }
+    return { type: 'avg_score', value, minCount };
+  }
+
+  if (input.type === 'theme_count') {
+    if (typeof input.theme !== "string" || !input.theme.trim()) {
+      throw new Error("theme_count 条件缺少主题");
+    }
+    return { type: 'theme_count', value, theme: input.theme.trim() };
+  }
+
+  if (COUNT_REQUIREMENT_TYPES.includes(input.type as BadgeCountRequirementType)) {
+    if (!Number.isInteger(value)) {
+      throw new Error(`${input.type} 条件的目标数值必须为整数`);
+    }
+    return { type: input.type as BadgeCountRequirementType, value };
+  }
+
+  throw new Error(`未知的徽章条件类型: ${String(input.type)}`);
+}
+
+/**
+ * 校验一条徽章定义
+ * @param raw - 徽章定义
+ * @returns 校验后的徽章定义
+ * @throws Error - 字段缺失或格式无效时抛出异常
+ */
+export function validateBadgeDefinition(raw: unknown): BadgeDefinition {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("徽章定义必须是对象");
+  }
+  const input = raw as Record<string, unknown>;
+
+  const id = typeof input.id === "string" ? input.id.trim() : "";
+  if (!BADGE_ID_PATTERN.test(id)) {
+    throw new Error("徽章 ID 只能包含小写字母、数字和下划线（2-50 位）");
+  }
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name || Array.from(name).length > 20) {
+    throw new Error(`徽章 ${id} 的名称应为 1-20 字`);
+  }
+  const description = typeof input.description === "string" ? input.description.trim() : "";
+  if (!description || Array.from(description).length > 100) {
+    throw new Error(`徽章 ${id} 的说明应为 1-100 字`);
+  }
+  const icon = typeof input.icon === "string" ? input.icon.trim() : "";
+  if (!icon || Array.from(icon).length > 8) {
+    throw new Error(`徽章 ${id} 的图标无效`);
+  }
+
+  let requirement: BadgeRequirement;
+  try {
+    requirement = parseBadgeRequirement(input.requirement);
+  } catch (error) {
+    throw new Error(`徽章 ${id}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const activeFrom = input.activeFrom ?? null;
+  const activeTo = input.activeTo ?? null;
+  for (const date of [activeFrom, activeTo]) {
+    if (date !== null && (typeof date !== "string" || !DATE_PATTERN.test(date))) {
+      throw new Error(`徽章 ${id} 的有效期日期格式应为 YYYY-MM-DD`);
+    }
+  }
+  if (activeFrom && activeTo && activeFrom > activeTo) {
+    throw new Error(`徽章 ${id} 的开始日期晚于结束日期`);
+  }
+
+  return {
+    id,
+    name,
+    description,
+    icon,
+    requirement,
+    activeFrom: activeFrom as string | null,
+    activeTo: activeTo as string | null,
+    retiredAt: typeof input.retiredAt === "string" ? input.retiredAt : null,
+  };
+}
+
+/**
+ * 校验徽章定义列表
+ * @param badges - 徽章定义列表
+ * @throws Error - 任一定义无效或 ID 重复时抛出异常
+ */
+export function validateBadgeDefinitions(badges: BadgeDefinition[]): void {
+  const ids = new Set<string>();
+  badges.forEach((badge) => {
+    validateBadgeDefinition(badge);
+    if (ids.has(badge.id)) {
+      throw new Error(`徽章 ${badge.id} 重复`);
+    }
+    ids.add(badge.id);
+  });
+}
+
+// 加载时校验默认定义，配置错误在启动阶段暴露
+validateBadgeDefinitions(DEFAULT_BADGE_DEFINITIONS);
+
+/**
+ * 把数据表中的一行转换为徽章定义
+ */
+function fromRow(row: Record<string, unknown>): BadgeDefinition {
+  return validateBadgeDefinition({
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    icon: row.icon,
+    requirement: JSON.parse(String(row.requirement)),
+    activeFrom: row.active_from ?? null,
+    activeTo: row.active_to ?? null,
+    retiredAt: row.retired_at ?? null,
+  });
+}
+
+/**
+ * 读取全部徽章定义（含已下线的徽章）
+ * @returns 徽章定义列表；表为空或读取失败时返回默认定义
+ */
+export async function loadBadgeDefinitions(): Promise<BadgeDefinition[]> {
+  if (cache && cache.expiresAt > Date.now()) {
+    return cache.badges;
+  }
+
+  let badges: BadgeDefinition[] = [];
+  try {
+    const rows = await badgeDb.listBadges();
+    for (const row of rows) {
+      try {
+        badges.push(fromRow(row));
+      } catch (error) {
+        console.error(`徽章定义 ${String(row.id)} 无效，已跳过:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("读取徽章定义失败，使用默认定义:", error);
+    return DEFAULT_BADGE_DEFINITIONS;
+  }
+
+  if (badges.length === 0) {
+    badges = DEFAULT_BADGE_DEFINITIONS;
+  }
+  cache = { badges, expiresAt: Date.now() + CACHE_TTL_MS };
+  return badges;
+}
+
+/**
+ * 清除徽章定义缓存（管理接口修改后调用）
+ */
+export function invalidateBadgeCache(): void {
+  cache = null;
+}
+
+/**
+ * 判断徽章当前是否可以获得（未下线且在有效期内）
+ * @param badge - 徽章定义
+ * @param date - 日期（默认北京时间今天）
+ */
+export function isBadgeActive(badge: BadgeDefinition, date: string = getChinaDateString()): boolean {
+  if (badge.retiredAt) return false;
+  if (badge.activeFrom && date < badge.activeFrom) return false;
+  if (badge.activeTo && date > badge.activeTo) return false;
+  return true;
+}
@@ -0,0 +1,151 @@
+import { kv } from '@vercel/kv';
+import { createHash } from 'crypto';
+
+/**
+ * 模板模式祝福语缓存
+ * 模板模式的提示词完全由 场合 × 对象 × 风格 × 用户群 决定，节日高峰期大量用户请求同一组合。
+ * 每个提示词哈希对应一个轮换的祝福语池，按用户返回其未看过的条目，
+ * 只有池中条目全部看过或池已过期时才调用 AI 供应商。
+ */
+
+/**
+ * 缓存配置
+ */
+const BLESSING_CACHE_CONFIG = {
+  poolSize: Number(process.env.BLESSING_CACHE_POOL_SIZE) || 8,           // 每个提示词最多保留的祝福语条数
+  ttlSeconds: Number(process.env.BLESSING_CACHE_TTL) || 7 * 24 * 60 * 60, // 池的有效期（秒），过期后整体重建
+  seenTtlSeconds: 30 * 24 * 60 * 60,                                      // 用户已看记录的保留时间（秒）
+};
+
+/**
+ * 祝福语池
+ */
+interface BlessingPool {
+  blessings: string[];  // 按加入顺序排列，超出容量时淘汰最早的条目
+  createdAt: number;    // 池创建时间（秒），用于判断是否过期
+}
+
+/**
+ * KV 不可用时的内存存储（与速率限制的降级策略一致）
+ */
+const memoryStore = new Map<string, { value: unknown; expiresAt: number }>();
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function poolKey(hash: string): string {
+  return `blessing_cache:pool:${hash}`;
+}
+
+function seenKey(hash: string, userKey: string): string {
+  return `blessing_cache:seen:${hash}:${userKey}`;
+}
+
+/**
+ * 读取缓存值，KV 失败时降级到内存
+ */
+async function readValue<T>(key: string): Promise<T | null> {
+  try {
+    return (await kv.get<T>(key)) ?? null;
+  } catch (error) {
+    console.error('读取祝福语缓存失败:', error);
+    const cached = memoryStore.get(key);
+    if (!cached || cached.expiresAt <= nowSeconds()) {
+      memoryStore.delete(key);
+      return null;
+    }
+    return cached.value as T;
+  }
+}
+
+/**
+ * 写入缓存值，KV 失败时降级到内存
+ */
+async function writeValue(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+  try {
+    await kv.set(key, value, { ex: ttlSeconds });
+  } catch (error) {
+    console.error('写入祝福语缓存失败:', error);
+    memoryStore.set(key, { value, expiresAt: nowSeconds() + ttlSeconds });
+  }
+}
+
+/**
+ * 计算提示词的缓存键
+ * 归一化空白字符后取 SHA-256，避免缩进或换行差异导致缓存失效
+ * @param prompt - 完整的提示词
+ * @returns 提示词哈希
+ */
+export function getPromptHash(prompt: string): string {
+  const normalized = prompt.trim().replace(/\s+/g, ' ');
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+/**
+ * 判断池是否仍在有效期内
+ */
+function isFresh(pool: BlessingPool | null): pool is BlessingPool {
+  return !!pool && nowSeconds() - pool.createdAt < BLESSING_CACHE_CONFIG.ttlSeconds;
+}
+
+/**
+ * 从缓存池中取出一条该用户未看过的祝福语
+ * 命中时会把该条目记为已看
+ * @param prompt - 完整的提示词
+ * @param userKey - 用户标识（openid）
+ * @returns 随机的未看过条目；池已过期或全部看过时返回 null
+ */
+export async function takeCachedBlessing(prompt: string, userKey: string): Promise<string | null> {
+  const hash = getPromptHash(prompt);
+  const pool = await readValue<BlessingPool>(poolKey(hash));
+  if (!isFresh(pool)) {
+    return null;
+  }
+
+  const seen = (await readValue<string[]>(seenKey(hash, userKey))) ?? [];
+  const unseen = pool.blessings.filter((blessing) => !seen.includes(blessing));
+  if (unseen.length === 0) {
+    return null;
+  }
+
+  const blessing = unseen[Math.floor(Math.random() * unseen.length)];
+  await writeValue(seenKey(hash, userKey), [...seen, blessing], BLESSING_CACHE_CONFIG.seenTtlSeconds);
+  return blessing;
+}
+
+/**
+ * 把新生成的祝福语加入缓存池，并记为该用户已看
+ * 池已过期时重新建池；超出容量时淘汰最早的条目
+ * @param prompt - 完整的提示词
+ * @param userKey - 用户标识（openid）
+ * @param blessing - 新生成的祝福语
+ */
+export async function storeBlessing(prompt: string, userKey: string, blessing: string): Promise<void> {
+  const hash = getPromptHash(prompt);
+  const current = await readValue<BlessingPool>(poolKey(hash));
+  const pool: BlessingPool = isFresh(current) ? current : { blessings: [], createdAt: nowSeconds() };
+
+  if (!pool.blessings.includes(blessing)) {
+    pool.blessings = [...pool.blessings, blessing].slice(-BLESSING_CACHE_CONFIG.poolSize);
+  }
+
+  // 池的过期时间跟随创建时间，避免新条目不断续期导致内容长期不更新
+  const remaining = Math.max(1, pool.createdAt + BLESSING_CACHE_CONFIG.ttlSeconds - nowSeconds());
+  await writeValue(poolKey(hash), pool, remaining);
+
+  const seen = (await readValue<string[]>(seenKey(hash, userKey))) ?? [];
+  if (!seen.includes(blessing)) {
+    await writeValue(seenKey(hash, userKey), [...seen, blessing], BLESSING_CACHE_CONFIG.seenTtlSeconds);
+  }
+}
+
+/**
+ * 判断请求是否可以使用缓存
+ * 智能模式（自定义描述）的提示词因人而异，不走缓存
+ * @param options - 祝福语请求参数
+ * @returns 是否为可缓存的模板模式请求
+ */
+export function isCacheableRequest(options: { useSmartMode?: boolean; customDescription?: string }): boolean {
+  return !(options.useSmartMode && options.customDescription?.trim());
+}
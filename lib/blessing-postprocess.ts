@@ -0,0 +1,217 @@
+import { createBlessingCorrectionPrompt, getBlessingLengthRange } from "@/lib/prompt-templates";
+
+/**
+ * 祝福语输出后处理
+ * 模型经常在正文前后附带「好的，以下是祝福语：」之类的开场白、markdown 引用或字数说明，
+ * 这里统一清理，并按用户群校验字数；不符合要求时用纠正提示词自动重试一次。
+ */
+
+type UserProfile = 'elderly' | 'standard' | 'young';
+
+/**
+ * 清理后仍不满足的约束
+ */
+export type BlessingViolation = 'empty' | 'too_short' | 'too_long';
+
+/**
+ * 后处理结果
+ */
+export interface BlessingCheckResult {
+  text: string;                     // 清理后的祝福语
+  length: number;                   // 字数（不含空白）
+  violations: BlessingViolation[];  // 未满足的约束
+}
+
+// 正文前的开场白，如「好的，以下是为您准备的祝福语：」「祝福语：」
+const PREAMBLE_PATTERN =
+  /^(?:(?:好的|当然|没问题|可以|收到)[，,！!。\s]*)?(?:(?:以下|下面)[^：:\n]{0,20}|这是(?:一段|一条|为您|给您)[^：:\n]{0,16}|(?:为您|给您)(?:准备|写|创作|生成)[^：:\n]{0,16}|祝福语(?:如下)?)[：:]\s*/;
+
+// 正文后的附加说明，如「（共68字）」「希望这段祝福语能……」
+const TRAILING_NOTE_PATTERNS = [
+  /[（(]\s*(?:共|约|字数)[^）)]*字[^）)]*[）)]\s*$/,
+  /\n+\s*(?:希望|以上|如需|如果您|字数)[^\n]*$/,
+];
+
+// emoji 及其修饰符（使用构造函数以兼容 ES5 编译目标）
+const EMOJI_PATTERN = new RegExp("[\\p{Extended_Pictographic}\\u{1F3FB}-\\u{1F3FF}\\u200d\\ufe0f]", "gu");
+
+// 句末标点，用于超长时按整句截断
+const SENTENCE_END = /[。！？!?]/;
+
+/**
+ * 统计字数（不含空白）
+ * @param text - 祝福语
+ * @returns 字数
+ */
+export function countBlessingLength(text: string): number {
+  return Array.from(text.replace(/\s/g, "")).length;
+}
+
+/**
+ * 去除开场白、markdown 标记和首尾引号
+ * @param raw - AI 原始输出
+ * @returns 清理后的正文
+ */
+export function stripBlessingArtifacts(raw: string): string {
+  let text = raw
+    .replace(/```[a-z]*\n?/gi, "")             // 代码块标记
+    .replace(/^\s*#{1,6}\s+.*$/gm, "")         // 标题行
+    .replace(/^\s*>\s?/gm, "")                 // 引用
+    .replace(/\*\*|__|\*/g, "")                // 加粗、斜体
+    .replace(/^\s*(?:[-*•]|\d+[.、])\s+/gm, "") // 列表标记
+    .trim();
+
+  text = text.replace(PREAMBLE_PATTERN, "").trim();
+  for (const pattern of TRAILING_NOTE_PATTERNS) {
+    text = text.replace(pattern, "").trim();
+  }
+
+  // 去掉包裹整段正文的引号
+  text = text.replace(/^["“「『]([\s\S]*)["”」』]$/, "$1").trim();
+
+  return text.replace(/\n{3,}/g, "\n\n");
+}
+
+/**
+ * 去除 emoji
+ * @param text - 祝福语
+ * @returns 不含 emoji 的文本
+ */
+export function removeEmoji(text: string): string {
+  return text.replace(EMOJI_PATTERN, "").replace(/[ \t]{2,}/g, " ").trim();
+}
+
+/**
+ * 清理并校验一段祝福语
+ * 长辈模式会额外去除 emoji
+ * @param raw - AI 原始输出
+ * @param userProfile - 用户群类型
+ * @returns 清理后的文本与未满足的约束
+ */
+export function checkBlessing(raw: string, userProfile?: UserProfile): BlessingCheckResult {
+  let text = stripBlessingArtifacts(raw);
+  if (userProfile === 'elderly') {
+    text = removeEmoji(text);
+  }
+
+  const { min, max } = getBlessingLengthRange(userProfile);
+  const length = countBlessingLength(text);
+  const violations: BlessingViolation[] = [];
+
+  if (length === 0) {
+    violations.push('empty');
+  } else if (length < min) {
+    violations.push('too_short');
+  } else if (length > max) {
+    violations.push('too_long');
+  }
+
+  return { text, length, violations };
+}
+
+/**
+ * 把超长的祝福语截断到字数上限以内
+ * 优先在句末标点处截断，找不到合适位置时直接截断并补句号
+ * @param text - 祝福语
+ * @param max - 字数上限
+ * @returns 截断后的文本
+ */
+export function fitLengthBudget(text: string, max: number): string {
+  if (countBlessingLength(text) <= max) {
+    return text;
+  }
+
+  const chars = Array.from(text);
+  let counted = 0;
+  let cut = 0;
+  let lastSentenceEnd = -1;
+
+  for (let i = 0; i < chars.length && counted < max; i++) {
+    if (!/\s/.test(chars[i])) counted++;
+    if (SENTENCE_END.test(chars[i])) lastSentenceEnd = i;
+    cut = i + 1;
+  }
+
+  // 至少保留一半内容才按整句截断，否则宁可截在句中
+  if (lastSentenceEnd >= 0 && lastSentenceEnd + 1 >= cut / 2) {
+    return chars.slice(0, lastSentenceEnd + 1).join("").trim();
+  }
+  return chars.slice(0, cut - 1).join("").replace(/[，、；：,;:\s]+$/, "") + "。";
+}
+
+/**
+ * 清理一段祝福语并截断到字数上限，不做重试（用于多候选等批量场景）
+ * @param raw - AI 原始输出
+ * @param userProfile - 用户群类型
+ * @returns 清理后的祝福语，没有正文时返回空字符串
+ */
+export function polishBlessing(raw: string, userProfile?: UserProfile): string {
+  const { text } = checkBlessing(raw, userProfile);
+  return text ? fitLengthBudget(text, getBlessingLengthRange(userProfile).max) : "";
+}
+
+/**
+ * 把约束描述成纠正提示词中的具体问题
+ */
+function describeViolations(result: BlessingCheckResult, userProfile?: UserProfile): string[] {
+  const { min, max } = getBlessingLengthRange(userProfile);
+  const problems = result.violations.map((violation) => {
+    switch (violation) {
+      case 'empty':
+        return '没有输出祝福语正文';
+      case 'too_short':
+        return `只有 ${result.length} 字，少于要求的 ${min} 字，请适当充实内容`;
+      case 'too_long':
+        return `有 ${result.length} 字，超过了 ${max} 字的上限，请精简`;
+    }
+  });
+  if (userProfile === 'elderly') {
+    problems.push('面向长辈，不要使用 emoji 表情');
+  }
+  return problems;
+}
+
+/**
+ * 结果与字数要求的差距（超长可以截断，视为无差距）
+ */
+function lengthGap(result: BlessingCheckResult, userProfile?: UserProfile): number {
+  if (result.violations.includes('empty')) return Infinity;
+  if (result.violations.includes('too_short')) return getBlessingLengthRange(userProfile).min - result.length;
+  return 0;
+}
+
+/**
+ * 对生成结果做后处理，不符合要求时用纠正提示词重试一次
+ * 两次都不满足时保留更接近要求的结果，超长的部分按整句截断
+ * @param raw - 首次生成的原始输出
+ * @param prompt - 首次生成使用的提示词
+ * @param userProfile - 用户群类型
+ * @param generate - 重试时调用的生成函数
+ * @returns 最终的祝福语
+ * @throws Error - 两次都没有得到正文或重试调用失败时抛出异常
+ */
+export async function finalizeBlessing(
+  raw: string,
+  prompt: string,
+  userProfile: UserProfile | undefined,
+  generate: (prompt: string) => Promise<string>
+): Promise<string> {
+  let result = checkBlessing(raw, userProfile);
+
+  if (result.violations.length > 0) {
+    console.warn('祝福语不符合要求，使用纠正提示词重试:', result.violations);
+    const retry = checkBlessing(
+      await generate(createBlessingCorrectionPrompt(prompt, result.text, describeViolations(result, userProfile))),
+      userProfile
+    );
+    if (lengthGap(retry, userProfile) <= lengthGap(result, userProfile)) {
+      result = retry;
+    }
+  }
+
+  if (!result.text) {
+    throw new Error('生成失败，请重试');
+  }
+
+  return fitLengthBudget(result.text, getBlessingLengthRange(userProfile).max);
+}
@@ -0,0 +1,69 @@
+/**
+ * 多候选祝福语相关工具
+ * 一次请求生成 3-5 条风格各异的候选，减少用户反复「重新生成」消耗的额度
+ */
+
+export const VARIANT_LIMITS = { min: 3, max: 5 };
+
+/**
+ * 解析请求中的候选数量
+ * @param value - 请求体中的 variants / n 参数
+ * @returns 限定在 3-5 之间的候选数量；未请求多候选时返回 null
+ */
+export function resolveVariantCount(value: unknown): number | null {
+  const count = Number(value);
+  if (value === undefined || value === null || !Number.isFinite(count) || count <= 1) {
+    return null;
+  }
+  return Math.min(VARIANT_LIMITS.max, Math.max(VARIANT_LIMITS.min, Math.floor(count)));
+}
+
+/**
+ * 清理单条候选的首尾引号、序号等多余字符
+ */
+function cleanVariant(text: string): string {
+  return text
+    .trim()
+    .replace(/^(\d+[.、)）]|[-*•])\s*/, "")
+    .replace(/^["“「『]|["”」』]$/g, "")
+    .trim();
+}
+
+/**
+ * 解析 AI 返回的多候选结果
+ * 优先按 JSON 字符串数组解析，失败时按行拆分（兼容带序号的列表输出）
+ * @param raw - AI 原始输出
+ * @param count - 期望的候选数量
+ * @returns 去重后的候选列表（最多 count 条）
+ */
+export function parseBlessingVariants(raw: string, count: number): string[] {
+  let items: string[] = [];
+
+  const jsonMatch = raw.match(/\[[\s\S]*\]/);
+  if (jsonMatch) {
+    try {
+      const parsed = JSON.parse(jsonMatch[0]);
+      if (Array.isArray(parsed)) {
+        items = parsed.filter((item): item is string => typeof item === "string");
+      }
+    } catch {
+      items = [];
+    }
+  }
+
+  if (items.length === 0) {
+    items = raw.split("\n");
+  }
+
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const item of items) {
+    const text = cleanVariant(item);
+    if (text && !seen.has(text)) {
+      seen.add(text);
+      result.push(text);
+    }
+  }
+
+  return result.slice(0, count);
+}
@@ -0,0 +1,246 @@
+import { kv } from '@vercel/kv';
+import axios from 'axios';
+
+/**
+ * 熔断器配置
+ */
+const CIRCUIT_CONFIG = {
+  failureThreshold: Number(process.env.AI_CIRCUIT_FAILURE_THRESHOLD) || 3, // 连续失败次数阈值
+  errorRateThreshold: 0.5,   // 统计窗口内 5xx/超时占比阈值
+  minRequests: 10,           // 统计窗口内至少多少次请求才按比例判断
+  windowSeconds: 60,         // 统计窗口（秒）
+  cooldownSeconds: Number(process.env.AI_CIRCUIT_COOLDOWN) || 30, // 熔断后冷却时间（秒）
+};
+
+/**
+ * 熔断器状态
+ * - closed：正常放行
+ * - open：熔断中，直接跳过该供应商
+ * - half_open：冷却结束，放行一个探测请求
+ */
+export type CircuitStatus = 'closed' | 'open' | 'half_open';
+
+/**
+ * 单个供应商的熔断器状态数据
+ */
+export interface CircuitState {
+  status: CircuitStatus;
+  consecutiveFailures: number;   // 连续失败次数
+  windowStart: number;           // 当前统计窗口开始时间（秒）
+  windowRequests: number;        // 窗口内请求数
+  windowFailures: number;        // 窗口内 5xx/超时次数
+  openedAt: number | null;       // 最近一次熔断时间（秒）
+  probeStartedAt: number | null; // 半开状态下探测请求开始时间（秒）
+  lastError: string | null;      // 最近一次错误信息
+  lastFailureAt: number | null;  // 最近一次失败时间（秒）
+  lastSuccessAt: number | null;  // 最近一次成功时间（秒）
+}
+
+/**
+ * KV 不可用时的内存存储（与速率限制的降级策略一致）
+ */
+const memoryStates = new Map<string, CircuitState>();
+
+function circuitKey(provider: string): string {
+  return `ai_circuit:${provider}`;
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function createInitialState(): CircuitState {
+  return {
+    status: 'closed',
+    consecutiveFailures: 0,
+    windowStart: nowSeconds(),
+    windowRequests: 0,
+    windowFailures: 0,
+    openedAt: null,
+    probeStartedAt: null,
+    lastError: null,
+    lastFailureAt: null,
+    lastSuccessAt: null,
+  };
+}
+
+/**
+ * 读取熔断器状态，KV 失败时降级到内存
+ */
+async function readState(provider: string): Promise<CircuitState> {
+  try {
+    const state = await kv.get<CircuitState>(circuitKey(provider));
+    return state ?? createInitialState();
+  } catch (error) {
+    console.error('读取熔断器状态失败:', error);
+    return memoryStates.get(provider) ?? createInitialState();
+  }
+}
+
+/**
+ * 写入熔断器状态，KV 失败时降级到内存
+ */
+async function writeState(provider: string, state: CircuitState): Promise<void> {
+  try {
+    await kv.set(circuitKey(provider), state, { ex: 24 * 60 * 60 });
+  } catch (error) {
+    console.error('写入熔断器状态失败:', error);
+    memoryStates.set(provider, state);
+  }
+}
+
+/**
+ * 超出统计窗口时重置窗口计数
+ */
+function rollWindow(state: CircuitState, now: number): CircuitState {
+  if (now - state.windowStart < CIRCUIT_CONFIG.windowSeconds) {
+    return state;
+  }
+  return { ...state, windowStart: now, windowRequests: 0, windowFailures: 0 };
+}
+
+/**
+ * 判断错误是否计入故障率（5xx、超时或网络错误）
+ * 4xx（如密钥错误、限流）不代表供应商宕机，只计入连续失败次数
+ */
+export function isProviderFault(error: unknown): boolean {
+  if (axios.isAxiosError(error)) {
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') return true;
+    const status = error.response?.status;
+    return status === undefined || status >= 500;
+  }
+  return true;
+}
+
+/**
+ * 判断当前是否允许请求该供应商
+ * 熔断冷却结束后转为半开状态，只放行一个探测请求
+ * @param provider - 供应商名称
+ * @returns 是否允许请求
+ */
+export async function canRequest(provider: string): Promise<boolean> {
+  const state = await readState(provider);
+  const now = nowSeconds();
+
+  if (state.status === 'closed') {
+    return true;
+  }
+
+  if (state.status === 'open') {
+    if (state.openedAt !== null && now - state.openedAt < CIRCUIT_CONFIG.cooldownSeconds) {
+      return false;
+    }
+    await writeState(provider, { ...state, status: 'half_open', probeStartedAt: now });
+    return true;
+  }
+
+  // 半开状态：已有探测请求在进行中则跳过，探测超时未回报则重新放行
+  if (state.probeStartedAt !== null && now - state.probeStartedAt < CIRCUIT_CONFIG.cooldownSeconds) {
+    return false;
+  }
+  await writeState(provider, { ...state, probeStartedAt: now });
+  return true;
+}
+
+/**
+ * 记录一次成功调用，熔断器恢复为关闭状态
+ * @param provider - 供应商名称
+ */
+export async function recordSuccess(provider: string): Promise<void> {
+  const now = nowSeconds();
+  const state = rollWindow(await readState(provider), now);
+
+  await writeState(provider, {
+    ...state,
+    status: 'closed',
+    consecutiveFailures: 0,
+    windowRequests: state.windowRequests + 1,
+    openedAt: null,
+    probeStartedAt: null,
+    lastSuccessAt: now,
+  });
+}
+
+/**
+ * 记录一次失败调用，达到阈值或半开探测失败时熔断
+ * @param provider - 供应商名称
+ * @param error - 调用失败的异常
+ */
+export async function recordFailure(provider: string, error: unknown): Promise<void> {
+  const now = nowSeconds();
+  const state = rollWindow(await readState(provider), now);
+
+  const next: CircuitState = {
+    ...state,
+    consecutiveFailures: state.consecutiveFailures + 1,
+    windowRequests: state.windowRequests + 1,
+    windowFailures: state.windowFailures + (isProviderFault(error) ? 1 : 0),
+    lastError: error instanceof Error ? error.message : String(error),
+    lastFailureAt: now,
+  };
+
+  const rateTripped =
+    next.windowRequests >= CIRCUIT_CONFIG.minRequests &&
+    next.windowFailures / next.windowRequests >= CIRCUIT_CONFIG.errorRateThreshold;
+
+  if (
+    state.status === 'half_open' ||
+    next.consecutiveFailures >= CIRCUIT_CONFIG.failureThreshold ||
+    rateTripped
+  ) {
+    if (state.status !== 'open') {
+      console.warn(`AI供应商 ${provider} 已熔断，${CIRCUIT_CONFIG.cooldownSeconds} 秒后重试`);
+    }
+    next.status = 'open';
+    next.openedAt = now;
+    next.probeStartedAt = null;
+  }
+
+  await writeState(provider, next);
+}
+
+/**
+ * 供应商健康状态（用于管理接口展示）
+ */
+export interface ProviderHealth {
+  status: CircuitStatus;
+  consecutiveFailures: number;
+  failureRate: number;         // 当前窗口内 5xx/超时占比
+  windowRequests: number;
+  retryAt: string | null;      // 熔断状态下预计恢复探测的时间
+  lastError: string | null;
+  lastFailureAt: string | null;
+  lastSuccessAt: string | null;
+}
+
+/**
+ * 获取供应商健康状态
+ * @param provider - 供应商名称
+ * @returns 健康状态
+ */
+export async function getProviderHealth(provider: string): Promise<ProviderHealth> {
+  const state = rollWindow(await readState(provider), nowSeconds());
+  const toISO = (seconds: number | null) => (seconds === null ? null : new Date(seconds * 1000).toISOString());
+
+  return {
+    status: state.status,
+    consecutiveFailures: state.consecutiveFailures,
+    failureRate: state.windowRequests > 0 ? state.windowFailures / state.windowRequests : 0,
+    windowRequests: state.windowRequests,
+    retryAt:
+      state.status === 'open' && state.openedAt !== null
+        ? toISO(state.openedAt + CIRCUIT_CONFIG.cooldownSeconds)
+        : null,
+    lastError: state.lastError,
+    lastFailureAt: toISO(state.lastFailureAt),
+    lastSuccessAt: toISO(state.lastSuccessAt),
+  };
+}
+
+/**
+ * 手动重置供应商熔断器
+ * @param provider - 供应商名称
+ */
+export async function resetCircuit(provider: string): Promise<void> {
+  await writeState(provider, createInitialState());
+}
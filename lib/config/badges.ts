@@ -0,0 +1,112 @@
+/**
+ * 成就徽章默认定义
+ * 徽章定义保存在 badge_definitions 表中，可通过管理接口新增或下线（见 lib/badge-registry.ts）；
+ * 这里的列表用于迁移脚本初始化数据，以及数据表为空或不可用时兜底。
+ */
+
+/**
+ * 只需要一个目标数值的条件类型
+ */
+export type BadgeCountRequirementType =
+  | 'first_3_star'    // 获得 3 星及以上评分的对联数
+  | 'total_couplets'  // 完成的对联数
+  | 'total_shares'    // 累计分享次数
+  | 'viral_share'     // 单个对联的最高分享次数
+  | 'daily_streak';   // 每日挑战最长连续天数
+
+/**
+ * 徽章达成条件
+ */
+export type BadgeRequirement =
+  | { type: BadgeCountRequirementType; value: number }
+  | { type: 'avg_score'; value: number; minCount: number }  // 平均分（需至少完成 minCount 个）
+  | { type: 'theme_count'; value: number; theme: string };  // 指定主题的对联数
+
+export type BadgeRequirementType = BadgeRequirement['type'];
+
+/**
+ * 徽章定义
+ */
+export interface BadgeDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  requirement: BadgeRequirement;
+  activeFrom?: string | null;  // 限时徽章的开始日期（北京时间，YYYY-MM-DD，含当天）
+  activeTo?: string | null;    // 限时徽章的结束日期（含当天）
+  retiredAt?: string | null;   // 下线时间；已下线的徽章不再评估，已解锁的用户仍可查看
+}
+
+export const DEFAULT_BADGE_DEFINITIONS: BadgeDefinition[] = [
+  {
+    id: "novice",
+    name: "新手对联师",
+    description: "完成首个3星评分的下联",
+    icon: "🌟",
+    requirement: { type: "first_3_star", value: 1 },
+  },
+  {
+    id: "enthusiast",
+    name: "对联爱好者",
+    description: "累计完成5个对联",
+    icon: "⭐",
+    requirement: { type: "total_couplets", value: 5 },
+  },
+  {
+    id: "master",
+    name: "对联大师",
+    description: "5个对联平均分≥4星",
+    icon: "⭐⭐",
+    requirement: { type: "avg_score", value: 4, minCount: 5 },
+  },
+  {
+    id: "sharing_expert",
+    name: "分享达人",
+    description: "分享10次对联",
+    icon: "🎁",
+    requirement: { type: "total_shares", value: 10 },
+  },
+  {
+    id: "spring_expert",
+    name: "春节达人",
+    description: "春节主题对联≥5个",
+    icon: "🧧",
+    requirement: { type: "theme_count", value: 5, theme: "春节" },
+  },
+  {
+    id: "lantern_expert",
+    name: "元宵达人",
+    description: "元宵主题对联≥5个",
+    icon: "🏮",
+    requirement: { type: "theme_count", value: 5, theme: "元宵" },
+  },
+  {
+    id: "viral",
+    name: "炸裂分享",
+    description: "某个对联被分享≥5次",
+    icon: "🚀",
+    requirement: { type: "viral_share", value: 5 },
+  },
+  {
+    id: "streak_3",
+    name: "三日不辍",
+    description: "连续3天完成每日挑战",
+    icon: "🔥",
+    requirement: { type: "daily_streak", value: 3 },
+  },
+  {
+    id: "streak_7",
+    name: "七日连珠",
+    description: "连续7天完成每日挑战",
+    icon: "📅",
+    requirement: { type: "daily_streak", value: 7 },
+  },
+  {
+    id: "streak_30",
+    name: "月满华章",
+    description: "连续30天完成每日挑战",
+    icon: "🏆",
+    requirement: { type: "daily_streak", value: 30 },
+  },
+];
@@ -0,0 +1,73 @@
+/**
+ * 每日挑战主题日历
+ * 节日前后若干天使用节日主题，其余日子按日期轮换常规主题。
+ * 农历节日的公历日期逐年不同，需按年份维护；表中没有的年份只会使用固定日期节日与常规主题。
+ */
+
+/**
+ * 节日主题规则
+ */
+export interface CalendarFestival {
+  theme: string;
+  dates: string[];  // 节日当天（YYYY-MM-DD）；固定日期节日写作 MM-DD，每年生效
+  before: number;   // 节日前几天开始使用该主题
+  after: number;    // 节日后几天仍使用该主题
+}
+
+export const CALENDAR_FESTIVALS: CalendarFestival[] = [
+  {
+    // 春节周：除夕到正月初六
+    theme: '春节',
+    dates: ['2026-02-17', '2027-02-06', '2028-01-26', '2029-02-13', '2030-02-03'],
+    before: 1,
+    after: 6,
+  },
+  {
+    theme: '元宵',
+    dates: ['2026-03-03', '2027-02-20', '2028-02-09', '2029-02-27', '2030-02-17'],
+    before: 1,
+    after: 0,
+  },
+  {
+    theme: '端午',
+    dates: ['2026-06-19', '2027-06-09', '2028-05-28', '2029-06-16', '2030-06-05'],
+    before: 1,
+    after: 1,
+  },
+  {
+    theme: '中秋',
+    dates: ['2026-09-25', '2027-09-15', '2028-10-03', '2029-09-22', '2030-09-12'],
+    before: 1,
+    after: 1,
+  },
+  {
+    // 重阳敬老，沿用贺寿主题
+    theme: '贺寿',
+    dates: ['2026-10-18', '2027-10-08', '2028-10-26', '2029-10-16', '2030-10-05'],
+    before: 0,
+    after: 0,
+  },
+  { theme: '元旦', dates: ['01-01'], before: 1, after: 0 },
+  { theme: '国庆', dates: ['10-01'], before: 0, after: 6 },
+];
+
+// 非节日期间按日期轮换的常规主题
+export const ROUTINE_THEMES = ['日常', '乔迁', '日常', '贺寿'];
+
+// 按星期几确定难度（0 为周日）：周初简单，周末最难
+export const WEEKDAY_DIFFICULTY: Array<'simple' | 'medium' | 'hard'> = [
+  'hard', 'simple', 'simple', 'medium', 'medium', 'medium', 'hard',
+];
+
+// AI 生成失败时的备用上联
+export const FALLBACK_UPPER_LINES: Record<string, string[]> = {
+  '春节': ['新春到来百花艳', '爆竹声声辞旧岁', '春回大地千山秀'],
+  '元宵': ['灯谜烁烁春宵明', '月圆灯火映千家'],
+  '贺寿': ['寿星耀彩百年康', '松鹤延年福寿长'],
+  '乔迁': ['新居落成家业昌', '乔迁新宅添百福'],
+  '端午': ['艾叶飘香龙舟竞', '粽香万户端阳到'],
+  '中秋': ['月到中秋分外明', '桂香千里月团圆'],
+  '国庆': ['山河锦绣迎国庆', '金秋十月喜气扬'],
+  '元旦': ['元旦迎新千户喜', '新年伊始百花开'],
+  '日常': ['岁月如歌人生长', '清风明月入窗来', '书香满室伴晨昏'],
+};
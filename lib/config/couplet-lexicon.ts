@@ -0,0 +1,73 @@
+/**
+ * 对联格律分析用字表
+ * 声调按《中华通韵》（普通话四声）归类：阴平、阳平为平，上声、去声为仄，古入声字按今读归类；
+ * 多音字只收常用读音无歧义的字，表外字在分析中记为「未知」，不参与判定。
+ * 词性为单字最常见的用法，只用于上下联逐字对仗的粗略判断。
+ */
+
+/**
+ * 单字词性
+ */
+export type CoupletPartOfSpeech = 'noun' | 'verb' | 'adjective' | 'numeral' | 'direction' | 'function';
+
+// 平声字
+export const PING_CHARS = [
+  '天春风花山江河湖人家门祥年新欢腾红梅光辉声歌灯星云龙鸣迎丰盈安康宁和平荣华香晴芳',
+  '青松枝枫秋冬多佳诗书心情真诚欣扬飞田园村城乡楼台堂庭房窗莲荷桃兰竹菊茶泉波舟帆沙',
+  '滩峰崖林禾苗粮仓猪鸡羊牛鱼虾鹏鹰莺金银财钱元宵团圆吉朝霞阳晨时期辰中东西南高深清',
+  '明幽微初今来开添增呈生升登攀追飘流游吹吟弹听观瞻思知忧亲朋宾师兄姑妻儿孙翁婆爷妈',
+  '功勋才英雄豪贤忠仁恩慈温馨甘甜芬一三千七八十零黄蓝白黑浮逢临怀携连同留耕收传栽鲜',
+  '精殷勤之而其于如无皆还方将蛇石节国蝶福联贴锣狮乔迁居宅屋龄常活忙工学习读前间边头',
+  '身言音颜容姿隆达通发源招鸿亨昌桌床烛烟盘杯壶樽琴棋笙箫敲烹煎闻吞衔持扶舒张停行回',
+  '归随描求寻埋离斟酌德',
+].join('');
+
+// 仄声字
+export const ZE_CHARS = [
+  '地岁月日雨雪水海树草柳叶火土玉镜路岭谷野景色气意梦爱乐笑喜庆寿贺瑞顺泰旺富贵美好',
+  '秀丽锦绣灿烂耀照映绿紫翠碧暖冷静净远近满少小大老厚道志业事酒宴饭菜米麦稻果李杏桂',
+  '蕙鹊凤马鼠虎兔狗燕雁鸟舞唱跳送报到去返纳赏看望写画种养享祝谢进入过度渡起闹醉踏绽',
+  '放展引聚守续启降落闪户院舍府殿宇界世夜晚旦载代纪季早暮夏父母子女弟妹祖友客运绩誉',
+  '禄宝彩纸对字句韵赋墨笔砚不也以此在与自又更最已未且乃似若共万百四五六九二两几妙雅',
+  '俊壮伟盛茂艳亮快健永久广阔善孝露雾岸浪岳径蕊穗炮爆饺鼓作上下后左右里外内尾面手眼',
+  '体首口想念愿利室椅语貌态竞奏翅跃敬唤酿沐浴饮洒醒睡坐卧步赞颂咏柏鹤',
+].join('');
+
+// 单字词性表，一个字只归入一类
+export const POS_LEXICON: Record<CoupletPartOfSpeech, string> = {
+  // 名词（含时令、称谓）
+  noun: [
+    '天春风花山江河湖人家门年灯星云龙梅光辉声歌诗书心情松枝枫秋冬田园村城乡楼台堂庭房',
+    '窗莲荷桃兰竹菊茶泉波舟帆沙滩峰崖林禾苗粮仓猪鸡羊牛鱼虾鹏鹤鹰莺金银财钱元宵朝霞阳',
+    '晨时期辰亲朋宾师兄姑妻儿孙翁婆爷妈功勋才英雄豪贤仁恩慈福国节蝶蛇石联锣狮宅屋龄工',
+    '头身言音颜容姿源鸿烛烟桌床盘杯壶樽琴棋笙箫地岁月日雨雪水海树草柳叶火土玉镜路岭谷',
+    '野景色气意梦寿业事志道德酒宴饭菜米麦稻果李杏桂蕙鹊凤马鼠虎兔狗燕雁鸟户院舍府殿宇',
+    '界世夜晚旦载代纪季暮夏父母子女弟妹祖友客运绩誉禄宝彩纸对字句韵赋墨笔砚露雾岸浪岳',
+    '径蕊穗炮爆饺鼓尾面手眼体首口室椅语貌态翅柏步喜庆利锦绣乔隆亨昌华',
+  ].join(''),
+  // 动词
+  verb: [
+    '迎来开添增呈生升登攀追飘流游吹吟弹听观瞻思知忧飞扬腾鸣浮逢临怀携连留耕收传栽招发',
+    '达通贴迁居学习读写画舞唱跳送报到去返纳赏看望种养享祝贺谢进入过度渡起闹醉踏绽放展',
+    '引聚守续启降落闪照映耀作想念愿笑爱竞奏跃敬唤酿沐浴饮洒醒睡坐卧赞颂咏敲烹煎闻吞衔',
+    '持扶舒张停行回归随描求寻埋离斟酌活同',
+  ].join(''),
+  // 形容词（含颜色）
+  adjective: [
+    '红黄青蓝白黑绿紫翠碧新欢丰盈安康宁和平荣祥香晴芳多佳真诚欣深清明幽微高甘甜温馨鲜',
+    '精殷勤美好秀丽灿烂暖冷静净远近满少小大老厚妙雅俊壮伟盛茂旺艳亮快健永久广阔善孝富',
+    '贵顺泰瑞吉忠早忙团圆初今芬乐',
+  ].join(''),
+  // 数词
+  numeral: [
+    '一二三四五六七八九十百千万两零几双半',
+  ].join(''),
+  // 方位词
+  direction: [
+    '东西南北上下前后左右里外中内间边',
+  ].join(''),
+  // 虚词（副词、介词、连词、助词）
+  function: [
+    '之而其于如无皆还方将不也以此在与自又更最已未且乃似若共亦常',
+  ].join(''),
+};
@@ -7,6 +7,8 @@
 // 直接重新导出核心配置数据
 export { occasions, targetPersons, styles } from './occasions';
 export type { RecommendationItem } from './recommendations';
+export type { RefinePreset, RefinePresetKey } from './refine-presets';
+export { REFINE_PRESETS, resolveRefineInstruction } from './refine-presets';
 export { 
   popularCombinations, 
   getDateBasedRecommendations 
@@ -0,0 +1,69 @@
+/**
+ * 输出内容审核词库
+ * 分为全场景禁用词和按场合生效的忌讳词，新增词语直接在此文件维护
+ * 匹配时忽略空白字符；先移除 allowPhrases 中的固定搭配，避免「无病无灾」之类的吉祥话被误判
+ */
+
+/**
+ * 审核命中类别
+ */
+export type ModerationCategory = 'sensitive' | 'political' | 'vulgar' | 'inauspicious';
+
+/**
+ * 按场合生效的忌讳词组
+ * occasions 中任一名称出现在场合 / 节日 / 主题 / 用户描述中时，该组词语生效
+ */
+export interface OccasionTabooGroup {
+  occasions: string[];
+  terms: string[];
+}
+
+/**
+ * 审核词库结构
+ */
+export interface ModerationLexicon {
+  global: Record<Exclude<ModerationCategory, 'inauspicious'>, string[]>;
+  occasionTaboos: OccasionTabooGroup[];
+  allowPhrases: string[];
+}
+
+// 喜庆类场合（不含清明节、中元节等祭扫场合）
+const CELEBRATIONS = [
+  '春节', '元宵', '端午', '七夕', '中秋', '重阳', '元旦', '情人节', '妇女节', '母亲节', '父亲节',
+  '儿童节', '教师节', '国庆', '圣诞', '生日', '婚礼', '结婚', '毕业', '生子', '满月', '周年',
+  '升职', '开业', '获奖', '考试', '搬家', '乔迁', '退休', '贺寿', '祝寿', '寿辰',
+];
+
+export const MODERATION_LEXICON: ModerationLexicon = {
+  global: {
+    sensitive: ['自杀', '自残', '毒品', '吸毒', '赌博', '博彩', '色情', '约炮', '卖淫'],
+    political: ['台独', '藏独', '疆独', '港独', '法轮功', '六四', '反共', '颠覆政权'],
+    vulgar: ['他妈的', '妈的', '傻逼', '煞笔', '操你', '草泥马', '去死', '滚蛋', '王八蛋', '狗屎', '贱人'],
+  },
+  occasionTaboos: [
+    {
+      // 喜庆场合忌讳生死、丧葬、霉运及其谐音（送钟 = 送终）
+      occasions: CELEBRATIONS,
+      terms: ['死', '亡', '丧', '葬', '坟', '墓', '棺', '送钟', '送终', '临终', '晦气', '倒霉', '霉运', '灾难', '噩耗', '鬼'],
+    },
+    {
+      // 祝寿、生日、添丁忌讳疾病与衰老
+      occasions: ['生日', '贺寿', '祝寿', '寿辰', '重阳', '生子', '满月'],
+      terms: ['病', '癌', '老了', '衰老', '残', '短命', '夭'],
+    },
+    {
+      // 婚恋场合忌讳分离（送伞 = 散、分梨 = 分离）
+      occasions: ['婚礼', '结婚', '周年', '情人节', '七夕', '恋人', '夫妻'],
+      terms: ['离婚', '分手', '离别', '分离', '散伙', '拆散', '破裂', '送伞', '分梨', '出轨', '小三'],
+    },
+    {
+      // 开业、升职忌讳亏损倒闭
+      occasions: ['开业', '升职', '乔迁', '搬家'],
+      terms: ['倒闭', '破产', '亏本', '亏损', '关门', '赔钱', '失火', '火灾', '倒塌', '跌停'],
+    },
+  ],
+  allowPhrases: [
+    '无病无灾', '百病不侵', '病痛远离', '远离病痛', '祛病',
+    '死心塌地', '生死相依', '至死不渝', '鬼马', '机灵鬼', '永不分离',
+  ],
+};
@@ -0,0 +1,90 @@
+/**
+ * 积分兑换目录
+ * 兑换后发放对应权益：额外的每日生成次数（有效期内每天生效）、高级祝福语风格、对联卡片主题。
+ * 新增商品直接在此文件维护；已上线商品的 id 不要修改，兑换记录和权益按 id 关联。
+ */
+
+/**
+ * 权益类型
+ */
+export type EntitlementType = 'extra_daily_generations' | 'premium_style' | 'card_theme';
+
+/**
+ * 兑换后发放的权益
+ */
+export type RedemptionGrant =
+  | { type: 'extra_daily_generations'; amount: number; days: number }  // 有效期内每天额外增加的生成次数
+  | { type: 'premium_style'; style: string }                          // 永久解锁的祝福语风格
+  | { type: 'card_theme'; theme: string };                            // 永久解锁的对联卡片主题
+
+/**
+ * 兑换商品
+ */
+export interface RedemptionItem {
+  id: string;
+  name: string;
+  description: string;
+  cost: number;          // 所需积分
+  grant: RedemptionGrant;
+  repeatable: boolean;   // 是否可重复兑换（次数类权益可叠加，永久解锁类只能兑换一次）
+}
+
+/**
+ * 高级祝福语风格（需兑换后使用，value 直接作为提示词中的风格）
+ */
+export const PREMIUM_STYLES = [
+  { value: "藏头诗", label: "藏头诗" },
+  { value: "文言", label: "文言雅致" },
+];
+
+/**
+ * 对联卡片主题（default 为免费主题）
+ */
+export const CARD_THEMES = [
+  { value: "default", label: "经典红纸", premium: false },
+  { value: "gold_foil", label: "鎏金", premium: true },
+  { value: "ink_wash", label: "水墨", premium: true },
+];
+
+export const REDEMPTION_CATALOG: RedemptionItem[] = [
+  {
+    id: "extra_generations_20",
+    name: "生成次数加油包",
+    description: "7 天内每天额外增加 20 次祝福语生成",
+    cost: 100,
+    grant: { type: 'extra_daily_generations', amount: 20, days: 7 },
+    repeatable: true,
+  },
+  {
+    id: "style_acrostic",
+    name: "藏头诗风格",
+    description: "解锁「藏头诗」祝福语风格",
+    cost: 200,
+    grant: { type: 'premium_style', style: "藏头诗" },
+    repeatable: false,
+  },
+  {
+    id: "style_classical",
+    name: "文言风格",
+    description: "解锁「文言雅致」祝福语风格",
+    cost: 150,
+    grant: { type: 'premium_style', style: "文言" },
+    repeatable: false,
+  },
+  {
+    id: "card_gold_foil",
+    name: "鎏金对联卡片",
+    description: "解锁鎏金主题的对联分享卡片",
+    cost: 100,
+    grant: { type: 'card_theme', theme: "gold_foil" },
+    repeatable: false,
+  },
+  {
+    id: "card_ink_wash",
+    name: "水墨对联卡片",
+    description: "解锁水墨主题的对联分享卡片",
+    cost: 100,
+    grant: { type: 'card_theme', theme: "ink_wash" },
+    repeatable: false,
+  },
+];
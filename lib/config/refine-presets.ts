@@ -0,0 +1,37 @@
+/**
+ * 快捷修改选项配置
+ * 结果页的「再短一点」「更正式」等按钮，每个选项对应一条发给 AI 的修改指令
+ */
+
+export type RefinePresetKey = 'shorter' | 'longer' | 'warmer' | 'formal' | 'add_name';
+
+export interface RefinePreset {
+  key: RefinePresetKey;
+  label: string;        // 按钮文字
+  instruction: string;  // 修改指令，{name} 会替换为用户填写的名字
+  needsName?: boolean;  // 是否需要用户先填写名字
+}
+
+export const REFINE_PRESETS: RefinePreset[] = [
+  { key: 'shorter', label: '再短一点', instruction: '请在保留核心祝愿的前提下精简一些，篇幅缩短到原来的一半左右。' },
+  { key: 'longer', label: '再长一点', instruction: '请在原文基础上适当扩写，补充一两句更具体的祝愿或细节。' },
+  { key: 'warmer', label: '更温馨', instruction: '请让语气更温暖亲切，多一些真情实感。' },
+  { key: 'formal', label: '更正式', instruction: '请改得更正式得体，适合书面或正式场合使用。' },
+  { key: 'add_name', label: '加上名字', instruction: '请在合适的位置自然地加入对方的名字「{name}」，其余内容尽量保持不变。', needsName: true },
+];
+
+/**
+ * 根据选项生成修改指令
+ * @param key - 快捷选项
+ * @param name - 对方的名字（加名字选项必填）
+ * @returns 修改指令；选项不存在或缺少名字时返回 null
+ */
+export function resolveRefineInstruction(key: string, name?: string): string | null {
+  const preset = REFINE_PRESETS.find((item) => item.key === key);
+  if (!preset) return null;
+  if (preset.needsName) {
+    if (!name?.trim()) return null;
+    return preset.instruction.replace('{name}', name.trim());
+  }
+  return preset.instruction;
+}
@@ -1,3 +1,16 @@
+import { CARD_THEMES, PREMIUM_STYLES } from "@/lib/config/redemption-catalog";
+import { RATE_LIMIT_CONFIG } from "@/lib/rate-limit";
+import type { UserEntitlements } from "@/lib/redemption";
+
+/**
+ * 用户通过积分兑换解锁的内容（仅登录用户返回）
+ */
+export interface UIUnlocks {
+  premiumStyles: Array<{ value: string; label: string; unlocked: boolean }>;
+  cardThemes: Array<{ value: string; label: string; unlocked: boolean }>;
+  dailyGenerationLimit: number;  // 当天祝福语生成上限（基础次数 + 加油包）
+}
+
 /**
  * 小程序端配置接口
  * 定义了控制小程序端各种功能展示的配置项
@@ -10,7 +23,8 @@ export interface UIConfig {
     feedback: boolean;         // 反馈功能开关
     showGenerateImageBtn: boolean; // 生成图片按钮显示开关
     coupletMode: boolean;      // 对联「对下联」功能开关
-  }
+  };
+  unlocks?: UIUnlocks;
 }
 
 /**
@@ -31,11 +45,30 @@ export const defaultUIConfig: UIConfig = {
  * 获取UI配置
  * 可以根据不同条件返回不同的配置版本
  * @param version - 可选的配置版本号
+ * @param entitlements - 可选的用户权益，传入时附带解锁内容
  * @returns UI配置对象
  */
-export function getUIConfig(version?: string): UIConfig {
+export function getUIConfig(version?: string, entitlements?: UserEntitlements): UIConfig {
   // 这里可以根据版本号或其他条件返回不同的配置
+  if (!entitlements) {
+    return {
+      ...defaultUIConfig
+    };
+  }
+
   return {
-    ...defaultUIConfig
+    ...defaultUIConfig,
+    unlocks: {
+      premiumStyles: PREMIUM_STYLES.map((style) => ({
+        ...style,
+        unlocked: entitlements.premiumStyles.includes(style.value),
+      })),
+      cardThemes: CARD_THEMES.map((theme) => ({
+        value: theme.value,
+        label: theme.label,
+        unlocked: !theme.premium || entitlements.cardThemes.includes(theme.value),
+      })),
+      dailyGenerationLimit: RATE_LIMIT_CONFIG.daily.max + entitlements.extraDailyGenerations,
+    },
   };
 }
\ No newline at end of file
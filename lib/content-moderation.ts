@@ -0,0 +1,176 @@
+import { MODERATION_LEXICON, ModerationCategory, ModerationLexicon } from "@/lib/config/moderation-lexicon";
+import { createModerationCorrectionPrompt } from "@/lib/prompt-templates";
+import { moderationDb } from "@/lib/db";
+
+/**
+ * AI 输出内容审核
+ * 输入侧由 validation.ts 的 BLOCKED_PATTERNS 过滤提示词注入，这里检查模型输出中的
+ * 敏感、政治、低俗用语，以及与场合不符的忌讳词（如生日祝福里出现「死」「病」）。
+ */
+
+/**
+ * 需要审核的输出类型
+ */
+export type ModerationFeature = 'blessing' | 'couplet_upper' | 'couplet_review' | 'couplet_horizontal' | 'couplet_lower';
+
+/**
+ * 单个命中词
+ */
+export interface ModerationHit {
+  term: string;
+  category: ModerationCategory;
+}
+
+/**
+ * 审核结论
+ */
+export interface ModerationVerdict {
+  passed: boolean;
+  hits: ModerationHit[];
+}
+
+/**
+ * 审核上下文，用于记录日志与匹配场合忌讳词
+ */
+export interface ModerationContext {
+  feature: ModerationFeature;
+  occasion?: string;  // 场合 / 节日 / 主题 / 用户描述，任一场合名称出现即启用对应忌讳词
+  openid?: string;
+}
+
+/**
+ * 审核一段文本
+ * @param text - 待审核文本
+ * @param occasion - 场合上下文（可选）
+ * @param lexicon - 审核词库（默认使用 lib/config/moderation-lexicon.ts）
+ * @returns 审核结论
+ */
+export function moderateText(
+  text: string,
+  occasion?: string,
+  lexicon: ModerationLexicon = MODERATION_LEXICON
+): ModerationVerdict {
+  // 忽略空白，并先移除允许的固定搭配
+  let normalized = text.replace(/\s/g, "");
+  for (const phrase of lexicon.allowPhrases) {
+    normalized = normalized.split(phrase).join("");
+  }
+
+  const hits: ModerationHit[] = [];
+  const check = (terms: string[], category: ModerationCategory) => {
+    for (const term of terms) {
+      if (normalized.includes(term) && !hits.some((hit) => hit.term === term)) {
+        hits.push({ term, category });
+      }
+    }
+  };
+
+  check(lexicon.global.sensitive, 'sensitive');
+  check(lexicon.global.political, 'political');
+  check(lexicon.global.vulgar, 'vulgar');
+
+  if (occasion) {
+    for (const group of lexicon.occasionTaboos) {
+      if (group.occasions.some((name) => occasion.includes(name))) {
+        check(group.terms, 'inauspicious');
+      }
+    }
+  }
+
+  return { passed: hits.length === 0, hits };
+}
+
+/**
+ * 创建流式输出的增量审核
+ * 每收到一段增量就审核累计的全文，通过时才放行新增的文本；末尾保留可能是敏感词前半截的字符，
+ * 等后续文本到达后再判断。命中时不再放行（若命中的是尚未写完的允许搭配，写完后继续放行），
+ * 完整文本仍由 generateWithModeration 审核，结束时以审核后的结果为准。
+ * @param occasion - 场合上下文（可选）
+ * @param onSafeText - 放行文本的回调
+ * @param lexicon - 审核词库（默认使用 lib/config/moderation-lexicon.ts）
+ * @returns 接收增量文本的回调
+ */
+export function createStreamModerator(
+  occasion: string | undefined,
+  onSafeText: (text: string) => void,
+  lexicon: ModerationLexicon = MODERATION_LEXICON
+): (delta: string) => void {
+  const terms = lexicon.occasionTaboos.reduce<string[]>(
+    (all, group) => all.concat(group.terms),
+    [...lexicon.global.sensitive, ...lexicon.global.political, ...lexicon.global.vulgar]
+  );
+  const holdback = Math.max(0, ...terms.map((term) => term.length)) - 1;
+
+  let text = "";
+  let released = 0;
+  return (delta: string) => {
+    text += delta;
+    if (!moderateText(text, occasion, lexicon).passed) return;
+
+    // 审核时忽略空白，保留的字符数同样不计空白
+    let end = text.length;
+    for (let kept = 0; end > released && kept < holdback; end--) {
+      if (!/\s/.test(text[end - 1])) kept++;
+    }
+    if (end > released) {
+      onSafeText(text.slice(released, end));
+      released = end;
+    }
+  };
+}
+
+/**
+ * 记录审核结论
+ * 日志写入失败只记录错误，不影响返回结果
+ */
+async function logVerdict(
+  context: ModerationContext,
+  attempt: number,
+  verdict: ModerationVerdict,
+  text: string
+): Promise<void> {
+  if (!verdict.passed) {
+    console.warn(`内容审核未通过（${context.feature}，第 ${attempt} 次）:`, verdict.hits.map((hit) => hit.term));
+  }
+  try {
+    await moderationDb.logVerdict({
+      feature: context.feature,
+      openid: context.openid,
+      occasion: context.occasion,
+      attempt,
+      passed: verdict.passed,
+      hits: verdict.hits,
+      // 仅保存未通过的文本，便于调整词库
+      text: verdict.passed ? undefined : text.slice(0, 500),
+    });
+  } catch (error) {
+    console.error("记录审核结果失败:", error);
+  }
+}
+
+/**
+ * 生成并审核输出，未通过时用纠正提示词重试一次
+ * @param prompt - 原始提示词
+ * @param context - 审核上下文
+ * @param run - 根据提示词生成结果（可包含解析、后处理），attempt 为第几次生成（从 1 开始）
+ * @param getText - 从结果中取出需要审核的文本
+ * @returns 最后一次生成的结果及其是否通过审核
+ */
+export async function generateWithModeration<T>(
+  prompt: string,
+  context: ModerationContext,
+  run: (prompt: string, attempt: number) => Promise<T>,
+  getText: (result: T) => string = (result) => String(result)
+): Promise<{ result: T; passed: boolean }> {
+  let result = await run(prompt, 1);
+  let verdict = moderateText(getText(result), context.occasion);
+  await logVerdict(context, 1, verdict, getText(result));
+
+  if (!verdict.passed) {
+    result = await run(createModerationCorrectionPrompt(prompt, verdict.hits.map((hit) => hit.term)), 2);
+    verdict = moderateText(getText(result), context.occasion);
+    await logVerdict(context, 2, verdict, getText(result));
+  }
+
+  return { result, passed: verdict.passed };
+}
@@ -0,0 +1,87 @@
+import { CoupletAnalysis, CoupletReviewResult } from "@/lib/couplet-validation";
+
+/**
+ * 对联尝试记录
+ * 同一副对联可多次提交下联，每次提交连同点评和格律分析保存在 couplet_attempts；
+ * 评分最高的一次（同分取较早的）写回 couplet_records，参与分享和排行。
+ * 尝试时间线用于教学：展示每次修改的下联、评分变化和建议。
+ */
+
+export const ATTEMPT_CONFIG = {
+  maxAttempts: 5,  // 每副对联最多提交次数
+};
+
+/**
+ * 保存到尝试记录中的格律分析摘要（不含逐字明细）
+ */
+export type AttemptAnalysis = Pick<CoupletAnalysis, 'upperPattern' | 'lowerPattern' | 'endingRule' | 'issues' | 'score'>;
+
+/**
+ * 一次尝试
+ */
+export interface CoupletAttempt {
+  attemptNo: number;
+  lowerLine: string;
+  score: number;
+  summary: string;
+  strengths: string[];
+  suggestions: string[];
+  analysis: AttemptAnalysis | null;
+  hintsUsed: number;
+  createdAt: string;
+  isBest: boolean;
+}
+
+/**
+ * 提取要保存的格律分析摘要
+ * @param analysis - 完整格律分析
+ */
+export function summarizeAnalysis(analysis: CoupletAnalysis): AttemptAnalysis {
+  return {
+    upperPattern: analysis.upperPattern,
+    lowerPattern: analysis.lowerPattern,
+    endingRule: analysis.endingRule,
+    issues: analysis.issues,
+    score: analysis.score,
+  };
+}
+
+function parseJson<T>(value: unknown): T | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(String(value)) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 把数据库行转换为尝试时间线条目，并标记最佳尝试
+ * @param rows - couplet_attempts 行（按提交顺序）
+ * @returns 尝试时间线
+ */
+export function toAttemptTimeline(rows: Array<Record<string, unknown>>): CoupletAttempt[] {
+  const attempts = rows.map((row) => {
+    const review = parseJson<Partial<CoupletReviewResult>>(row.review_json) ?? {};
+    return {
+      attemptNo: Number(row.attempt_no),
+      lowerLine: String(row.lower_line),
+      score: Number(row.score),
+      summary: review.summary ?? "",
+      strengths: review.strengths ?? [],
+      suggestions: review.suggestions ?? [],
+      analysis: parseJson<AttemptAnalysis>(row.analysis_json),
+      hintsUsed: Number(row.hints_used) || 0,
+      createdAt: String(row.created_at),
+      isBest: false,
+    };
+  });
+
+  // 与写回对联记录的规则一致：评分最高，同分取较早的
+  const best = attempts.reduce<CoupletAttempt | null>(
+    (current, attempt) => (!current || attempt.score > current.score ? attempt : current),
+    null
+  );
+  if (best) best.isBest = true;
+  return attempts;
+}
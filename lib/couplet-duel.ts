@@ -0,0 +1,202 @@
+import { randomUUID } from "crypto";
+import { CoupletAnalysis, CoupletReviewResult } from "@/lib/couplet-validation";
+import { reviewCouplet } from "@/lib/couplet-review";
+import { applyHintDiscount } from "@/lib/couplet-hints";
+import { awardPoints } from "@/lib/points";
+import { duelDb } from "@/lib/db";
+
+/**
+ * 好友对决
+ * 发起人用自己已点评的对联生成分享 token，发起时固定自己的下联和（按提示折扣后的）评分；
+ * 好友打开分享后对同一上联作答，经同样的点评流程打分，高分者胜，同分为平局，双方都获得积分。
+ * 每场对决只接受一位好友的一次作答，超过有效期未作答即过期。作答前不向好友展示发起人的下联。
+ */
+
+export type DuelWinner = 'challenger' | 'opponent' | 'draw';
+export type DuelStatus = 'pending' | 'finished' | 'expired';
+export type DuelRole = 'challenger' | 'opponent' | 'guest';
+
+export const DUEL_CONFIG = {
+  expiresInHours: 48,
+  // 对决结束后双方获得的积分
+  points: { win: 20, draw: 10, lose: 5 },
+};
+
+/**
+ * 作答结果
+ */
+export interface DuelAnswerResult {
+  status: 'finished' | 'rejected' | 'conflict';
+  review?: CoupletReviewResult;
+  analysis?: CoupletAnalysis;
+  winner?: DuelWinner;
+  pointsAdded?: number;
+  duel?: Record<string, unknown>;
+}
+
+/**
+ * 判定胜负：高分者胜，同分为平局
+ * @param challengerScore - 发起人评分
+ * @param opponentScore - 应战好友评分
+ */
+export function determineDuelWinner(challengerScore: number, opponentScore: number): DuelWinner {
+  if (challengerScore === opponentScore) return 'draw';
+  return challengerScore > opponentScore ? 'challenger' : 'opponent';
+}
+
+/**
+ * 对决状态（过期不落库，按 expires_at 判断）
+ * @param duel - couplet_duels 行
+ * @param now - 当前时间
+ */
+export function getDuelStatus(duel: Record<string, unknown>, now: Date = new Date()): DuelStatus {
+  if (duel.status === 'finished') return 'finished';
+  return String(duel.expires_at) <= now.toISOString() ? 'expired' : 'pending';
+}
+
+const DUEL_REASONS = { win: "好友对决获胜", draw: "好友对决平局", lose: "参加好友对决" };
+
+/**
+ * 某一方的对决结果
+ * @param winner - 胜负结果
+ * @param role - 发起人或应战好友
+ */
+function getDuelOutcome(winner: DuelWinner, role: 'challenger' | 'opponent'): 'win' | 'draw' | 'lose' {
+  if (winner === 'draw') return 'draw';
+  return winner === role ? 'win' : 'lose';
+}
+
+/**
+ * 某一方在对决结束后获得的积分
+ * @param winner - 胜负结果
+ * @param role - 发起人或应战好友
+ */
+export function getDuelPoints(winner: DuelWinner, role: 'challenger' | 'opponent'): number {
+  return DUEL_CONFIG.points[getDuelOutcome(winner, role)];
+}
+
+/**
+ * 转换为展示给查看者的对决结果
+ * 对决未结束时只有发起人能看到自己的下联，避免好友照抄
+ * @param duel - couplet_duels 行
+ * @param viewerOpenid - 查看者 openid
+ */
+export function toDuelView(duel: Record<string, unknown>, viewerOpenid: string) {
+  const status = getDuelStatus(duel);
+  let role: DuelRole = 'guest';
+  if (duel.challenger_openid === viewerOpenid) {
+    role = 'challenger';
+  } else if (duel.opponent_openid && duel.opponent_openid === viewerOpenid) {
+    role = 'opponent';
+  }
+  const revealChallenger = status === 'finished' || role === 'challenger';
+
+  let opponent = null;
+  if (status === 'finished') {
+    const review = duel.opponent_review_json ? JSON.parse(String(duel.opponent_review_json)) : null;
+    opponent = {
+      lowerLine: duel.opponent_lower_line,
+      score: Number(duel.opponent_score),
+      summary: review?.summary ?? null,
+    };
+  }
+
+  return {
+    token: duel.token,
+    status,
+    role,
+    upperLine: duel.upper_line,
+    theme: duel.theme ?? null,
+    difficulty: duel.difficulty ?? null,
+    expiresAt: duel.expires_at,
+    challenger: revealChallenger
+      ? {
+          lowerLine: duel.challenger_lower_line,
+          score: Number(duel.challenger_score),
+          summary: duel.challenger_summary ?? null,
+        }
+      : null,
+    opponent,
+    winner: status === 'finished' ? (duel.winner as DuelWinner) : null,
+    finishedAt: duel.finished_at ?? null,
+    // 结束后告知查看者本场获得的积分
+    points: status === 'finished' && role !== 'guest' ? getDuelPoints(duel.winner as DuelWinner, role) : null,
+  };
+}
+
+/**
+ * 用已点评的对联发起对决
+ * @param openid - 发起人 openid
+ * @param record - 对联记录（调用方已校验归属且已点评）
+ * @returns 对决记录
+ */
+export async function createDuel(openid: string, record: Record<string, unknown>) {
+  const expiresAt = new Date(Date.now() + DUEL_CONFIG.expiresInHours * 60 * 60 * 1000).toISOString();
+  return duelDb.createDuel({
+    token: randomUUID().replace(/-/g, ""),
+    recordId: Number(record.id),
+    challengerOpenid: openid,
+    upperLine: String(record.upper_line),
+    theme: record.theme ? String(record.theme) : null,
+    difficulty: record.difficulty ? String(record.difficulty) : null,
+    challengerLowerLine: String(record.lower_line),
+    // 发起人用过提示时按折扣后的分数参与对决，与排行榜一致
+    challengerScore: applyHintDiscount(Number(record.score), Number(record.hints_used) || 0),
+    challengerSummary: record.review_summary ? String(record.review_summary) : null,
+    expiresAt,
+  });
+}
+
+/**
+ * 好友作答：点评下联、判定胜负并给双方发放积分
+ * @param openid - 应战好友 openid
+ * @param duel - 对决记录（调用方已校验仍可作答）
+ * @param lowerLine - 好友的下联（已校验）
+ * @returns 作答结果；内容不合规为 rejected（不占用作答机会），已被他人作答或已过期为 conflict
+ * @throws Error - AI 调用失败时抛出异常
+ */
+export async function answerDuel(
+  openid: string,
+  duel: Record<string, unknown>,
+  lowerLine: string
+): Promise<DuelAnswerResult> {
+  const { review, analysis } = await reviewCouplet(String(duel.upper_line), lowerLine, {
+    difficulty: (duel.difficulty || 'medium') as 'simple' | 'medium' | 'hard',
+    theme: duel.theme ? String(duel.theme) : undefined,
+    openid,
+  });
+  if (!review.canShare) {
+    return { status: 'rejected', review };
+  }
+
+  const winner = determineDuelWinner(Number(duel.challenger_score), review.score);
+  const finished = await duelDb.submitAnswer(String(duel.token), {
+    openid,
+    lowerLine,
+    score: review.score,
+    reviewJson: JSON.stringify(review),
+    winner,
+  });
+  if (!finished) {
+    return { status: 'conflict' };
+  }
+
+  // 同一场对决每人只记一次，幂等键对双方相同
+  const idempotencyKey = `duel:${finished.id}`;
+  const opponentAward = await awardPoints({
+    openid,
+    points: getDuelPoints(winner, 'opponent'),
+    reason: DUEL_REASONS[getDuelOutcome(winner, 'opponent')],
+    source: 'duel',
+    idempotencyKey,
+  });
+  await awardPoints({
+    openid: String(finished.challenger_openid),
+    points: getDuelPoints(winner, 'challenger'),
+    reason: DUEL_REASONS[getDuelOutcome(winner, 'challenger')],
+    source: 'duel',
+    idempotencyKey,
+  });
+
+  return { status: 'finished', review, analysis, winner, pointsAdded: opponentAward.awarded, duel: finished };
+}
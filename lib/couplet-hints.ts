@@ -0,0 +1,149 @@
+import {
+  CoupletTone,
+  POS_LABELS,
+  getCharPartOfSpeech,
+  getCharTone,
+} from "@/lib/couplet-validation";
+import { generateLowerLineCandidates } from "@/lib/couplet-reverse";
+import { coupletDb, pointsDb, userStatsDb } from "@/lib/db";
+
+/**
+ * 对下联提示
+ * 提示按级别逐步揭示：1 级给出上联逐字词性与平仄，2 级给出下联建议首字，3 级给出一组对仗示例词。
+ * 每级提示消耗积分（与兑换一样在事务中扣减），已用级别记录在 couplet_records.hints_used；
+ * 点评和排行榜按已用级别给评分打折。2、3 级提示取自 AI 对出的一条参考下联，首次需要时生成并保存，
+ * 之后重复查看内容不变。
+ */
+
+export type HintType = 'part_of_speech' | 'first_char' | 'sample_phrase';
+
+export const HINT_CONFIG = {
+  // 按级别排列，第 n 项为第 n 级提示
+  levels: [
+    { type: 'part_of_speech' as HintType, name: "词性提示", cost: 5 },
+    { type: 'first_char' as HintType, name: "首字提示", cost: 10 },
+    { type: 'sample_phrase' as HintType, name: "示例词组", cost: 15 },
+  ],
+  // 评分折扣系数，下标为已用提示级数
+  scoreFactors: [1, 0.9, 0.8, 0.7],
+  samplePhraseLength: 2,
+};
+
+/**
+ * 已揭示的提示内容
+ */
+export interface CoupletHints {
+  partsOfSpeech?: Array<{ char: string; pos: string | null; tone: CoupletTone }>;
+  firstChar?: string;
+  samplePhrase?: { upper: string; lower: string };
+}
+
+/**
+ * 使用提示的结果
+ */
+export interface HintResult {
+  status: 'revealed' | 'duplicate' | 'exhausted' | 'insufficient' | 'unavailable';
+  level?: number;
+  cost?: number;
+  balance?: number;
+}
+
+/**
+ * 已用提示对应的评分折扣系数
+ * @param hintsUsed - 已用提示级数
+ */
+export function getHintScoreFactor(hintsUsed: number): number {
+  const factors = HINT_CONFIG.scoreFactors;
+  return factors[Math.min(Math.max(0, Math.floor(hintsUsed) || 0), factors.length - 1)];
+}
+
+/**
+ * 按已用提示打折后的评分（保留一位小数）
+ * @param score - 原始评分
+ * @param hintsUsed - 已用提示级数
+ */
+export function applyHintDiscount(score: number, hintsUsed: number): number {
+  return Math.round(score * getHintScoreFactor(hintsUsed) * 10) / 10;
+}
+
+/**
+ * 生成前 level 级的提示内容
+ * @param upperLine - 上联
+ * @param sample - 参考下联（2 级及以上需要）
+ * @param level - 已揭示的级数
+ */
+export function buildHints(upperLine: string, sample: string | null, level: number): CoupletHints {
+  const hints: CoupletHints = {};
+  const upper = Array.from(upperLine);
+  if (level >= 1) {
+    hints.partsOfSpeech = upper.map((char) => {
+      const pos = getCharPartOfSpeech(char);
+      return { char, pos: pos ? POS_LABELS[pos] : null, tone: getCharTone(char) };
+    });
+  }
+  if (level >= 2 && sample) {
+    hints.firstChar = Array.from(sample)[0];
+  }
+  if (level >= 3 && sample) {
+    const length = HINT_CONFIG.samplePhraseLength;
+    hints.samplePhrase = {
+      upper: upper.slice(0, length).join(""),
+      lower: Array.from(sample).slice(0, length).join(""),
+    };
+  }
+  return hints;
+}
+
+/**
+ * 获取或生成参考下联
+ * @returns 参考下联，AI 未能给出合格下联时返回 null
+ */
+async function ensureHintSample(record: Record<string, unknown>, openid: string): Promise<string | null> {
+  if (record.hint_sample) return String(record.hint_sample);
+
+  const upperLine = String(record.upper_line);
+  const [best] = await generateLowerLineCandidates(upperLine, { theme: String(record.theme), openid }, 1);
+  if (!best) return null;
+  return coupletDb.saveHintSample(Number(record.id), best.lowerLine);
+}
+
+/**
+ * 揭示下一级提示并扣减积分
+ * 先准备好提示内容再扣分，AI 调用失败不会扣分；同一对联同一级提示只扣一次
+ * @param openid - 用户 openid
+ * @param record - 对联记录（调用方已校验归属且尚未点评）
+ * @returns 使用结果
+ */
+export async function revealNextHint(openid: string, record: Record<string, unknown>): Promise<HintResult> {
+  const used = Number(record.hints_used) || 0;
+  if (used >= HINT_CONFIG.levels.length) {
+    return { status: 'exhausted' };
+  }
+
+  const level = used + 1;
+  const hint = HINT_CONFIG.levels[level - 1];
+  if (hint.type !== 'part_of_speech' && !(await ensureHintSample(record, openid))) {
+    return { status: 'unavailable', level };
+  }
+
+  await userStatsDb.initUserStats(openid);
+  const idempotencyKey = `hint:${record.id}:${level}`;
+  const charged = await coupletDb.chargeHint({
+    openid,
+    recordId: Number(record.id),
+    level,
+    cost: hint.cost,
+    reason: `使用${hint.name}`,
+    idempotencyKey,
+  });
+
+  const balance = await pointsDb.getBalance(openid);
+  if (charged) {
+    return { status: 'revealed', level, cost: hint.cost, balance };
+  }
+  // 未写入：并发请求已使用这一级，或余额不足
+  if (await pointsDb.hasEntry(openid, idempotencyKey)) {
+    return { status: 'duplicate', level, cost: hint.cost, balance };
+  }
+  return { status: 'insufficient', level, cost: hint.cost, balance };
+}
@@ -0,0 +1,86 @@
+import { generateBlessing } from "@/lib/ai-service";
+import { createCoupletHorizontalPrompt, createCoupletHorizontalReviewPrompt } from "@/lib/prompt-templates";
+import { resolvePromptVersion } from "@/lib/prompt-registry";
+import {
+  COUPLET_HORIZONTAL_REVIEW_FALLBACK,
+  CoupletHorizontalReview,
+  normalizeHorizontalScrollFromAI,
+  parseHorizontalReviewJson,
+} from "@/lib/couplet-validation";
+import { generateWithModeration } from "@/lib/content-moderation";
+
+/**
+ * 横批
+ * 下联点评通过后补上横批，凑成完整的春联：可由 AI 按上下联生成，也可由用户自己写、AI 点评。
+ * 两种方式的输出都经过内容审核。
+ */
+
+/**
+ * 横批上下文
+ */
+export interface CoupletHorizontalContext {
+  theme?: string;   // 用于提示词与匹配场合忌讳词
+  openid: string;   // 用于分配提示词版本与记录审核日志
+}
+
+/**
+ * 按上下联生成横批
+ * @param upperLine - 上联
+ * @param lowerLine - 下联
+ * @param context - 横批上下文
+ * @returns 4 字横批，审核未通过或格式不符时返回 null
+ * @throws Error - AI 调用失败时抛出异常
+ */
+export async function generateHorizontalScroll(
+  upperLine: string,
+  lowerLine: string,
+  context: CoupletHorizontalContext
+): Promise<string | null> {
+  const prompt = createCoupletHorizontalPrompt(
+    upperLine,
+    lowerLine,
+    context.theme ?? "日常",
+    resolvePromptVersion("couplet_horizontal", context.openid)
+  );
+  // 生成并审核横批，未通过时重试一次
+  const { result, passed } = await generateWithModeration(
+    prompt,
+    { feature: "couplet_horizontal", occasion: context.theme, openid: context.openid },
+    async (attemptPrompt) => normalizeHorizontalScrollFromAI(await generateBlessing(attemptPrompt, "couplet_horizontal"))
+  );
+  return passed && result ? result : null;
+}
+
+/**
+ * 点评用户自写的横批
+ * @param upperLine - 上联
+ * @param lowerLine - 下联
+ * @param horizontalScroll - 横批（已校验）
+ * @param context - 横批上下文
+ * @returns 横批点评
+ * @throws Error - AI 调用失败时抛出异常
+ */
+export async function reviewHorizontalScroll(
+  upperLine: string,
+  lowerLine: string,
+  horizontalScroll: string,
+  context: CoupletHorizontalContext
+): Promise<CoupletHorizontalReview> {
+  const prompt = createCoupletHorizontalReviewPrompt(
+    upperLine,
+    lowerLine,
+    horizontalScroll,
+    resolvePromptVersion("couplet_horizontal_review", context.openid)
+  );
+  const moderated = await generateWithModeration(
+    prompt,
+    { feature: "couplet_horizontal", occasion: context.theme, openid: context.openid },
+    async (attemptPrompt) => parseHorizontalReviewJson(await generateBlessing(attemptPrompt, "couplet_horizontal")),
+    (result) => [result.summary, ...result.suggestions].join("\n")
+  );
+
+  // 重试后仍未通过时保留评分，点评文字换成默认文案
+  return moderated.passed
+    ? moderated.result
+    : { ...moderated.result, summary: COUPLET_HORIZONTAL_REVIEW_FALLBACK.summary, suggestions: [] };
+}
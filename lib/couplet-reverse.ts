@@ -0,0 +1,72 @@
+import { generateBlessing } from "@/lib/ai-service";
+import { createCoupletLowerPrompt } from "@/lib/prompt-templates";
+import { resolvePromptVersion } from "@/lib/prompt-registry";
+import { CoupletAnalysis, analyzeCouplet, parseLowerLineCandidates } from "@/lib/couplet-validation";
+import { generateWithModeration } from "@/lib/content-moderation";
+
+/**
+ * 反向模式：用户出上联，AI 对下联
+ * AI 一次生成多条候选下联，逐条经过字数校验和本地格律分析，按格律评分从高到低返回。
+ * 候选整体经过内容审核，未通过时重试一次。
+ */
+
+export const REVERSE_MODE_CONFIG = {
+  defaultCount: 3,  // 默认候选数量
+  maxCount: 5,
+};
+
+/**
+ * 候选下联
+ */
+export interface LowerLineCandidate {
+  lowerLine: string;
+  score: number;            // 本地格律评分（1-5）
+  analysis: CoupletAnalysis;
+}
+
+/**
+ * 解析请求的候选数量，超出范围时取默认值或上限
+ * @param value - 请求中的 count
+ */
+export function resolveCandidateCount(value: unknown): number {
+  const count = Math.floor(Number(value));
+  if (!Number.isFinite(count) || count < 1) return REVERSE_MODE_CONFIG.defaultCount;
+  return Math.min(count, REVERSE_MODE_CONFIG.maxCount);
+}
+
+/**
+ * 为用户的上联生成候选下联
+ * @param upperLine - 上联（已校验）
+ * @param context.theme - 对联主题
+ * @param context.openid - 用户 openid（用于分配提示词版本与记录审核日志）
+ * @param count - 候选数量
+ * @returns 按格律评分降序排列的候选，审核未通过时返回空数组
+ * @throws Error - AI 调用失败时抛出异常
+ */
+export async function generateLowerLineCandidates(
+  upperLine: string,
+  context: { theme: string; openid: string },
+  count: number = REVERSE_MODE_CONFIG.defaultCount
+): Promise<LowerLineCandidate[]> {
+  const prompt = createCoupletLowerPrompt(
+    upperLine,
+    context.theme,
+    count,
+    resolvePromptVersion("couplet_lower", context.openid)
+  );
+  const { result: lines, passed } = await generateWithModeration(
+    prompt,
+    { feature: "couplet_lower", occasion: context.theme, openid: context.openid },
+    async (attemptPrompt) => parseLowerLineCandidates(await generateBlessing(attemptPrompt, "couplet_lower"), upperLine),
+    (list) => list.join("\n")
+  );
+  if (!passed) return [];
+
+  return lines
+    .slice(0, count)
+    .map((lowerLine) => {
+      const analysis = analyzeCouplet(upperLine, lowerLine);
+      return { lowerLine, score: analysis.score, analysis };
+    })
+    .sort((a, b) => b.score - a.score);
+}
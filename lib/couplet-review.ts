@@ -0,0 +1,70 @@
+import { generateBlessing } from "@/lib/ai-service";
+import { createCoupletReviewPrompt } from "@/lib/prompt-templates";
+import { resolvePromptVersion } from "@/lib/prompt-registry";
+import {
+  COUPLET_REVIEW_FALLBACK,
+  CoupletAnalysis,
+  CoupletReviewResult,
+  analyzeCouplet,
+  blendCoupletScore,
+  parseCoupletReviewJson,
+} from "@/lib/couplet-validation";
+import { generateWithModeration } from "@/lib/content-moderation";
+
+/**
+ * 对联点评
+ * 点评接口与每日挑战共用：AI 点评经内容审核，本地格律分析与 AI 评分按权重合并。
+ */
+
+/**
+ * 点评上下文
+ */
+export interface CoupletReviewContext {
+  difficulty?: 'simple' | 'medium' | 'hard';
+  theme?: string;   // 用于匹配场合忌讳词
+  openid: string;   // 用于分配提示词版本与记录审核日志
+}
+
+/**
+ * 点评一副对联
+ * @param upperLine - 上联（已规范化）
+ * @param lowerLine - 下联（已规范化）
+ * @param context - 点评上下文
+ * @returns 合并评分后的点评与格律分析
+ * @throws Error - AI 调用失败时抛出异常
+ */
+export async function reviewCouplet(
+  upperLine: string,
+  lowerLine: string,
+  context: CoupletReviewContext
+): Promise<{ review: CoupletReviewResult; analysis: CoupletAnalysis }> {
+  const prompt = createCoupletReviewPrompt(
+    upperLine,
+    lowerLine,
+    context.difficulty ?? 'medium',
+    resolvePromptVersion("couplet_review", context.openid)
+  );
+  // 生成并审核点评文字，未通过时重试一次
+  const moderated = await generateWithModeration(
+    prompt,
+    { feature: "couplet_review", occasion: context.theme, openid: context.openid },
+    async (attemptPrompt) => parseCoupletReviewJson(await generateBlessing(attemptPrompt, "couplet_review")),
+    (result) => [result.summary, ...result.strengths, ...result.suggestions].join("\n")
+  );
+  // 本地格律分析（平仄、词性、重字），与 AI 评分按权重合并
+  const analysis = analyzeCouplet(upperLine, lowerLine);
+  const score = blendCoupletScore(moderated.result.score, analysis);
+
+  // 重试后仍未通过时保留评分，点评文字换成默认文案
+  const review = moderated.passed
+    ? { ...moderated.result, score }
+    : {
+        ...moderated.result,
+        score,
+        summary: COUPLET_REVIEW_FALLBACK.summary,
+        strengths: COUPLET_REVIEW_FALLBACK.strengths,
+        suggestions: [],
+      };
+
+  return { review, analysis };
+}
@@ -1,4 +1,5 @@
 import { cleanText } from "@/lib/validation";
+import { CoupletPartOfSpeech, PING_CHARS, POS_LEXICON, ZE_CHARS } from "@/lib/config/couplet-lexicon";
 
 const BLOCKED_PATTERNS = [
   /<script/i,
@@ -6,7 +7,7 @@ const BLOCKED_PATTERNS = [
   /(system|assistant|user):/i,
 ];
 
-const COUPLET_THEMES = ["春节", "元宵", "贺寿", "乔迁", "日常"] as const;
+export const COUPLET_THEMES = ["春节", "元宵", "贺寿", "乔迁", "日常"] as const;
 
 export type CoupletTheme = (typeof COUPLET_THEMES)[number];
 
@@ -32,6 +33,13 @@ export interface CoupletReviewResult {
 
 const LINE_LIMITS = { min: 4, max: 14 };
 
+// 各难度的每联字数范围
+export const DIFFICULTY_LINE_LIMITS: Record<'simple' | 'medium' | 'hard', { min: number; max: number }> = {
+  simple: { min: 4, max: 5 },
+  medium: { min: 6, max: 8 },
+  hard: { min: 9, max: 14 },
+};
+
 function countChars(line: string): number {
   return [...line.replace(/\s/g, "")].length;
 }
@@ -109,6 +117,73 @@ export function validateCoupletReviewRequest(
   return { valid: true, upperLine, lowerLine, recordId };
 }
 
+/**
+ * 校验反向模式请求：用户出上联，沿用点评时的字数限制，难度按上联字数推断
+ * @param data - 请求体
+ * @returns 规范化后的上联、主题与难度，或错误信息
+ */
+export function validateCoupletReverseRequest(data: unknown): {
+  valid: boolean;
+  error?: string;
+  upperLine?: string;
+  theme?: string;
+  difficulty?: 'simple' | 'medium' | 'hard';
+} {
+  if (!data || typeof data !== "object") {
+    return { valid: false, error: "请求参数无效" };
+  }
+
+  const input = data as CoupletUpperRequest & { upperLine?: unknown };
+  const upperLine = normalizeCoupletLine(String(input.upperLine || ""));
+  if (!upperLine) {
+    return { valid: false, error: "请填写上联" };
+  }
+
+  const length = countChars(upperLine);
+  if (length < LINE_LIMITS.min || length > LINE_LIMITS.max) {
+    return { valid: false, error: "每联字数应在 4 到 14 字之间" };
+  }
+
+  if (hasBlockedContent(upperLine)) {
+    return { valid: false, error: "对联内容不符合要求" };
+  }
+
+  const upperRequest = validateCoupletUpperRequest({ theme: input.theme, occasion: input.occasion });
+  if (!upperRequest.valid) {
+    return { valid: false, error: upperRequest.error };
+  }
+
+  const difficulty = (Object.keys(DIFFICULTY_LINE_LIMITS) as Array<'simple' | 'medium' | 'hard'>).find(
+    (key) => length >= DIFFICULTY_LINE_LIMITS[key].min && length <= DIFFICULTY_LINE_LIMITS[key].max
+  );
+
+  return { valid: true, upperLine, theme: upperRequest.theme, difficulty };
+}
+
+/**
+ * 解析 AI 一次生成的多条下联：逐行去掉序号、前缀和标点，只保留与上联字数相同、
+ * 不与上联相同且不重复的候选
+ * @param raw - AI 原始输出
+ * @param upperLine - 上联
+ * @returns 下联候选
+ */
+export function parseLowerLineCandidates(raw: string, upperLine: string): string[] {
+  const length = countChars(upperLine);
+  const candidates: string[] = [];
+  raw.split("\n").forEach((item) => {
+    const line = normalizeCoupletLine(
+      item
+        .trim()
+        .replace(/^(\d+|[一二三四五六七八九十])[.、．:：)）]\s*/, "")
+        .replace(/^(下联|下聯)[：:]\s*/i, "")
+    );
+    if (line && countChars(line) === length && line !== upperLine && !candidates.includes(line)) {
+      candidates.push(line);
+    }
+  });
+  return candidates;
+}
+
 export function normalizeUpperLineFromAI(raw: string): string {
   const line = raw
     .split("\n")
@@ -167,3 +242,256 @@ export function parseCoupletReviewJson(raw: string): CoupletReviewResult {
     return COUPLET_REVIEW_FALLBACK;
   }
 }
+
+// ========================
+// 横批
+// ========================
+
+// 横批固定 4 字
+export const HORIZONTAL_SCROLL_LENGTH = 4;
+
+export interface CoupletHorizontalReview {
+  score: number;
+  summary: string;
+  suggestions: string[];
+  canShare: boolean;
+}
+
+export const COUPLET_HORIZONTAL_REVIEW_FALLBACK: CoupletHorizontalReview = {
+  score: 4,
+  summary: "横批与对联很相配",
+  suggestions: [],
+  canShare: true,
+};
+
+/**
+ * 校验用户自写的横批
+ * @param text - 横批原文
+ * @returns 规范化后的横批或错误信息
+ */
+export function validateHorizontalScroll(text: unknown): { valid: boolean; error?: string; horizontalScroll?: string } {
+  const horizontalScroll = normalizeCoupletLine(String(text ?? ""));
+  if (countChars(horizontalScroll) !== HORIZONTAL_SCROLL_LENGTH) {
+    return { valid: false, error: `横批应为 ${HORIZONTAL_SCROLL_LENGTH} 个字` };
+  }
+  if (hasBlockedContent(horizontalScroll)) {
+    return { valid: false, error: "横批内容不符合要求" };
+  }
+  return { valid: true, horizontalScroll };
+}
+
+/**
+ * 解析 AI 生成的横批：去掉「横批：」前缀和引号，字数不符时返回空字符串
+ */
+export function normalizeHorizontalScrollFromAI(raw: string): string {
+  const line = normalizeUpperLineFromAI(raw);
+  return countChars(line) === HORIZONTAL_SCROLL_LENGTH ? line : "";
+}
+
+export function parseHorizontalReviewJson(raw: string): CoupletHorizontalReview {
+  const jsonMatch = raw.trim().match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return COUPLET_HORIZONTAL_REVIEW_FALLBACK;
+  }
+
+  try {
+    const parsed = JSON.parse(jsonMatch[0]) as Partial<CoupletHorizontalReview>;
+    return {
+      score: Math.min(5, Math.max(1, Number(parsed.score) || 4)),
+      summary:
+        typeof parsed.summary === "string" && parsed.summary.trim()
+          ? parsed.summary.trim().slice(0, 30)
+          : COUPLET_HORIZONTAL_REVIEW_FALLBACK.summary,
+      suggestions: Array.isArray(parsed.suggestions)
+        ? parsed.suggestions
+            .filter((s): s is string => typeof s === "string" && s.trim().length > 0)
+            .slice(0, 1)
+        : [],
+      canShare: parsed.canShare !== false,
+    };
+  } catch {
+    return COUPLET_HORIZONTAL_REVIEW_FALLBACK;
+  }
+}
+
+// ========================
+// 格律分析（平仄、词性）
+// ========================
+
+export type CoupletTone = 'ping' | 'ze' | 'unknown';
+
+// 逐字对照结果，index 从 0 开始
+export interface CoupletPositionCheck {
+  index: number;
+  upper: string;
+  lower: string;
+  upperTone: CoupletTone;
+  lowerTone: CoupletTone;
+  upperPos: CoupletPartOfSpeech | null;
+  lowerPos: CoupletPartOfSpeech | null;
+  posMatch: boolean | null; // 任一字不在词性表中时为 null
+}
+
+export interface CoupletAnalysis {
+  upperPattern: string; // 如「平平仄仄平平仄」，表外字记为「？」
+  lowerPattern: string;
+  endingRule: boolean | null; // 仄起平收：上联末字仄、下联末字平；末字不在字表中时为 null
+  toneContrast: { opposed: number; checked: number }; // 节奏点（第 2、4、6… 字）上下联平仄相对的个数
+  posAlignment: { matched: number; checked: number };
+  repeatedChars: string[]; // 上下联同字（虚词除外）或叠字位置不对应
+  positions: CoupletPositionCheck[];
+  score: number; // 1-5
+  issues: string[];
+}
+
+// 本地分析在最终评分中的占比，其余为 AI 评分
+export const COUPLET_ANALYSIS_WEIGHT = 0.4;
+
+export const POS_LABELS: Record<CoupletPartOfSpeech, string> = {
+  noun: "名词",
+  verb: "动词",
+  adjective: "形容词",
+  numeral: "数词",
+  direction: "方位词",
+  function: "虚词",
+};
+
+const PART_OF_SPEECH_ORDER: CoupletPartOfSpeech[] = ["noun", "verb", "adjective", "numeral", "direction", "function"];
+
+export function getCharTone(char: string): CoupletTone {
+  if (PING_CHARS.indexOf(char) >= 0) return "ping";
+  if (ZE_CHARS.indexOf(char) >= 0) return "ze";
+  return "unknown";
+}
+
+export function getCharPartOfSpeech(char: string): CoupletPartOfSpeech | null {
+  return PART_OF_SPEECH_ORDER.find((pos) => POS_LEXICON[pos].indexOf(char) >= 0) ?? null;
+}
+
+function toPattern(tones: CoupletTone[]): string {
+  return tones.map((tone) => (tone === "ping" ? "平" : tone === "ze" ? "仄" : "？")).join("");
+}
+
+function findRepeatedChars(upper: string[], lower: string[]): string[] {
+  const conflicts: string[] = [];
+  const add = (char: string) => {
+    if (!conflicts.includes(char)) conflicts.push(char);
+  };
+
+  // 上下联不宜出现相同的字，虚词除外
+  upper.forEach((char) => {
+    if (lower.includes(char) && getCharPartOfSpeech(char) !== "function") add(char);
+  });
+
+  // 叠字、重字须上下联位置对应，如「年年」对「岁岁」
+  for (let i = 0; i < upper.length; i++) {
+    for (let j = i + 1; j < upper.length; j++) {
+      const upperRepeat = upper[i] === upper[j];
+      const lowerRepeat = lower[i] === lower[j];
+      if (upperRepeat && !lowerRepeat) add(upper[i]);
+      if (lowerRepeat && !upperRepeat) add(lower[i]);
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * 分析上下联的平仄、词性对仗与重字
+ * 只依赖本地字表，结果稳定；字数不等时只比较较短一联的长度
+ * @param upperLine - 上联
+ * @param lowerLine - 下联
+ * @returns 分析结果与 1-5 分的格律评分
+ */
+export function analyzeCouplet(upperLine: string, lowerLine: string): CoupletAnalysis {
+  const upper = Array.from(upperLine.replace(/\s/g, ""));
+  const lower = Array.from(lowerLine.replace(/\s/g, ""));
+  const length = Math.min(upper.length, lower.length);
+
+  const positions: CoupletPositionCheck[] = [];
+  for (let i = 0; i < length; i++) {
+    const upperPos = getCharPartOfSpeech(upper[i]);
+    const lowerPos = getCharPartOfSpeech(lower[i]);
+    positions.push({
+      index: i,
+      upper: upper[i],
+      lower: lower[i],
+      upperTone: getCharTone(upper[i]),
+      lowerTone: getCharTone(lower[i]),
+      upperPos,
+      lowerPos,
+      posMatch: upperPos && lowerPos ? upperPos === lowerPos : null,
+    });
+  }
+
+  const upperEnd = getCharTone(upper[upper.length - 1] || "");
+  const lowerEnd = getCharTone(lower[lower.length - 1] || "");
+  const endingRule = upperEnd === "unknown" || lowerEnd === "unknown"
+    ? null
+    : upperEnd === "ze" && lowerEnd === "ping";
+
+  // 「一三五不论，二四六分明」：只检查偶数位，末字由仄起平收单独判断
+  const rhythmPoints = positions.filter(
+    (item) => item.index % 2 === 1 && item.index < length - 1 && item.upperTone !== "unknown" && item.lowerTone !== "unknown"
+  );
+  const toneContrast = {
+    opposed: rhythmPoints.filter((item) => item.upperTone !== item.lowerTone).length,
+    checked: rhythmPoints.length,
+  };
+
+  const posChecked = positions.filter((item) => item.posMatch !== null);
+  const posAlignment = {
+    matched: posChecked.filter((item) => item.posMatch).length,
+    checked: posChecked.length,
+  };
+
+  const repeatedChars = findRepeatedChars(upper, lower);
+
+  const issues: string[] = [];
+  if (endingRule === false) {
+    issues.push("上联末字宜仄，下联末字宜平");
+  }
+  const unopposed = rhythmPoints.filter((item) => item.upperTone === item.lowerTone);
+  if (unopposed.length > 0) {
+    issues.push(`第${unopposed.map((item) => item.index + 1).join("、")}字平仄未相对`);
+  }
+  positions
+    .filter((item) => item.posMatch === false)
+    .slice(0, 2)
+    .forEach((item) => {
+      issues.push(`第${item.index + 1}字${POS_LABELS[item.upperPos!]}对${POS_LABELS[item.lowerPos!]}，词性不对`);
+    });
+  if (repeatedChars.length > 0) {
+    issues.push(`「${repeatedChars.join("」「")}」字重复`);
+  }
+
+  // 各项得分在 0-1 之间，无法判断的项记 0.5
+  const endingScore = endingRule === null ? 0.5 : endingRule ? 1 : 0;
+  const contrastScore = toneContrast.checked > 0 ? toneContrast.opposed / toneContrast.checked : 0.5;
+  const posScore = posAlignment.checked > 0 ? posAlignment.matched / posAlignment.checked : 0.5;
+  const repeatScore = Math.max(0, 1 - repeatedChars.length * 0.5);
+  const weighted = (endingScore + contrastScore + posScore + repeatScore) / 4;
+
+  return {
+    upperPattern: toPattern(upper.map(getCharTone)),
+    lowerPattern: toPattern(lower.map(getCharTone)),
+    endingRule,
+    toneContrast,
+    posAlignment,
+    repeatedChars,
+    positions,
+    score: Math.min(5, Math.max(1, Math.round(1 + weighted * 4))),
+    issues,
+  };
+}
+
+/**
+ * 把 AI 评分与本地格律评分按权重合并
+ * @param aiScore - AI 给出的 1-5 分
+ * @param analysis - 本地分析结果
+ * @returns 合并后的 1-5 分
+ */
+export function blendCoupletScore(aiScore: number, analysis: CoupletAnalysis): number {
+  const blended = aiScore * (1 - COUPLET_ANALYSIS_WEIGHT) + analysis.score * COUPLET_ANALYSIS_WEIGHT;
+  return Math.min(5, Math.max(1, Math.round(blended)));
+}
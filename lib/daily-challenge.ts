@@ -0,0 +1,297 @@
+import { generateBlessing } from "@/lib/ai-service";
+import { createCoupletUpperPrompt } from "@/lib/prompt-templates";
+import { DIFFICULTY_LINE_LIMITS, normalizeUpperLineFromAI } from "@/lib/couplet-validation";
+import { generateWithModeration } from "@/lib/content-moderation";
+import { dailyChallengeDb } from "@/lib/db";
+import {
+  CALENDAR_FESTIVALS,
+  FALLBACK_UPPER_LINES,
+  ROUTINE_THEMES,
+  WEEKDAY_DIFFICULTY,
+} from "@/lib/config/couplet-calendar";
+
+/**
+ * 每日挑战生成与计分
+ * 由定时任务提前生成未来若干天的挑战：按主题日历选主题，用出上联提示词调用 AI，
+ * 并与历史上联去重。当天挑战缺失时（定时任务未运行或生成失败）由接口按需生成，AI 不可用时使用备用上联。
+ * 用时以用户首次获取当天挑战时服务端记录的开始时间为准，不信任客户端上报。
+ */
+
+type Difficulty = 'simple' | 'medium' | 'hard';
+
+/**
+ * 每日挑战配置
+ */
+export const DAILY_CHALLENGE_CONFIG = {
+  pregenerateDays: Number(process.env.DAILY_CHALLENGE_PREGENERATE_DAYS) || 7, // 默认提前生成的天数
+  maxDays: 30,        // 单次最多生成的天数
+  maxAttempts: 3,     // 每天最多调用 AI 的次数（重复或字数不符时重试）
+  avoidListSize: 20,  // 提示词中列出的近期上联条数
+  limitSeconds: 120,  // 限时模式的时限（秒）
+  pointsPerScore: 4,  // 每 1 分评分对应的积分
+  limitModeBonus: 5,  // 限时模式内完成的额外积分
+  rankingLimitBonus: 0.5, // 限时模式在当日排名中的加分（评分相同时限时模式优先）
+};
+
+/**
+ * 单日生成结果
+ */
+export interface DailyChallengeResult {
+  date: string;
+  status: 'exists' | 'created' | 'fallback' | 'failed';
+  theme?: string;
+  difficulty?: string;
+  upperLine?: string;
+  error?: string;
+}
+
+/**
+ * 连续挑战统计
+ */
+export interface DailyStreak {
+  current: number;            // 当前连续天数（今天尚未参加时从昨天起算）
+  best: number;               // 历史最长连续天数
+  participatedToday: boolean;
+}
+
+/**
+ * 获取北京时间的日期字符串（YYYY-MM-DD）
+ * @param date - 时间点（默认当前时间）
+ */
+export function getChinaDateString(date: Date = new Date()): string {
+  return new Date(date.getTime() + 8 * 60 * 60 * 1000).toISOString().split("T")[0];
+}
+
+/**
+ * 日期加减天数
+ * @param date - 日期（YYYY-MM-DD）
+ * @param days - 天数，可为负数
+ * @returns 新日期（YYYY-MM-DD）
+ */
+export function addDays(date: string, days: number): string {
+  const time = new Date(`${date}T00:00:00Z`).getTime() + days * 24 * 60 * 60 * 1000;
+  return new Date(time).toISOString().split("T")[0];
+}
+
+function dayNumber(date: string): number {
+  return Math.floor(new Date(`${date}T00:00:00Z`).getTime() / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * 根据主题日历确定某天的主题
+ * @param date - 日期（YYYY-MM-DD）
+ * @returns 节日主题；非节日期间按日期轮换常规主题
+ */
+export function getCalendarTheme(date: string): string {
+  const year = date.slice(0, 4);
+  for (const festival of CALENDAR_FESTIVALS) {
+    for (const festivalDate of festival.dates) {
+      // 固定日期节日（MM-DD）按当年展开，并考虑跨年的前后窗口
+      const anchors = festivalDate.length === 5
+        ? [`${Number(year) - 1}-${festivalDate}`, `${year}-${festivalDate}`, `${Number(year) + 1}-${festivalDate}`]
+        : [festivalDate];
+      for (const anchor of anchors) {
+        const offset = dayNumber(date) - dayNumber(anchor);
+        if (offset >= -festival.before && offset <= festival.after) {
+          return festival.theme;
+        }
+      }
+    }
+  }
+  return ROUTINE_THEMES[dayNumber(date) % ROUTINE_THEMES.length];
+}
+
+/**
+ * 根据星期几确定某天的难度
+ * @param date - 日期（YYYY-MM-DD）
+ */
+export function getChallengeDifficulty(date: string): Difficulty {
+  return WEEKDAY_DIFFICULTY[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+/**
+ * 创建每日挑战的出上联提示词，要求避开近期出过的上联
+ * @param theme - 主题
+ * @param difficulty - 难度
+ * @param avoidLines - 需要避开的上联
+ * @returns 提示词
+ */
+export function createDailyUpperPrompt(theme: string, difficulty: Difficulty, avoidLines: string[]): string {
+  const prompt = createCoupletUpperPrompt(theme, difficulty);
+  if (avoidLines.length === 0) {
+    return prompt;
+  }
+  return `${prompt}
+
+# Avoid
+以下上联近期已经出过，请创作意象和用字都不同的新上联：
+${avoidLines.map((line) => `- ${line}`).join("\n")}`;
+}
+
+/**
+ * 调用 AI 生成一条未出过、字数符合难度的上联
+ * @returns 上联；多次尝试仍不满足要求时返回 null
+ */
+async function generateUniqueUpperLine(theme: string, difficulty: Difficulty, usedLines: Set<string>): Promise<string | null> {
+  const { min, max } = DIFFICULTY_LINE_LIMITS[difficulty];
+  const avoidLines = Array.from(usedLines).slice(-DAILY_CHALLENGE_CONFIG.avoidListSize);
+
+  for (let attempt = 1; attempt <= DAILY_CHALLENGE_CONFIG.maxAttempts; attempt++) {
+    const { result: upperLine, passed } = await generateWithModeration(
+      createDailyUpperPrompt(theme, difficulty, avoidLines),
+      { feature: "couplet_upper", occasion: theme },
+      async (attemptPrompt) => normalizeUpperLineFromAI(await generateBlessing(attemptPrompt, "daily_challenge"))
+    );
+
+    const length = Array.from(upperLine).length;
+    if (passed && length >= min && length <= max && !usedLines.has(upperLine)) {
+      return upperLine;
+    }
+    console.warn(`每日挑战上联不符合要求（第 ${attempt} 次）:`, upperLine);
+    if (upperLine && !avoidLines.includes(upperLine)) {
+      avoidLines.push(upperLine);
+    }
+  }
+  return null;
+}
+
+/**
+ * 选一条未出过的备用上联；全部出过时按日期轮换
+ */
+function pickFallbackLine(theme: string, date: string, usedLines: Set<string>): string {
+  const lines = FALLBACK_UPPER_LINES[theme] ?? FALLBACK_UPPER_LINES["日常"];
+  return lines.find((line) => !usedLines.has(line)) ?? lines[dayNumber(date) % lines.length];
+}
+
+/**
+ * 确保某天的挑战存在
+ * @param date - 日期（YYYY-MM-DD）
+ * @param options.usedLines - 已出过的上联（批量生成时复用，避免重复查询）
+ * @param options.allowFallback - AI 生成失败时是否使用备用上联
+ * @returns 当天的挑战记录与生成结果
+ * @throws Error - 不允许使用备用上联且 AI 生成失败时抛出异常
+ */
+export async function ensureDailyChallenge(
+  date: string,
+  options: { usedLines?: Set<string>; allowFallback?: boolean } = {}
+): Promise<{ challenge: Record<string, unknown>; result: DailyChallengeResult }> {
+  const existing = await dailyChallengeDb.getDailyChallenge(date);
+  if (existing) {
+    return { challenge: existing, result: { date, status: 'exists' } };
+  }
+
+  const usedLines = options.usedLines ?? new Set(await dailyChallengeDb.getAllUpperLines());
+  const theme = getCalendarTheme(date);
+  let difficulty = getChallengeDifficulty(date);
+  let status: DailyChallengeResult['status'] = 'created';
+
+  let upperLine: string | null = null;
+  try {
+    upperLine = await generateUniqueUpperLine(theme, difficulty, usedLines);
+  } catch (error) {
+    console.error(`生成 ${date} 每日挑战失败:`, error);
+  }
+
+  if (!upperLine) {
+    if (!options.allowFallback) {
+      throw new Error("生成每日挑战上联失败");
+    }
+    // 备用上联均为七字，按中等难度出题
+    upperLine = pickFallbackLine(theme, date, usedLines);
+    difficulty = 'medium';
+    status = 'fallback';
+  }
+
+  const challenge = await dailyChallengeDb.createDailyChallenge({ date, upperLine, theme, difficulty });
+  if (!challenge) {
+    throw new Error("保存每日挑战失败");
+  }
+  usedLines.add(String(challenge.upper_line));
+
+  return {
+    challenge,
+    result: { date, status, theme, difficulty, upperLine },
+  };
+}
+
+/**
+ * 提前生成从 startDate 起连续若干天的挑战，已存在的日期跳过
+ * 单天失败不影响其余日期，失败的日期留待下次运行补齐
+ * @param days - 天数
+ * @param startDate - 起始日期（默认北京时间今天）
+ * @returns 每天的生成结果
+ */
+export async function pregenerateDailyChallenges(
+  days: number = DAILY_CHALLENGE_CONFIG.pregenerateDays,
+  startDate: string = getChinaDateString()
+): Promise<DailyChallengeResult[]> {
+  const count = Math.min(Math.max(1, Math.floor(days)), DAILY_CHALLENGE_CONFIG.maxDays);
+  const usedLines = new Set(await dailyChallengeDb.getAllUpperLines());
+  const results: DailyChallengeResult[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const date = addDays(startDate, i);
+    try {
+      const { result } = await ensureDailyChallenge(date, { usedLines });
+      results.push(result);
+    } catch (error) {
+      results.push({ date, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * 根据服务端记录的开始时间计算用时，并判定限时模式是否有效
+ * 限时模式超时后按普通模式计分
+ * @param startedAt - 开始时间（ISO 字符串）
+ * @param isLimitMode - 用户是否选择了限时模式
+ * @param now - 提交时间（默认当前时间）
+ * @returns 用时（秒）与最终的限时模式标记
+ */
+export function resolveDailyTiming(
+  startedAt: string,
+  isLimitMode: boolean,
+  now: Date = new Date()
+): { timeSpent: number; isLimitMode: boolean } {
+  const timeSpent = Math.max(0, Math.round((now.getTime() - new Date(startedAt).getTime()) / 1000));
+  return { timeSpent, isLimitMode: isLimitMode && timeSpent <= DAILY_CHALLENGE_CONFIG.limitSeconds };
+}
+
+/**
+ * 计算每日挑战的积分
+ * @param score - 点评评分（1-5）
+ * @param isLimitMode - 是否在限时模式内完成
+ * @returns 积分
+ */
+export function calculateDailyChallengePoints(score: number, isLimitMode: boolean): number {
+  const points = Math.round(score * DAILY_CHALLENGE_CONFIG.pointsPerScore);
+  return isLimitMode ? points + DAILY_CHALLENGE_CONFIG.limitModeBonus : points;
+}
+
+/**
+ * 根据参加过的日期计算连续挑战天数
+ * 今天尚未参加时，截至昨天的连续记录仍然有效
+ * @param dates - 已记分的挑战日期（YYYY-MM-DD）
+ * @param today - 今天（默认北京时间今天）
+ * @returns 当前与最长连续天数
+ */
+export function calculateDailyStreak(dates: string[], today: string = getChinaDateString()): DailyStreak {
+  const days = Array.from(new Set(dates.filter((date) => date <= today)))
+    .map(dayNumber)
+    .sort((a, b) => a - b);
+
+  let best = 0;
+  let run = 0;
+  for (let i = 0; i < days.length; i++) {
+    run = i > 0 && days[i] === days[i - 1] + 1 ? run + 1 : 1;
+    best = Math.max(best, run);
+  }
+
+  const last = days.length > 0 ? days[days.length - 1] : null;
+  const participatedToday = last === dayNumber(today);
+  const current = last !== null && last >= dayNumber(today) - 1 ? run : 0;
+
+  return { current, best, participatedToday };
+}
@@ -61,14 +61,82 @@ export const historyDb = {
     return { data: dataResult.rows, total: Number(countResult.rows[0].total) };
   },
 
-  async addHistory(data: { user_id: string; blessing: string; occasion?: string; target_person?: string; style?: string }) {
+  async addHistory(data: {
+    user_id: string;
+    blessing: string;
+    occasion?: string;
+    target_person?: string;
+    style?: string;
+    candidates?: string[];
+    prompt_version?: string;
+    is_regenerate?: boolean;
+  }) {
     const result = await db.execute({
-      sql: 'INSERT INTO user_history (user_id, blessing, occasion, target_person, style) VALUES (?, ?, ?, ?, ?) RETURNING *',
-      args: [data.user_id, data.blessing, data.occasion ?? null, data.target_person ?? null, data.style ?? '传统'],
+      sql: `INSERT INTO user_history (user_id, blessing, occasion, target_person, style, candidates, prompt_version, is_regenerate)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`,
+      args: [
+        data.user_id,
+        data.blessing,
+        data.occasion ?? null,
+        data.target_person ?? null,
+        data.style ?? '传统',
+        data.candidates ? JSON.stringify(data.candidates) : null,
+        data.prompt_version ?? null,
+        data.is_regenerate ? 1 : 0,
+      ],
     });
     return result.rows[0];
   },
 
+  // 获取当前用户的单条历史记录（多轮修改时读取上一轮结果）
+  async getHistoryItem(historyId: string, userId: string) {
+    const result = await db.execute({
+      sql: 'SELECT * FROM user_history WHERE id = ? AND user_id = ? LIMIT 1',
+      args: [historyId, userId],
+    });
+    return result.rows[0] ?? null;
+  },
+
+  // 记录用户复制了哪一条候选，并把该候选作为这条历史的祝福语
+  async recordCopy(historyId: string, userId: string, copiedIndex: number) {
+    const existing = await db.execute({
+      sql: 'SELECT candidates FROM user_history WHERE id = ? AND user_id = ? LIMIT 1',
+      args: [historyId, userId],
+    });
+    const row = existing.rows[0];
+    if (!row) return null;
+
+    const candidates: string[] = row.candidates ? JSON.parse(String(row.candidates)) : [];
+    const maxIndex = candidates.length > 0 ? candidates.length - 1 : 0;
+    if (copiedIndex < 0 || copiedIndex > maxIndex) return null;
+
+    const result = await db.execute({
+      sql: `UPDATE user_history
+            SET copied_index = ?, blessing = COALESCE(?, blessing)
+            WHERE id = ? AND user_id = ?
+            RETURNING *`,
+      args: [copiedIndex, candidates[copiedIndex] ?? null, historyId, userId],
+    });
+    return result.rows[0] ?? null;
+  },
+
+  // 按提示词模板版本统计生成、复制与重新生成次数（北京时间日期）
+  async getPromptVersionStats(fromDate: string, toDate: string) {
+    const result = await db.execute({
+      sql: `SELECT prompt_version,
+                   COUNT(*) AS generations,
+                   SUM(CASE WHEN copied_index IS NOT NULL THEN 1 ELSE 0 END) AS copies,
+                   SUM(CASE WHEN is_regenerate = 1 THEN 1 ELSE 0 END) AS regenerations
+            FROM user_history
+            WHERE prompt_version IS NOT NULL
+              AND date(created_at, '+8 hours') BETWEEN ? AND ?
+            GROUP BY prompt_version
+            ORDER BY prompt_version`,
+      args: [fromDate, toDate],
+    });
+    return result.rows;
+  },
+
   async deleteHistory(historyId: string, userId: string) {
     await db.execute({
       sql: 'DELETE FROM user_history WHERE id = ? AND user_id = ?',
@@ -115,12 +183,23 @@ export const coupletDb = {
     lowerLine?: string;
     theme: string;
     difficulty?: 'simple' | 'medium' | 'hard';
+    mode?: 'classic' | 'reverse';
+    lowerCandidates?: string[];
   }) {
     const result = await db.execute({
-      sql: `INSERT INTO couplet_records (openid, upper_line, lower_line, theme, difficulty, created_at)
-            VALUES (?, ?, ?, ?, ?, ?)
-            RETURNING id, openid, upper_line, lower_line, theme, difficulty, score, created_at`,
-      args: [data.openid, data.upperLine, data.lowerLine ?? null, data.theme, data.difficulty ?? 'medium', new Date().toISOString()],
+      sql: `INSERT INTO couplet_records (openid, upper_line, lower_line, theme, difficulty, mode, lower_candidates, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            RETURNING id, openid, upper_line, lower_line, theme, difficulty, mode, score, created_at`,
+      args: [
+        data.openid,
+        data.upperLine,
+        data.lowerLine ?? null,
+        data.theme,
+        data.difficulty ?? 'medium',
+        data.mode ?? 'classic',
+        data.lowerCandidates ? JSON.stringify(data.lowerCandidates) : null,
+        new Date().toISOString(),
+      ],
     });
     return result.rows[0];
   },
@@ -134,23 +213,114 @@ export const coupletDb = {
     return result.rows[0] ?? null;
   },
 
-  // 更新对联记录评分和下联
+  // 上联是否仍在待作答的玩法中：当前或预生成的每日挑战、未结束且未过期的对决、尚未评分的普通对联
+  async isUpperLineInPlay(upperLine: string, today: string, now: string = new Date().toISOString()) {
+    const result = await db.execute({
+      sql: `SELECT
+              EXISTS (SELECT 1 FROM daily_challenges WHERE upper_line = ? AND challenge_date >= ?)
+              OR EXISTS (SELECT 1 FROM couplet_duels WHERE upper_line = ? AND status = 'pending' AND expires_at > ?)
+              OR EXISTS (SELECT 1 FROM couplet_records WHERE upper_line = ? AND COALESCE(mode, 'classic') != 'reverse' AND score IS NULL)
+              AS in_play`,
+      args: [upperLine, today, upperLine, now, upperLine],
+    });
+    return Number(result.rows[0]?.in_play) === 1;
+  },
+
+  // 把更优的尝试写入对联记录：尚无评分或新评分更高时才更新，同分保留较早的尝试，未更新返回 null
+  // 下联改动后原横批不再相配，一并清空
   async updateCoupletScore(recordId: number, lowerLine: string, score: number, reviewSummary: string, canShare: boolean) {
     const result = await db.execute({
       sql: `UPDATE couplet_records
-            SET lower_line = ?, score = ?, review_summary = ?, can_share = ?, updated_at = ?
+            SET lower_line = ?, score = ?, review_summary = ?, can_share = ?, updated_at = ?,
+                horizontal_scroll = CASE WHEN lower_line = ? THEN horizontal_scroll END,
+                horizontal_source = CASE WHEN lower_line = ? THEN horizontal_source END,
+                horizontal_score = CASE WHEN lower_line = ? THEN horizontal_score END,
+                horizontal_summary = CASE WHEN lower_line = ? THEN horizontal_summary END
+            WHERE id = ? AND (score IS NULL OR score < ?)
+            RETURNING *`,
+      args: [
+        lowerLine, score, reviewSummary, canShare ? 1 : 0, new Date().toISOString(),
+        lowerLine, lowerLine, lowerLine, lowerLine,
+        recordId, score,
+      ],
+    });
+    return result.rows[0] ?? null;
+  },
+
+  // 保存提示用的参考下联（并发时以先写入的为准）
+  async saveHintSample(recordId: number, sample: string) {
+    const result = await db.execute({
+      sql: `UPDATE couplet_records SET hint_sample = COALESCE(hint_sample, ?) WHERE id = ? RETURNING hint_sample`,
+      args: [sample, recordId],
+    });
+    return result.rows[0]?.hint_sample ? String(result.rows[0].hint_sample) : null;
+  },
+
+  // 使用下一级提示：在同一事务中扣减积分、记录提示级别并同步余额
+  // 余额不足、对联已点评或该级提示已使用时不扣分，返回 false
+  async chargeHint(data: {
+    openid: string;
+    recordId: number;
+    level: number;
+    cost: number;
+    reason: string;
+    idempotencyKey: string;
+  }) {
+    const now = new Date().toISOString();
+    const results = await db.batch([
+      {
+        sql: `INSERT INTO points_log (openid, points, reason, source, idempotency_key, created_at)
+              SELECT ?, ?, ?, 'hint', ?, ?
+              WHERE (SELECT COALESCE(SUM(points), 0) FROM points_log WHERE openid = ?) >= ?
+                AND EXISTS (
+                  SELECT 1 FROM couplet_records
+                  WHERE id = ? AND openid = ? AND score IS NULL AND COALESCE(hints_used, 0) = ?
+                )
+              ON CONFLICT(openid, idempotency_key) DO NOTHING`,
+        args: [
+          data.openid, -data.cost, data.reason, data.idempotencyKey, now,
+          data.openid, data.cost,
+          data.recordId, data.openid, data.level - 1,
+        ],
+      },
+      {
+        sql: `UPDATE couplet_records SET hints_used = ?
+              WHERE id = ? AND COALESCE(hints_used, 0) = ?
+                AND EXISTS (SELECT 1 FROM points_log WHERE openid = ? AND idempotency_key = ?)`,
+        args: [data.level, data.recordId, data.level - 1, data.openid, data.idempotencyKey],
+      },
+      {
+        sql: `UPDATE user_stats
+              SET total_points = (SELECT COALESCE(SUM(points), 0) FROM points_log WHERE openid = ?), updated_at = ?
+              WHERE openid = ?`,
+        args: [data.openid, now, data.openid],
+      },
+    ], 'write');
+    return results[0].rowsAffected === 1;
+  },
+
+  // 保存横批（AI 生成或用户自写并经点评）
+  async updateHorizontalScroll(recordId: number, data: {
+    horizontalScroll: string;
+    source: 'ai' | 'user';
+    score: number | null;
+    summary: string | null;
+  }) {
+    const result = await db.execute({
+      sql: `UPDATE couplet_records
+            SET horizontal_scroll = ?, horizontal_source = ?, horizontal_score = ?, horizontal_summary = ?, updated_at = ?
             WHERE id = ?
             RETURNING *`,
-      args: [lowerLine, score, reviewSummary, canShare ? 1 : 0, new Date().toISOString(), recordId],
+      args: [data.horizontalScroll, data.source, data.score, data.summary, new Date().toISOString(), recordId],
     });
-    return result.rows[0];
+    return result.rows[0] ?? null;
   },
 
-  // 标记对联为已分享
+  // 标记对联为已分享，并累计该对联的分享次数（shared_at 保留首次分享时间，排行榜按它划分周期）
   async markAsShared(recordId: number) {
     const result = await db.execute({
       sql: `UPDATE couplet_records
-            SET is_shared = 1, shared_at = ?
+            SET is_shared = 1, shared_at = COALESCE(shared_at, ?), share_count = COALESCE(share_count, 0) + 1
             WHERE id = ?
             RETURNING *`,
       args: [new Date().toISOString(), recordId],
@@ -201,20 +371,13 @@ export const userStatsDb = {
     return result.rows[0] ?? null;
   },
 
-  // 增加用户积分
-  async addPoints(openid: string, points: number, reason: string) {
+  // 累计用户分享次数
+  async incrementShares(openid: string) {
     await db.execute({
       sql: `UPDATE user_stats
-            SET total_points = total_points + ?, updated_at = ?
+            SET total_shares = COALESCE(total_shares, 0) + 1, updated_at = ?
             WHERE openid = ?`,
-      args: [points, new Date().toISOString(), openid],
-    });
-
-    // 记录积分日志
-    await db.execute({
-      sql: `INSERT INTO points_log (openid, points, reason, created_at)
-            VALUES (?, ?, ?, ?)`,
-      args: [openid, points, reason, new Date().toISOString()],
+      args: [new Date().toISOString(), openid],
     });
   },
 
@@ -259,9 +422,8 @@ export const achievementDb = {
   },
 
   // 初始化用户所有成就
-  async initAchievements(openid: string) {
-    const badges = ['novice', 'enthusiast', 'master', 'spring_expert', 'lantern_expert', 'sharing_expert', 'viral'];
-    for (const badgeId of badges) {
+  async initAchievements(openid: string, badgeIds: string[]) {
+    for (const badgeId of badgeIds) {
       await db.execute({
         sql: `INSERT OR IGNORE INTO user_achievements (openid, badge_id, progress, created_at)
               VALUES (?, ?, 0, ?)`,
@@ -270,16 +432,16 @@ export const achievementDb = {
     }
   },
 
-  // 解锁成就
+  // 解锁成就；已解锁时不重复写入，返回 null
   async unlockAchievement(openid: string, badgeId: string) {
     const result = await db.execute({
       sql: `UPDATE user_achievements
             SET progress = 100, unlocked_at = ?
-            WHERE openid = ? AND badge_id = ?
+            WHERE openid = ? AND badge_id = ? AND unlocked_at IS NULL
             RETURNING *`,
       args: [new Date().toISOString(), openid, badgeId],
     });
-    return result.rows[0];
+    return result.rows[0] ?? null;
   },
 
   // 更新成就进度
@@ -293,6 +455,96 @@ export const achievementDb = {
     });
     return result.rows[0];
   },
+
+  // 汇总用户已完成对联的成就指标
+  async getCoupletMetrics(openid: string) {
+    const result = await db.execute({
+      sql: `SELECT COUNT(*) AS total_couplets,
+                   SUM(CASE WHEN score >= 3 THEN 1 ELSE 0 END) AS three_star_count,
+                   AVG(score) AS avg_score,
+                   MAX(COALESCE(share_count, 0)) AS max_share_count
+            FROM couplet_records
+            WHERE openid = ? AND score IS NOT NULL`,
+      args: [openid],
+    });
+    const row = result.rows[0];
+    return {
+      totalCouplets: Number(row?.total_couplets) || 0,
+      threeStarCount: Number(row?.three_star_count) || 0,
+      avgScore: Number(row?.avg_score) || 0,
+      maxShareCount: Number(row?.max_share_count) || 0,
+    };
+  },
+
+  // 按主题统计用户已完成的对联数；传入时间范围时只统计范围内创建的对联（限时徽章使用）
+  async getThemeCounts(openid: string, range?: { from: string | null; to: string | null }): Promise<Record<string, number>> {
+    const result = await db.execute({
+      sql: `SELECT theme, COUNT(*) AS total
+            FROM couplet_records
+            WHERE openid = ? AND score IS NOT NULL
+              AND (? IS NULL OR created_at >= ?)
+              AND (? IS NULL OR created_at < ?)
+            GROUP BY theme`,
+      args: [openid, range?.from ?? null, range?.from ?? null, range?.to ?? null, range?.to ?? null],
+    });
+    const counts: Record<string, number> = {};
+    for (const row of result.rows) {
+      counts[String(row.theme)] = Number(row.total);
+    }
+    return counts;
+  },
+};
+
+export const badgeDb = {
+  // 获取全部徽章定义（含已下线的徽章）
+  async listBadges() {
+    const result = await db.execute({
+      sql: 'SELECT * FROM badge_definitions ORDER BY created_at, rowid',
+      args: [],
+    });
+    return result.rows;
+  },
+
+  // 新增徽章定义；ID 已存在时返回 null
+  async createBadge(data: {
+    id: string;
+    name: string;
+    description: string;
+    icon: string;
+    requirement: unknown;
+    activeFrom?: string | null;
+    activeTo?: string | null;
+  }) {
+    const result = await db.execute({
+      sql: `INSERT INTO badge_definitions (id, name, description, icon, requirement, active_from, active_to, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(id) DO NOTHING
+            RETURNING *`,
+      args: [
+        data.id,
+        data.name,
+        data.description,
+        data.icon,
+        JSON.stringify(data.requirement),
+        data.activeFrom ?? null,
+        data.activeTo ?? null,
+        new Date().toISOString(),
+      ],
+    });
+    return result.rows[0] ?? null;
+  },
+
+  // 下线徽章；不存在或已下线时返回 null
+  async retireBadge(id: string) {
+    const result = await db.execute({
+      sql: `UPDATE badge_definitions
+            SET retired_at = ?
+            WHERE id = ? AND retired_at IS NULL
+            RETURNING *`,
+      args: [new Date().toISOString(), id],
+    });
+    return result.rows[0] ?? null;
+  },
 };
 
 export const dailyChallengeDb = {
@@ -305,15 +557,22 @@ export const dailyChallengeDb = {
     return result.rows[0] ?? null;
   },
 
-  // 创建每日挑战
+  // 创建每日挑战；并发创建同一天时以先写入的为准，返回当天实际生效的挑战
   async createDailyChallenge(data: { date: string; upperLine: string; theme: string; difficulty: string }) {
     const result = await db.execute({
       sql: `INSERT INTO daily_challenges (challenge_date, upper_line, theme, difficulty, created_at)
             VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT(challenge_date) DO NOTHING
             RETURNING *`,
       args: [data.date, data.upperLine, data.theme, data.difficulty, new Date().toISOString()],
     });
-    return result.rows[0];
+    return result.rows[0] ?? await dailyChallengeDb.getDailyChallenge(data.date);
+  },
+
+  // 获取全部已出过的每日挑战上联（用于去重）
+  async getAllUpperLines(): Promise<string[]> {
+    const result = await db.execute({ sql: 'SELECT upper_line FROM daily_challenges', args: [] });
+    return result.rows.map((row) => String(row.upper_line));
   },
 
   // 获取用户今日挑战记录
@@ -327,22 +586,549 @@ export const dailyChallengeDb = {
     return result.rows[0] ?? null;
   },
 
-  // 保存用户每日挑战记录
+  // 获取用户已记分的挑战日期（用于计算连续天数）
+  async getUserChallengeDates(openid: string): Promise<string[]> {
+    const result = await db.execute({
+      sql: `SELECT challenge_date FROM user_daily_records
+            WHERE openid = ? AND score IS NOT NULL
+            ORDER BY challenge_date`,
+      args: [openid],
+    });
+    return result.rows.map((row) => String(row.challenge_date));
+  },
+
+  // 开始今日挑战：首次调用时记录服务端开始时间，之后重复调用不会刷新
+  async startDailyRecord(openid: string, date: string) {
+    const now = new Date().toISOString();
+    await db.execute({
+      sql: `INSERT INTO user_daily_records (openid, challenge_date, started_at, created_at)
+            VALUES (?, ?, ?, ?)
+            ON CONFLICT(openid, challenge_date) DO NOTHING`,
+      args: [openid, date, now, now],
+    });
+    return dailyChallengeDb.getUserDailyRecord(openid, date);
+  },
+
+  // 保存用户每日挑战成绩；每天只记一次分，已有成绩时返回 null
   async saveDailyRecord(data: {
     openid: string;
     date: string;
+    lowerLine: string;
     score: number;
+    reviewSummary: string;
     timeSpent: number;
     isLimitMode: boolean;
   }) {
     const result = await db.execute({
-      sql: `INSERT OR REPLACE INTO user_daily_records (openid, challenge_date, score, time_spent, is_limit_mode, updated_at)
+      sql: `UPDATE user_daily_records
+            SET lower_line = ?, score = ?, review_summary = ?, time_spent = ?, is_limit_mode = ?, updated_at = ?
+            WHERE openid = ? AND challenge_date = ? AND score IS NULL
+            RETURNING *`,
+      args: [
+        data.lowerLine,
+        data.score,
+        data.reviewSummary,
+        data.timeSpent,
+        data.isLimitMode ? 1 : 0,
+        new Date().toISOString(),
+        data.openid,
+        data.date,
+      ],
+    });
+    return result.rows[0] ?? null;
+  },
+};
+
+// ========================
+// 积分账本
+// ========================
+
+export const pointsDb = {
+  // 写入一条积分流水；同一用户的幂等键已存在时不写入，返回 null
+  async addEntry(data: {
+    openid: string;
+    points: number;
+    reason: string;
+    source: string;
+    idempotencyKey: string;
+  }) {
+    const result = await db.execute({
+      sql: `INSERT INTO points_log (openid, points, reason, source, idempotency_key, created_at)
             VALUES (?, ?, ?, ?, ?, ?)
+            ON CONFLICT(openid, idempotency_key) DO NOTHING
+            RETURNING *`,
+      args: [data.openid, data.points, data.reason, data.source, data.idempotencyKey, new Date().toISOString()],
+    });
+    return result.rows[0] ?? null;
+  },
+
+  // 判断幂等键是否已记过账
+  async hasEntry(openid: string, idempotencyKey: string) {
+    const result = await db.execute({
+      sql: 'SELECT 1 FROM points_log WHERE openid = ? AND idempotency_key = ? LIMIT 1',
+      args: [openid, idempotencyKey],
+    });
+    return result.rows.length > 0;
+  },
+
+  // 统计某来源自指定时间起获得的积分（用于每日上限）
+  async getEarnedSince(openid: string, source: string, since: string) {
+    const result = await db.execute({
+      sql: `SELECT COALESCE(SUM(points), 0) AS total
+            FROM points_log
+            WHERE openid = ? AND source = ? AND points > 0 AND created_at >= ?`,
+      args: [openid, source, since],
+    });
+    return Number(result.rows[0].total);
+  },
+
+  // 按流水重新计算积分余额，并同步到 user_stats
+  async syncBalance(openid: string) {
+    const result = await db.execute({
+      sql: `UPDATE user_stats
+            SET total_points = (SELECT COALESCE(SUM(points), 0) FROM points_log WHERE openid = ?), updated_at = ?
+            WHERE openid = ?
+            RETURNING total_points`,
+      args: [openid, new Date().toISOString(), openid],
+    });
+    return Number(result.rows[0]?.total_points ?? 0);
+  },
+
+  // 获取积分余额（以流水为准）
+  async getBalance(openid: string) {
+    const result = await db.execute({
+      sql: 'SELECT COALESCE(SUM(points), 0) AS balance FROM points_log WHERE openid = ?',
+      args: [openid],
+    });
+    return Number(result.rows[0].balance);
+  },
+
+  // 获取积分流水（按时间倒序）
+  async getHistory(openid: string, limit = 20, offset = 0) {
+    const [rows, count] = await Promise.all([
+      db.execute({
+        sql: `SELECT id, points, reason, source, created_at
+              FROM points_log
+              WHERE openid = ?
+              ORDER BY created_at DESC, id DESC
+              LIMIT ? OFFSET ?`,
+        args: [openid, limit, offset],
+      }),
+      db.execute({ sql: 'SELECT COUNT(*) AS total FROM points_log WHERE openid = ?', args: [openid] }),
+    ]);
+    return { items: rows.rows, total: Number(count.rows[0].total) };
+  },
+};
+
+// ========================
+// 积分兑换与权益
+// ========================
+
+export const entitlementDb = {
+  // 获取用户当前有效的权益
+  async getActiveEntitlements(openid: string) {
+    const result = await db.execute({
+      sql: `SELECT * FROM user_entitlements
+            WHERE openid = ? AND (expires_at IS NULL OR expires_at > ?)
+            ORDER BY created_at`,
+      args: [openid, new Date().toISOString()],
+    });
+    return result.rows;
+  },
+
+  // 兑换：在同一事务中扣减积分、发放权益并同步余额
+  // 余额不足、幂等键已存在或不可重复兑换的商品已拥有时不扣分也不发放，返回 false
+  async redeem(data: {
+    openid: string;
+    itemId: string;
+    repeatable: boolean;
+    cost: number;
+    reason: string;
+    idempotencyKey: string;
+    type: string;
+    value: string | null;
+    amount: number | null;
+    expiresAt: string | null;
+  }) {
+    const now = new Date().toISOString();
+    const results = await db.batch([
+      {
+        sql: `INSERT INTO points_log (openid, points, reason, source, idempotency_key, created_at)
+              SELECT ?, ?, ?, 'redeem', ?, ?
+              WHERE (SELECT COALESCE(SUM(points), 0) FROM points_log WHERE openid = ?) >= ?
+                AND (? = 1 OR NOT EXISTS (SELECT 1 FROM user_entitlements WHERE openid = ? AND item_id = ?))
+              ON CONFLICT(openid, idempotency_key) DO NOTHING`,
+        args: [
+          data.openid, -data.cost, data.reason, data.idempotencyKey, now,
+          data.openid, data.cost,
+          data.repeatable ? 1 : 0, data.openid, data.itemId,
+        ],
+      },
+      {
+        sql: `INSERT INTO user_entitlements (openid, item_id, type, value, amount, expires_at, source_key, created_at)
+              SELECT ?, ?, ?, ?, ?, ?, ?, ?
+              WHERE EXISTS (SELECT 1 FROM points_log WHERE openid = ? AND idempotency_key = ?)
+              ON CONFLICT(openid, source_key) DO NOTHING`,
+        args: [
+          data.openid,
+          data.itemId,
+          data.type,
+          data.value,
+          data.amount,
+          data.expiresAt,
+          data.idempotencyKey,
+          now,
+          data.openid,
+          data.idempotencyKey,
+        ],
+      },
+      {
+        sql: `UPDATE user_stats
+              SET total_points = (SELECT COALESCE(SUM(points), 0) FROM points_log WHERE openid = ?), updated_at = ?
+              WHERE openid = ?`,
+        args: [data.openid, now, data.openid],
+      },
+    ], 'write');
+    return results[0].rowsAffected === 1;
+  },
+};
+
+// ========================
+// 对联尝试记录
+// ========================
+
+export const attemptDb = {
+  // 统计对联已提交的尝试次数
+  async countAttempts(recordId: number) {
+    const result = await db.execute({
+      sql: 'SELECT COUNT(*) AS total FROM couplet_attempts WHERE record_id = ?',
+      args: [recordId],
+    });
+    return Number(result.rows[0]?.total) || 0;
+  },
+
+  // 追加一次尝试，序号自增；已达上限或并发提交占用了同一序号时返回 null
+  async addAttempt(data: {
+    recordId: number;
+    openid: string;
+    lowerLine: string;
+    score: number;
+    reviewJson: string;
+    analysisJson: string;
+    hintsUsed: number;
+    maxAttempts: number;
+  }) {
+    const result = await db.execute({
+      sql: `INSERT INTO couplet_attempts
+              (record_id, openid, attempt_no, lower_line, score, review_json, analysis_json, hints_used, created_at)
+            SELECT ?, ?, COALESCE(MAX(attempt_no), 0) + 1, ?, ?, ?, ?, ?, ?
+            FROM couplet_attempts WHERE record_id = ?
+            HAVING COUNT(*) < ?
+            ON CONFLICT(record_id, attempt_no) DO NOTHING
             RETURNING *`,
-      args: [data.openid, data.date, data.score, data.timeSpent, data.isLimitMode ? 1 : 0, new Date().toISOString()],
+      args: [
+        data.recordId, data.openid, data.lowerLine, data.score, data.reviewJson, data.analysisJson, data.hintsUsed,
+        new Date().toISOString(),
+        data.recordId, data.maxAttempts,
+      ],
+    });
+    return result.rows[0] ?? null;
+  },
+
+  // 获取对联的全部尝试（按提交顺序）
+  async getAttempts(recordId: number) {
+    const result = await db.execute({
+      sql: 'SELECT * FROM couplet_attempts WHERE record_id = ? ORDER BY attempt_no ASC',
+      args: [recordId],
+    });
+    return result.rows;
+  },
+};
+
+// ========================
+// 对联对决
+// ========================
+
+export const duelDb = {
+  // 创建对决，发起人的下联与评分在发起时固定
+  async createDuel(data: {
+    token: string;
+    recordId: number;
+    challengerOpenid: string;
+    upperLine: string;
+    theme: string | null;
+    difficulty: string | null;
+    challengerLowerLine: string;
+    challengerScore: number;
+    challengerSummary: string | null;
+    expiresAt: string;
+  }) {
+    const result = await db.execute({
+      sql: `INSERT INTO couplet_duels
+              (token, record_id, challenger_openid, upper_line, theme, difficulty,
+               challenger_lower_line, challenger_score, challenger_summary, status, expires_at, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?)
+            RETURNING *`,
+      args: [
+        data.token, data.recordId, data.challengerOpenid, data.upperLine, data.theme, data.difficulty,
+        data.challengerLowerLine, data.challengerScore, data.challengerSummary, data.expiresAt,
+        new Date().toISOString(),
+      ],
     });
     return result.rows[0];
   },
+
+  // 按分享 token 获取对决
+  async getDuelByToken(token: string) {
+    const result = await db.execute({
+      sql: 'SELECT * FROM couplet_duels WHERE token = ?',
+      args: [token],
+    });
+    return result.rows[0] ?? null;
+  },
+
+  // 写入应战答案并结束对决；已有人作答、已过期或由发起人作答时返回 null
+  async submitAnswer(token: string, data: {
+    openid: string;
+    lowerLine: string;
+    score: number;
+    reviewJson: string;
+    winner: string;
+  }) {
+    const now = new Date().toISOString();
+    const result = await db.execute({
+      sql: `UPDATE couplet_duels
+            SET opponent_openid = ?, opponent_lower_line = ?, opponent_score = ?, opponent_review_json = ?,
+                winner = ?, status = 'finished', finished_at = ?
+            WHERE token = ? AND status = 'pending' AND opponent_openid IS NULL
+              AND challenger_openid != ? AND expires_at > ?
+            RETURNING *`,
+      args: [data.openid, data.lowerLine, data.score, data.reviewJson, data.winner, now, token, data.openid, now],
+    });
+    return result.rows[0] ?? null;
+  },
+};
+
+// ========================
+// 排行榜快照
+// ========================
+
+type LeaderboardPeriodArgs = {
+  period: string;
+  key: string;
+  start: string | null;
+  end: string | null;
+};
+
+type LeaderboardScopeArgs = {
+  scope: string;
+  theme: string | null;
+  difficulty: string | null;
+};
+
+// 榜单排序：难度加权分降序，同分先分享者优先，仍相同时按 openid 保证顺序稳定
+const LEADERBOARD_ORDER = "le.weighted_score DESC, le.shared_at ASC, le.openid ASC";
+
+export const leaderboardDb = {
+  // 重新计算用户在各周期、各筛选范围的最佳对联（已分享且评分达标），没有达标对联时移除该用户
+  async refreshUserEntries(
+    openid: string,
+    periods: LeaderboardPeriodArgs[],
+    scopes: LeaderboardScopeArgs[],
+    options: { minScore: number; weights: Record<'simple' | 'medium' | 'hard', number>; hintFactors: number[] }
+  ) {
+    const now = new Date().toISOString();
+    const { weights, hintFactors } = options;
+    // 已用提示级数对应的折扣系数，超出配置的级数按最后一项计
+    const hintFactorSql = `CASE COALESCE(hints_used, 0) ${hintFactors.slice(0, -1).map((_, i) => `WHEN ${i} THEN ?`).join(" ")} ELSE ? END`;
+    const statements = periods.flatMap((p) => scopes.map((s) => [
+      {
+        sql: `DELETE FROM leaderboard_entries WHERE period = ? AND period_key = ? AND scope = ? AND openid = ?`,
+        args: [p.period, p.key, s.scope, openid],
+      },
+      {
+        sql: `INSERT INTO leaderboard_entries
+                (period, period_key, scope, openid, record_id, score, weighted_score, theme, difficulty, shared_at, updated_at)
+              SELECT ?, ?, ?, openid, id, score, weighted_score, theme, difficulty, shared_at, ?
+              FROM (
+                SELECT id, openid, score, theme, COALESCE(difficulty, 'medium') AS difficulty, shared_at,
+                       ROUND(score * CASE COALESCE(difficulty, 'medium') WHEN 'simple' THEN ? WHEN 'hard' THEN ? ELSE ? END
+                         * ${hintFactorSql}, 2) AS weighted_score
+                FROM couplet_records
+                WHERE openid = ? AND is_shared = 1 AND score >= ?
+                  AND (? IS NULL OR shared_at >= ?) AND (? IS NULL OR shared_at < ?)
+              )
+              WHERE (? IS NULL OR theme = ?) AND (? IS NULL OR difficulty = ?)
+              ORDER BY weighted_score DESC, shared_at ASC, id ASC
+              LIMIT 1`,
+        args: [
+          p.period, p.key, s.scope, now,
+          weights.simple, weights.hard, weights.medium, ...hintFactors,
+          openid, options.minScore,
+          p.start, p.start, p.end, p.end,
+          s.theme, s.theme, s.difficulty, s.difficulty,
+        ],
+      },
+    ]));
+    await db.batch(statements.flat(), 'write');
+  },
+
+  // 分页获取榜单
+  async getEntries(period: string, key: string, scope: string, limit: number, offset: number) {
+    const result = await db.execute({
+      sql: `SELECT le.*, cr.upper_line, cr.lower_line, cr.horizontal_scroll, cr.hints_used, cr.review_summary,
+                   u.nickname, u.avatar_url
+            FROM leaderboard_entries le
+            JOIN couplet_records cr ON cr.id = le.record_id
+            LEFT JOIN users u ON u.openid = le.openid
+            WHERE le.period = ? AND le.period_key = ? AND le.scope = ?
+            ORDER BY ${LEADERBOARD_ORDER}
+            LIMIT ? OFFSET ?`,
+      args: [period, key, scope, limit, offset],
+    });
+    return result.rows;
+  },
+
+  // 榜单人数
+  async countEntries(period: string, key: string, scope: string) {
+    const result = await db.execute({
+      sql: `SELECT COUNT(*) AS total FROM leaderboard_entries WHERE period = ? AND period_key = ? AND scope = ?`,
+      args: [period, key, scope],
+    });
+    return Number(result.rows[0]?.total) || 0;
+  },
+
+  // 获取用户在榜单中的条目与名次，未上榜返回 null
+  async getUserRank(period: string, key: string, scope: string, openid: string) {
+    const entry = await db.execute({
+      sql: `SELECT * FROM leaderboard_entries WHERE period = ? AND period_key = ? AND scope = ? AND openid = ?`,
+      args: [period, key, scope, openid],
+    });
+    const row = entry.rows[0];
+    if (!row) return null;
+
+    const result = await db.execute({
+      sql: `SELECT COUNT(*) AS ahead FROM leaderboard_entries
+            WHERE period = ? AND period_key = ? AND scope = ?
+              AND (weighted_score > ?
+                OR (weighted_score = ? AND shared_at < ?)
+                OR (weighted_score = ? AND shared_at = ? AND openid < ?))`,
+      args: [
+        period, key, scope,
+        row.weighted_score,
+        row.weighted_score, row.shared_at,
+        row.weighted_score, row.shared_at, openid,
+      ],
+    });
+    return { rank: (Number(result.rows[0]?.ahead) || 0) + 1, recordId: row.record_id, score: row.score };
+  },
+
+  // 各主题榜单的第一名（主题页的「本周最佳对联」）
+  async getThemeLeaders(period: string, key: string) {
+    const result = await db.execute({
+      sql: `SELECT * FROM (
+              SELECT le.*, cr.upper_line, cr.lower_line, cr.horizontal_scroll, cr.hints_used, cr.review_summary,
+                     u.nickname, u.avatar_url,
+                     ROW_NUMBER() OVER (PARTITION BY le.scope ORDER BY ${LEADERBOARD_ORDER}) AS rn
+              FROM leaderboard_entries le
+              JOIN couplet_records cr ON cr.id = le.record_id
+              LEFT JOIN users u ON u.openid = le.openid
+              WHERE le.period = ? AND le.period_key = ? AND le.scope = 'theme:' || le.theme
+            )
+            WHERE rn = 1`,
+      args: [period, key],
+    });
+    return result.rows;
+  },
+};
+
+// ========================
+// AI 用量统计
+// ========================
+
+export const usageDb = {
+  // 记录一次 AI 调用的用量
+  async logUsage(data: {
+    feature: string;
+    provider: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;
+    latencyMs: number;
+    success: boolean;
+    error?: string;
+  }) {
+    await db.execute({
+      sql: `INSERT INTO ai_usage_log (feature, provider, model, prompt_tokens, completion_tokens, cost, latency_ms, success, error, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        data.feature,
+        data.provider,
+        data.model,
+        data.promptTokens,
+        data.completionTokens,
+        data.cost,
+        data.latencyMs,
+        data.success ? 1 : 0,
+        data.error ?? null,
+        new Date().toISOString(),
+      ],
+    });
+  },
+
+  // 按天（北京时间）、供应商、功能汇总用量
+  async getUsageSummary(fromDate: string, toDate: string) {
+    const result = await db.execute({
+      sql: `SELECT date(created_at, '+8 hours') AS day,
+                   provider,
+                   feature,
+                   COUNT(*) AS calls,
+                   SUM(CASE WHEN success = 0 THEN 1 ELSE 0 END) AS failures,
+                   SUM(prompt_tokens) AS prompt_tokens,
+                   SUM(completion_tokens) AS completion_tokens,
+                   SUM(cost) AS cost,
+                   AVG(latency_ms) AS avg_latency_ms
+            FROM ai_usage_log
+            WHERE date(created_at, '+8 hours') BETWEEN ? AND ?
+            GROUP BY day, provider, feature
+            ORDER BY day DESC, cost DESC`,
+      args: [fromDate, toDate],
+    });
+    return result.rows;
+  },
+};
+
+// ========================
+// 内容审核日志
+// ========================
+
+export const moderationDb = {
+  // 记录一次输出审核结论
+  async logVerdict(data: {
+    feature: string;
+    openid?: string;
+    occasion?: string;
+    attempt: number;
+    passed: boolean;
+    hits: { term: string; category: string }[];
+    text?: string;
+  }) {
+    await db.execute({
+      sql: `INSERT INTO moderation_log (feature, openid, occasion, attempt, passed, hits, text, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        data.feature,
+        data.openid ?? null,
+        data.occasion ?? null,
+        data.attempt,
+        data.passed ? 1 : 0,
+        JSON.stringify(data.hits),
+        data.text ?? null,
+        new Date().toISOString(),
+      ],
+    });
+  },
 };
 
 // Direct query helper for routes that need raw queries
@@ -0,0 +1,169 @@
+import { addDays, getChinaDateString } from "@/lib/daily-challenge";
+import { HINT_CONFIG, getHintScoreFactor } from "@/lib/couplet-hints";
+import { leaderboardDb } from "@/lib/db";
+
+/**
+ * 对联排行榜（周榜 / 月榜 / 总榜）
+ * 榜单读取预先计算的 leaderboard_entries 快照：每个时间窗口内每位用户只保留一条最佳对联
+ * （难度加权分最高，同分取最先分享的）。点评和分享后按对联的首次分享时间刷新该用户所在窗口的快照。
+ * 时间窗口按北京时间划分，周一为一周的第一天。
+ * 按主题、难度筛选的榜单是独立的快照范围（scope），每位用户在每个范围内各取一条最佳对联。
+ * 使用过提示的对联按 HINT_CONFIG.scoreFactors 打折后参与排名。
+ */
+
+/**
+ * 查询用的时间窗口
+ */
+export type LeaderboardWindow = 'this_week' | 'last_week' | 'month' | 'all';
+
+/**
+ * 快照按周期存储，周期键分别为周一日期（YYYY-MM-DD）、月份（YYYY-MM）和 all
+ */
+export type LeaderboardPeriodType = 'week' | 'month' | 'all';
+
+export interface LeaderboardPeriod {
+  period: LeaderboardPeriodType;
+  key: string;
+  start: string | null;  // 窗口开始（含），UTC ISO 时间，总榜为空
+  end: string | null;    // 窗口结束（不含）
+}
+
+/**
+ * 榜单筛选条件
+ */
+export interface LeaderboardFilter {
+  theme?: string;
+  difficulty?: 'simple' | 'medium' | 'hard';
+}
+
+export const LEADERBOARD_CONFIG = {
+  windows: ['this_week', 'last_week', 'month', 'all'] as LeaderboardWindow[],
+  minScore: 3,          // 上榜最低评分（且已分享），按原始评分判断
+  defaultPageSize: 20,
+  maxPageSize: 50,
+  // 难度权重：排名使用 评分 × 权重，修改后需重新回填快照（见 docs/script/migrate-leaderboard-filters.sql）
+  difficultyWeights: { simple: 1, medium: 1.2, hard: 1.5 } as Record<'simple' | 'medium' | 'hard', number>,
+};
+
+/**
+ * 北京时间某天零点对应的 UTC ISO 时间
+ */
+function chinaMidnight(date: string): string {
+  return new Date(`${date}T00:00:00+08:00`).toISOString();
+}
+
+/**
+ * 计算难度加权分（保留两位小数，与快照中的 weighted_score 一致）
+ * @param score - 原始评分
+ * @param difficulty - 难度，缺省按 medium 计
+ * @param hintsUsed - 已用提示级数，按级别打折
+ */
+export function calculateWeightedScore(score: number, difficulty?: string | null, hintsUsed = 0): number {
+  const weights = LEADERBOARD_CONFIG.difficultyWeights;
+  const weight = weights[difficulty as keyof typeof weights] ?? weights.medium;
+  return Math.round(score * weight * getHintScoreFactor(hintsUsed) * 100) / 100;
+}
+
+/**
+ * 筛选条件对应的快照范围：不筛选为空字符串，其余如 theme:春节、difficulty:hard、theme:春节|difficulty:hard
+ * @param filter - 筛选条件
+ */
+export function getLeaderboardScope(filter: LeaderboardFilter = {}): string {
+  const parts: string[] = [];
+  if (filter.theme) parts.push(`theme:${filter.theme}`);
+  if (filter.difficulty) parts.push(`difficulty:${filter.difficulty}`);
+  return parts.join("|");
+}
+
+/**
+ * 判断是否为支持的时间窗口
+ */
+export function isLeaderboardWindow(value: string): value is LeaderboardWindow {
+  return LEADERBOARD_CONFIG.windows.includes(value as LeaderboardWindow);
+}
+
+/**
+ * 获取某天所在周的周一（北京时间）
+ * @param date - 日期（YYYY-MM-DD）
+ * @returns 周一日期（YYYY-MM-DD）
+ */
+export function getWeekStart(date: string): string {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((weekday + 6) % 7));
+}
+
+/**
+ * 获取包含某一时刻的周、月、总榜周期
+ * @param at - 时刻，默认当前时间
+ * @returns 周榜、月榜、总榜周期
+ */
+export function getPeriodsAt(at: Date = new Date()): LeaderboardPeriod[] {
+  const today = getChinaDateString(at);
+  const weekStart = getWeekStart(today);
+  const month = today.slice(0, 7);
+  const [year, monthIndex] = month.split("-").map(Number);
+  const nextMonth = monthIndex === 12
+    ? `${year + 1}-01`
+    : `${year}-${String(monthIndex + 1).padStart(2, "0")}`;
+
+  return [
+    { period: 'week', key: weekStart, start: chinaMidnight(weekStart), end: chinaMidnight(addDays(weekStart, 7)) },
+    { period: 'month', key: month, start: chinaMidnight(`${month}-01`), end: chinaMidnight(`${nextMonth}-01`) },
+    { period: 'all', key: 'all', start: null, end: null },
+  ];
+}
+
+/**
+ * 解析查询窗口对应的快照周期
+ * @param window - 时间窗口
+ * @param now - 当前时间
+ * @returns 快照周期
+ */
+export function resolveLeaderboardPeriod(window: LeaderboardWindow, now: Date = new Date()): LeaderboardPeriod {
+  const [week, month, all] = getPeriodsAt(now);
+  switch (window) {
+    case 'this_week':
+      return week;
+    case 'last_week':
+      return getPeriodsAt(new Date(new Date(week.start!).getTime() - 1))[0];
+    case 'month':
+      return month;
+    case 'all':
+      return all;
+  }
+}
+
+/**
+ * 刷新用户在对联所在周期、所在筛选范围的榜单快照
+ * 刷新失败只记录错误，不影响点评、分享等主流程
+ * @param openid - 用户 openid
+ * @param record - 对联记录（取首次分享时间、主题和难度），未分享的对联不影响榜单
+ */
+export async function refreshLeaderboardEntries(
+  openid: string,
+  record: Record<string, unknown> | null | undefined
+): Promise<void> {
+  if (!record?.shared_at) return;
+  const theme = String(record.theme);
+  const difficulty = (record.difficulty ? String(record.difficulty) : 'medium') as LeaderboardFilter['difficulty'];
+  const filters: LeaderboardFilter[] = [{}, { theme }, { difficulty }, { theme, difficulty }];
+
+  try {
+    await leaderboardDb.refreshUserEntries(
+      openid,
+      getPeriodsAt(new Date(String(record.shared_at))),
+      filters.map((filter) => ({
+        scope: getLeaderboardScope(filter),
+        theme: filter.theme ?? null,
+        difficulty: filter.difficulty ?? null,
+      })),
+      {
+        minScore: LEADERBOARD_CONFIG.minScore,
+        weights: LEADERBOARD_CONFIG.difficultyWeights,
+        hintFactors: HINT_CONFIG.scoreFactors,
+      }
+    );
+  } catch (error) {
+    console.error("刷新排行榜快照失败:", error);
+  }
+}
@@ -0,0 +1,83 @@
+import { getChinaDateString } from "@/lib/daily-challenge";
+import { pointsDb, userStatsDb } from "@/lib/db";
+
+/**
+ * 积分账本
+ * 所有积分变动都写入 points_log 流水，余额以流水合计为准并同步到 user_stats.total_points。
+ * 每笔发放带幂等键（如同一对联同一分享方式只记一次），按来源设置每日获取上限（北京时间自然日）。
+ */
+
+/**
+ * 积分来源
+ */
+export type PointsSource = 'share' | 'daily_challenge' | 'redeem' | 'hint' | 'duel';  // redeem、hint 为扣减的负数流水
+
+/**
+ * 积分配置
+ */
+export const POINTS_CONFIG = {
+  share: { friend: 5, timeline: 10 } as Record<'friend' | 'timeline', number>,
+  // 各来源每天最多获得的积分，未配置的来源不设上限
+  dailyCaps: { share: 50, duel: 60 } as Partial<Record<PointsSource, number>>,
+};
+
+/**
+ * 发放结果
+ */
+export interface PointsAwardResult {
+  awarded: number;      // 实际发放的积分
+  duplicate: boolean;   // 幂等键已存在，未重复发放
+  capped: boolean;      // 达到每日上限，少发或未发
+  balance: number;      // 发放后的余额
+}
+
+/**
+ * 北京时间当天零点对应的 UTC 时间（ISO 字符串），与 points_log.created_at 比较
+ */
+export function getChinaDayStart(date: Date = new Date()): string {
+  return new Date(`${getChinaDateString(date)}T00:00:00+08:00`).toISOString();
+}
+
+/**
+ * 发放积分
+ * @param data.openid - 用户 openid
+ * @param data.points - 应发积分
+ * @param data.reason - 流水说明（展示给用户）
+ * @param data.source - 积分来源
+ * @param data.idempotencyKey - 幂等键，同一用户同一键只发放一次
+ * @returns 发放结果
+ */
+export async function awardPoints(data: {
+  openid: string;
+  points: number;
+  reason: string;
+  source: PointsSource;
+  idempotencyKey: string;
+}): Promise<PointsAwardResult> {
+  await userStatsDb.initUserStats(data.openid);
+
+  if (await pointsDb.hasEntry(data.openid, data.idempotencyKey)) {
+    return { awarded: 0, duplicate: true, capped: false, balance: await pointsDb.getBalance(data.openid) };
+  }
+
+  let points = data.points;
+  const cap = POINTS_CONFIG.dailyCaps[data.source];
+  if (cap !== undefined) {
+    const earned = await pointsDb.getEarnedSince(data.openid, data.source, getChinaDayStart());
+    points = Math.max(0, Math.min(points, cap - earned));
+  }
+  const capped = points < data.points;
+
+  // 已达上限时不写流水，之后的重复请求同样按上限处理
+  if (points === 0) {
+    return { awarded: 0, duplicate: false, capped, balance: await pointsDb.getBalance(data.openid) };
+  }
+
+  // 并发请求同一幂等键时只有一次能写入
+  const entry = await pointsDb.addEntry({ ...data, points });
+  if (!entry) {
+    return { awarded: 0, duplicate: true, capped: false, balance: await pointsDb.getBalance(data.openid) };
+  }
+
+  return { awarded: points, duplicate: false, capped, balance: await pointsDb.syncBalance(data.openid) };
+}
@@ -0,0 +1,158 @@
+import { createHash } from 'crypto';
+import {
+  PROMPT_TEMPLATE_VERSIONS,
+  PromptTemplateKey,
+  PromptTemplateVersion,
+} from '@/lib/config/prompt-template-versions';
+
+/**
+ * 提示词模板注册表
+ * 模板正文与版本维护在 lib/config/prompt-template-versions.ts，这里负责校验、按用户分流和渲染。
+ * 分流只依赖「模板键 + 用户标识」的哈希，同一用户在同一实验中始终命中同一版本，无需额外存储。
+ */
+
+// 模板变量，如 {{occasion}}
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+/**
+ * 校验模板版本库
+ * @param templates - 模板版本列表
+ * @throws Error - 版本重复、权重无效、某个模板键没有可分流的版本或正文使用了未声明的变量时抛出异常
+ */
+export function validatePromptTemplates(templates: PromptTemplateVersion[]): void {
+  const totals = new Map<PromptTemplateKey, number>();
+
+  templates.forEach((template) => {
+    const label = `${template.key}@${template.version}`;
+    if (templates.filter((item) => item.key === template.key && item.version === template.version).length > 1) {
+      throw new Error(`提示词模板 ${label} 重复`);
+    }
+    if (!Number.isInteger(template.weight) || template.weight < 0) {
+      throw new Error(`提示词模板 ${label} 的权重无效`);
+    }
+    const unknown = (template.body.match(VARIABLE_PATTERN) ?? [])
+      .map((placeholder) => placeholder.slice(2, -2))
+      .filter((name) => !template.variables.includes(name));
+    if (unknown.length > 0) {
+      throw new Error(`提示词模板 ${label} 使用了未声明的变量: ${unknown.join(', ')}`);
+    }
+    totals.set(template.key, (totals.get(template.key) ?? 0) + template.weight);
+  });
+
+  totals.forEach((total, key) => {
+    if (total <= 0) {
+      throw new Error(`提示词模板 ${key} 没有可分流的版本`);
+    }
+  });
+}
+
+// 加载时校验，配置错误在启动阶段暴露
+validatePromptTemplates(PROMPT_TEMPLATE_VERSIONS);
+
+/**
+ * 获取某个模板键的全部版本
+ * @param key - 模板键
+ * @param templates - 模板版本列表（默认使用配置文件）
+ * @returns 按配置顺序排列的版本列表
+ */
+export function getPromptVersions(
+  key: PromptTemplateKey,
+  templates: PromptTemplateVersion[] = PROMPT_TEMPLATE_VERSIONS
+): PromptTemplateVersion[] {
+  return templates.filter((template) => template.key === key);
+}
+
+/**
+ * 按用户稳定分配模板版本
+ * @param key - 模板键
+ * @param userKey - 用户标识（openid）
+ * @param templates - 模板版本列表（默认使用配置文件）
+ * @returns 分配到的版本号
+ * @throws Error - 模板键不存在时抛出异常
+ */
+export function assignPromptVersion(
+  key: PromptTemplateKey,
+  userKey: string,
+  templates: PromptTemplateVersion[] = PROMPT_TEMPLATE_VERSIONS
+): string {
+  const versions = getPromptVersions(key, templates).filter((template) => template.weight > 0);
+  if (versions.length === 0) {
+    throw new Error(`提示词模板 ${key} 不存在`);
+  }
+
+  const total = versions.reduce((sum, template) => sum + template.weight, 0);
+  // 取哈希前 8 位十六进制作为分桶依据
+  const bucket = parseInt(createHash('sha256').update(`${key}:${userKey}`).digest('hex').slice(0, 8), 16) % total;
+
+  let cumulative = 0;
+  for (const template of versions) {
+    cumulative += template.weight;
+    if (bucket < cumulative) {
+      return template.version;
+    }
+  }
+  return versions[versions.length - 1].version;
+}
+
+/**
+ * 确定本次请求使用的模板版本
+ * 显式指定且存在的版本优先（便于预览权重为 0 的版本），其次按用户分流，没有用户标识时使用权重最高的版本
+ * @param key - 模板键
+ * @param userKey - 用户标识（可选）
+ * @param requested - 显式指定的版本（可选）
+ * @param templates - 模板版本列表（默认使用配置文件）
+ * @returns 版本号
+ */
+export function resolvePromptVersion(
+  key: PromptTemplateKey,
+  userKey?: string,
+  requested?: string,
+  templates: PromptTemplateVersion[] = PROMPT_TEMPLATE_VERSIONS
+): string {
+  const versions = getPromptVersions(key, templates);
+  if (requested && versions.some((template) => template.version === requested)) {
+    return requested;
+  }
+  if (userKey) {
+    return assignPromptVersion(key, userKey, templates);
+  }
+  return versions.reduce((best, template) => (template.weight > best.weight ? template : best)).version;
+}
+
+/**
+ * 渲染模板
+ * @param key - 模板键
+ * @param version - 版本号
+ * @param variables - 变量值
+ * @param templates - 模板版本列表（默认使用配置文件）
+ * @returns 渲染后的提示词
+ * @throws Error - 版本不存在或缺少变量时抛出异常
+ */
+export function renderPromptTemplate(
+  key: PromptTemplateKey,
+  version: string,
+  variables: Record<string, string>,
+  templates: PromptTemplateVersion[] = PROMPT_TEMPLATE_VERSIONS
+): string {
+  const template = getPromptVersions(key, templates).find((item) => item.version === version);
+  if (!template) {
+    throw new Error(`提示词模板 ${key}@${version} 不存在`);
+  }
+
+  return template.body.replace(VARIABLE_PATTERN, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`提示词模板 ${key}@${version} 缺少变量 ${name}`);
+    }
+    return variables[name];
+  });
+}
+
+/**
+ * 拼接写入历史记录的版本标识，如 blessing_template@v2
+ * @param key - 模板键
+ * @param version - 版本号
+ * @returns 版本标识
+ */
+export function formatPromptVersion(key: PromptTemplateKey, version: string): string {
+  return `${key}@${version}`;
+}
@@ -1,3 +1,8 @@
+import type { ChatMessage } from "@/lib/ai-providers";
+import type { PromptTemplateKey } from "@/lib/config/prompt-template-versions";
+import { renderPromptTemplate, resolvePromptVersion } from "@/lib/prompt-registry";
+import { DIFFICULTY_LINE_LIMITS } from "@/lib/couplet-validation";
+
 /**
  * 祝福语请求接口
  * 定义了生成祝福语所需的所有参数
@@ -11,7 +16,7 @@ interface BlessingRequest {
   customDescription?: string; // 用户自定义描述（智能模式使用）
   useSmartMode?: boolean;     // 是否使用智能模式
   timestamp?: number;         // 时间戳（可选）
-  version?: string;
+  version?: string;           // 提示词模板版本（见 lib/config/prompt-template-versions.ts）
   userProfile?: 'elderly' | 'standard' | 'young'; // 用户群配置，用于调整语气风格
 }
 
@@ -24,31 +29,16 @@ interface BlessingRequest {
 export function createSmartPrompt(options: BlessingRequest): string {
   const { customDescription } = options;
 
-  // 根据用户群调整语气要求
-  const toneGuidance = getUserProfileToneGuidance(options.userProfile);
-
-  return `
-# Role
-你是一位精通中文社交礼仪与情感表达的文案专家，擅长根据不同人际关系捕捉最恰当的语气，创作既真诚又不落俗套的祝福语。
-
-# Task
-请根据以下描述生成一段个性化的祝福语：
-
-用户描述：${customDescription}
-
-请生成一段真诚、个性化、符合情境的祝福语。要求：
-${toneGuidance}
-1. 深度理解用户描述中的所有细节：人物关系、具体情况、情感背景等
-2. 自动识别并恰当使用文中提到的姓名、称呼、关系
-3. 根据描述的场景和情境选择最合适的语气和风格
-4. 体现对具体情况的理解和针对性关怀
-5. 长度适中（50-100字），真诚自然，避免套话模板
-6. 语言温暖有力，富有个人色彩和情感共鸣
-7. 如果描述中包含特殊背景，要巧妙地体现出来
-8. 避免使用敏感词汇
-
-# Output
-请直接返回祝福语内容，不需要其他说明。`;
+  return renderPromptTemplate(
+    'blessing_smart',
+    resolvePromptVersion('blessing_smart', undefined, options.version),
+    {
+      customDescription: customDescription ?? '',
+      // 根据用户群调整语气要求
+      toneGuidance: getUserProfileToneGuidance(options.userProfile),
+      lengthGuidance: getBlessingLengthGuidance(options.userProfile),
+    }
+  );
 }
 
 /**
@@ -60,34 +50,33 @@ ${toneGuidance}
 export function createTemplatePrompt(options: BlessingRequest): string {
   const { occasion, targetPerson, style = "温馨" } = options;
 
-  // 根据用户群调整语气要求
-  const toneGuidance = getUserProfileToneGuidance(options.userProfile);
-
   // 检查必需参数
   if (!occasion || !targetPerson) {
     throw new Error('经典模式需要提供场合和目标人群');
   }
 
-  return `
-# Role
-你是一位精通中文社交礼仪与情感表达的文案专家，擅长根据不同人际关系捕捉最恰当的语气，创作既真诚又不落俗套的祝福语。
-
-# Task
-请根据以下变量，为我撰写一段地道的中文祝福语：
-- 祝福场合：${occasion}
-- 祝福对象：${targetPerson}（请考虑与此人的亲疏关系）
-- 期望风格：${style}
-
-# Requirements
-${toneGuidance}
-1. 身份对齐：根据“祝福对象”自动调整称呼（如敬语“您”或亲昵称呼）和社交距离，确保不突兀。
-2. 内容结构：建议包含【对现状的肯定/赞美】+【核心祝愿】+【对未来的美好期许】。
-3. 语言去水：避免空洞的成语堆砌，优先使用口语化但有质感的表达，字数严格控制在 50-80 字之间。
-4. 情感共鸣：内容要积极正面，文字要有温度，读起来像是由衷而发而非模板生成。
+  return renderPromptTemplate(
+    'blessing_template',
+    resolvePromptVersion('blessing_template', undefined, options.version),
+    {
+      occasion,
+      targetPerson,
+      style,
+      // 根据用户群调整语气要求
+      toneGuidance: getUserProfileToneGuidance(options.userProfile),
+      lengthGuidance: getBlessingLengthGuidance(options.userProfile),
+    }
+  );
+}
 
-# Output
-请直接输出祝福语正文，无需任何开头语或解释。
-`;
+/**
+ * 获取请求对应的模板键
+ * 启用智能模式且有自定义描述时使用智能模式模板，否则使用经典模板
+ * @param options - 完整的祝福语请求参数
+ * @returns 模板键
+ */
+export function getBlessingTemplateKey(options: BlessingRequest): PromptTemplateKey {
+  return options.useSmartMode && options.customDescription?.trim() ? 'blessing_smart' : 'blessing_template';
 }
 
 /**
@@ -98,7 +87,7 @@ ${toneGuidance}
  */
 export function createBlessingPrompt(options: BlessingRequest): string {
   // 如果启用智能模式且有自定义描述，使用智能提示词
-  if (options.useSmartMode && options.customDescription?.trim()) {
+  if (getBlessingTemplateKey(options) === 'blessing_smart') {
     return createSmartPrompt(options);
   } else {
     // 否则使用经典模板提示词
@@ -107,38 +96,95 @@ export function createBlessingPrompt(options: BlessingRequest): string {
 }
 
 /**
- * 生成对联上联的提示词
- * @param theme - 对联主题
- * @param difficulty - 难度等级 ('simple' | 'medium' | 'hard')，影响字数范围
+ * 创建多候选祝福语的提示词
+ * 在单条提示词的基础上要求一次输出多条风格各异的候选（JSON 数组）
+ * @param options - 完整的祝福语请求参数
+ * @param count - 候选数量
+ * @returns 多候选提示词
  */
-export function createCoupletUpperPrompt(theme: string, difficulty?: 'simple' | 'medium' | 'hard'): string {
-  // 根据难度确定字数范围
-  const difficultyMap: Record<string, { min: number; max: number; desc: string }> = {
-    'simple': { min: 4, max: 5, desc: '4-5' },
-    'medium': { min: 6, max: 8, desc: '6-8' },
-    'hard': { min: 9, max: 14, desc: '9-14' }
-  };
+export function createBlessingVariantsPrompt(options: BlessingRequest, count: number): string {
+  return `${createBlessingPrompt(options)}
 
-  const targetDifficulty = difficultyMap[difficulty || 'medium'];
-  const charRange = `${targetDifficulty.min}-${targetDifficulty.max}`;
+# Variants
+以下要求优先于上面的 Output 说明：请一次创作 ${count} 条互不相同的候选祝福语，彼此之间要有明显差异：
+1. 开头方式不同（如直呼称呼、以场景切入、以祝愿开头）
+2. 长度有长有短，但都符合上面的字数要求
+3. 语气各有侧重（如温馨、俏皮、庄重），同时不偏离期望风格
 
-  return `
-# Role
-你是一位擅长创作中文对联的文案专家，熟悉常见节日、日常生活与人生场合的联语风格。
+# Output
+只输出一个包含 ${count} 个字符串的 JSON 数组，不要任何解释文字，不要 markdown 代码块标记，格式如：["祝福语1","祝福语2"]`;
+}
 
-# Task
-为「${theme}」主题创作一副对联的**上联**（仅上联一行）。
+/**
+ * 多轮修改请求参数
+ */
+interface RefineRequest {
+  blessing: string;            // 上一轮生成的祝福语
+  instruction: string;         // 本轮修改意见
+  occasion?: string;           // 原始场合（可选）
+  targetPerson?: string;       // 原始祝福对象（可选）
+  style?: string;              // 原始风格（可选）
+  userProfile?: 'elderly' | 'standard' | 'young';
+}
 
-# Requirements
+/**
+ * 创建多轮修改的对话消息
+ * 把上一轮结果作为 assistant 消息，修改意见作为新的 user 消息，让模型在原文基础上改写
+ * @param options - 修改请求参数
+ * @returns 对话消息列表
+ */
+export function createRefineMessages(options: RefineRequest): ChatMessage[] {
+  const { blessing, instruction, occasion, targetPerson, style } = options;
+  const toneGuidance = getUserProfileToneGuidance(options.userProfile);
+  const context = [
+    occasion && `- 祝福场合：${occasion}`,
+    targetPerson && `- 祝福对象：${targetPerson}`,
+    style && `- 期望风格：${style}`,
+  ].filter(Boolean).join('\n');
+
+  return [
+    {
+      role: 'system',
+      content: `你是一位精通中文社交礼仪与情感表达的文案专家，负责根据用户的修改意见改写祝福语。
+${toneGuidance}
+改写时保留原文的核心祝愿与称呼，只按修改意见调整；只输出修改后的祝福语正文，不要任何开头语、解释或 markdown 格式。`,
+    },
+    { role: 'user', content: context ? `请为我写一段祝福语：\n${context}` : '请为我写一段祝福语。' },
+    { role: 'assistant', content: blessing },
+    { role: 'user', content: instruction },
+  ];
+}
 
-1. 字数：${charRange} 个汉字（不含标点、空格）。字数必须严格在这个范围内。
-2. 内容积极，适合送给亲友，不涉及政治、暴力、低俗、迷信等敏感内容。
-3. 语言典雅但不晦涩，中老年读者能看懂。
-4. 为下联留出对仗空间：词性、意境可与之呼应，但不要写出下联。
-5. 不要输出横批、解释。只输出 ${charRange} 个汉字本身，不要任何标点符号、引号、序号、前缀（如「上联：」）、后缀或解释文字。
+/**
+ * 创建内容审核未通过后的纠正提示词
+ * @param prompt - 原始提示词
+ * @param terms - 命中的不当词语
+ * @returns 纠正提示词
+ */
+export function createModerationCorrectionPrompt(prompt: string, terms: string[]): string {
+  return `${prompt}
 
-# Output
-只输出 ${charRange} 个汉字，一行，无其他任何文字。`;
+# Avoid
+你上一次的输出包含不合适的词语：${terms.map((term) => `「${term}」`).join('')}。
+请重新创作，避免使用这些词语及其谐音，内容保持积极、吉利、得体，其余要求不变。`;
+}
+
+/**
+ * 生成对联上联的提示词
+ * @param theme - 对联主题
+ * @param difficulty - 难度等级 ('simple' | 'medium' | 'hard')，影响字数范围
+ * @param version - 模板版本（可选，默认使用权重最高的版本）
+ */
+export function createCoupletUpperPrompt(
+  theme: string,
+  difficulty?: 'simple' | 'medium' | 'hard',
+  version?: string
+): string {
+  return renderPromptTemplate(
+    'couplet_upper',
+    resolvePromptVersion('couplet_upper', undefined, version),
+    { theme, charRange: getCoupletCharRange(difficulty) }
+  );
 }
 
 /**
@@ -146,48 +192,89 @@ export function createCoupletUpperPrompt(theme: string, difficulty?: 'simple' |
  * @param upperLine - 上联内容
  * @param lowerLine - 下联内容
  * @param difficulty - 难度等级，影响评标准
+ * @param version - 模板版本（可选，默认使用权重最高的版本）
  */
 export function createCoupletReviewPrompt(
   upperLine: string,
   lowerLine: string,
-  difficulty?: 'simple' | 'medium' | 'hard'
+  difficulty?: 'simple' | 'medium' | 'hard',
+  version?: string
 ): string {
-  // 根据难度确定字数范围，用于评下联
-  const difficultyMap: Record<string, { min: number; max: number; desc: string }> = {
-    'simple': { min: 4, max: 5, desc: '4-5' },
-    'medium': { min: 6, max: 8, desc: '6-8' },
-    'hard': { min: 9, max: 14, desc: '9-14' }
-  };
-
-  const targetDifficulty = difficultyMap[difficulty || 'medium'];
-  const charRange = `${targetDifficulty.min}-${targetDifficulty.max}`;
-
-  return `
-# Role
-你是一位和蔼的中文对联老师傅，擅长用大白话点评对联，鼓励初学者。你既能欣赏传统工整的对仗，也乐见年轻人以幽默诙谐的方式玩对联——哪怕下联不太合规矩，只要押韵有趣、心意到了，你也会笑着夸一句"有意思"。
-
-# Task
-点评用户写的下联是否配得上这条上联。
-
-- 上联（${charRange}字）：${upperLine}
-- 下联（应为${charRange}字）：${lowerLine}
-
-# Requirements
-
-1. 字数要求：下联应为 ${charRange} 个汉字，与上联相配。字数不符时要特别指出，但不要因此过度扣分。
-2. 先判断下联风格：是传统工整型还是诙谐搞笑型。两种风格都认真点评，不要因风格不同而否定用户。
-3. 从三方面简评：字数是否相配、词性/结构是否大致对仗、意境是否贴切。
-4. 诙谐搞笑型的下联（如押韵、谐音梗、搞笑呼应）：重点肯定其趣味性和创意，不苛求传统对仗和平仄，语气可以轻松幽默，像朋友间开玩笑。
-5. 随意发挥型的下联（如个性化的表达、独特的创意）：可以适当给予评价，像私塾老先生对孩童般宽容，鼓励用户的创作热情。
-6. 不苛求严格平仄，语气鼓励为主，避免打击创作热情。
-7. 评语口语化，每条建议不超过 20 字，不用过多文言术语。
-8. canShare 判断：下联不含攻击性、低俗、政治敏感、暴力内容时 canShare 为 true；否则为 false。诙谐搞笑但无害的内容完全可以分享。
-9. score 为 1-5 的整数（5 最好）。诙谐搞笑型只要有趣、押韵、无害，可以给到 3 分。
-10. summary 不超过 20 字。
+  return renderPromptTemplate(
+    'couplet_review',
+    resolvePromptVersion('couplet_review', undefined, version),
+    { upperLine, lowerLine, charRange: getCoupletCharRange(difficulty) }
+  );
+}
 
-# Output
-直接输出一个 JSON 对象，不要任何解释文字，不要 markdown 代码块标记（\`\`\`），不要多余文字。格式如下：
-{"score":4,"summary":"一句话总评","strengths":["优点1"],"suggestions":["建议1"],"canShare":true}`;
+/**
+ * 配横批的提示词
+ * @param upperLine - 上联内容
+ * @param lowerLine - 下联内容
+ * @param theme - 对联主题
+ * @param version - 模板版本（可选，默认使用权重最高的版本）
+ */
+export function createCoupletHorizontalPrompt(
+  upperLine: string,
+  lowerLine: string,
+  theme: string,
+  version?: string
+): string {
+  return renderPromptTemplate(
+    'couplet_horizontal',
+    resolvePromptVersion('couplet_horizontal', undefined, version),
+    { theme, upperLine, lowerLine }
+  );
+}
+
+/**
+ * 点评用户自写横批的提示词（要求严格 JSON）
+ * @param upperLine - 上联内容
+ * @param lowerLine - 下联内容
+ * @param horizontalScroll - 横批内容
+ * @param version - 模板版本（可选，默认使用权重最高的版本）
+ */
+export function createCoupletHorizontalReviewPrompt(
+  upperLine: string,
+  lowerLine: string,
+  horizontalScroll: string,
+  version?: string
+): string {
+  return renderPromptTemplate(
+    'couplet_horizontal_review',
+    resolvePromptVersion('couplet_horizontal_review', undefined, version),
+    { upperLine, lowerLine, horizontalScroll }
+  );
+}
+
+/**
+ * 反向模式对下联的提示词（一次生成多条候选）
+ * @param upperLine - 用户出的上联
+ * @param theme - 对联主题
+ * @param count - 候选数量
+ * @param version - 模板版本（可选，默认使用权重最高的版本）
+ */
+export function createCoupletLowerPrompt(
+  upperLine: string,
+  theme: string,
+  count: number,
+  version?: string
+): string {
+  return renderPromptTemplate(
+    'couplet_lower',
+    resolvePromptVersion('couplet_lower', undefined, version),
+    { theme, upperLine, charCount: String(Array.from(upperLine).length), count: String(count) }
+  );
+}
+
+/**
+ * 根据难度获取对联字数范围描述，如 6-8
+ * @param difficulty - 难度等级
+ * @returns 字数范围
+ */
+function getCoupletCharRange(difficulty?: 'simple' | 'medium' | 'hard'): string {
+  const targetDifficulty = DIFFICULTY_LINE_LIMITS[difficulty || 'medium'];
+  return `${targetDifficulty.min}-${targetDifficulty.max}`;
 }
 
 /**
@@ -214,18 +301,50 @@ function getUserProfileToneGuidance(userProfile?: 'elderly' | 'standard' | 'youn
 }
 
 /**
- * 根据用户群调整祝福语长度建议
+ * 根据用户群获取祝福语字数范围
+ * 提示词中的字数要求与生成后的长度校验共用这一范围
  * @param userProfile - 用户群类型
- * @returns 字数范围描述
+ * @returns 最少与最多字数
  */
-export function getBlessingLengthGuidance(userProfile?: 'elderly' | 'standard' | 'young'): string {
+export function getBlessingLengthRange(userProfile?: 'elderly' | 'standard' | 'young'): { min: number; max: number } {
   switch (userProfile) {
     case 'elderly':
-      return '40-70字';  // 简短清晰，便于阅读
+      return { min: 40, max: 70 };  // 简短清晰，便于阅读
     case 'young':
-      return '60-120字'; // 可稍长，表达更丰富
+      return { min: 60, max: 120 }; // 可稍长，表达更丰富
     case 'standard':
     default:
-      return '50-100字'; // 通用长度
+      return { min: 50, max: 100 }; // 通用长度
   }
 }
+
+/**
+ * 根据用户群调整祝福语长度建议
+ * @param userProfile - 用户群类型
+ * @returns 字数范围描述
+ */
+export function getBlessingLengthGuidance(userProfile?: 'elderly' | 'standard' | 'young'): string {
+  const { min, max } = getBlessingLengthRange(userProfile);
+  return `${min}-${max}字`;
+}
+
+/**
+ * 创建纠正提示词
+ * 生成结果不符合要求（过长、过短等）时，附带上一次的输出和具体问题让模型重写一次
+ * @param prompt - 原始提示词
+ * @param previous - 上一次（清理后）的输出
+ * @param problems - 需要纠正的问题描述
+ * @returns 纠正提示词
+ */
+export function createBlessingCorrectionPrompt(prompt: string, previous: string, problems: string[]): string {
+  return `${prompt}
+
+# Correction
+你上一次的输出如下：
+${previous || '（空）'}
+
+它存在以下问题，请重新创作一段符合全部要求的祝福语：
+${problems.map((problem, index) => `${index + 1}. ${problem}`).join('\n')}
+
+只输出祝福语正文，不要任何开头语、解释、标题或 markdown 格式。`;
+}
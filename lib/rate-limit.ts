@@ -3,7 +3,7 @@ import { kv } from '@vercel/kv';
 /**
  * 速率限制配置
  */
-const RATE_LIMIT_CONFIG = {
+export const RATE_LIMIT_CONFIG = {
   // 分钟级限制
   minute: {
     window: 60, // 60秒
@@ -37,6 +37,13 @@ interface RateLimitResult {
   error?: string;
 }
 
+/**
+ * 速率限制选项
+ */
+interface RateLimitOptions {
+  extraDaily?: number; // 积分兑换获得的额外每日次数，叠加在 RATE_LIMIT_CONFIG.daily.max 之上
+}
+
 /**
  * 改进的IP检测函数，适配Vercel环境
  * @param request Next.js请求对象
@@ -124,12 +131,14 @@ function checkMemoryRateLimit(identifier: string): RateLimitResult {
 
 /**
  * 基于Redis的速率限制检查（生产环境）或内存限制（开发环境）
- * @param identifier 标识符（通常是IP地址）
+ * @param identifier 标识符（IP地址或用户 openid）
+ * @param options 速率限制选项（用户权益）
  * @returns 限制检查结果
  */
-export async function checkRateLimit(identifier: string): Promise<RateLimitResult> {
+export async function checkRateLimit(identifier: string, options: RateLimitOptions = {}): Promise<RateLimitResult> {
   try {
     const now = Math.floor(Date.now() / 1000);
+    const dailyMax = RATE_LIMIT_CONFIG.daily.max + (options.extraDaily ?? 0);
 
     const minuteKey = `rate_limit:minute:${identifier}:${Math.floor(now / RATE_LIMIT_CONFIG.minute.window)}`;
     const minuteCount = await kv.incr(minuteKey);
@@ -155,13 +164,13 @@ export async function checkRateLimit(identifier: string): Promise<RateLimitResul
       await kv.expire(dailyKey, Math.floor((tomorrow.getTime() - Date.now()) / 1000));
     }
 
-    if (dailyCount > RATE_LIMIT_CONFIG.daily.max) {
+    if (dailyCount > dailyMax) {
       const tomorrow = new Date();
       tomorrow.setDate(tomorrow.getDate() + 1);
       tomorrow.setHours(0, 0, 0, 0);
       return {
         success: false,
-        limit: RATE_LIMIT_CONFIG.daily.max,
+        limit: dailyMax,
         remaining: 0,
         resetTime: Math.floor(tomorrow.getTime() / 1000),
         error: '今日使用次数已达上限'
@@ -183,11 +192,13 @@ export async function checkRateLimit(identifier: string): Promise<RateLimitResul
 /**
  * 获取速率限制状态（不增加计数）
  * @param identifier 标识符
+ * @param options 速率限制选项（用户权益）
  * @returns 当前限制状态
  */
-export async function getRateLimitStatus(identifier: string): Promise<RateLimitResult> {
+export async function getRateLimitStatus(identifier: string, options: RateLimitOptions = {}): Promise<RateLimitResult> {
   try {
     const now = Math.floor(Date.now() / 1000);
+    const dailyMax = RATE_LIMIT_CONFIG.daily.max + (options.extraDaily ?? 0);
 
     const minuteKey = `rate_limit:minute:${identifier}:${Math.floor(now / RATE_LIMIT_CONFIG.minute.window)}`;
     const minuteCount = Number(await kv.get(minuteKey) ?? 0);
@@ -197,11 +208,11 @@ export async function getRateLimitStatus(identifier: string): Promise<RateLimitR
     const dailyCount = Number(await kv.get(dailyKey) ?? 0);
 
     return {
-      success: minuteCount < RATE_LIMIT_CONFIG.minute.max && dailyCount < RATE_LIMIT_CONFIG.daily.max,
+      success: minuteCount < RATE_LIMIT_CONFIG.minute.max && dailyCount < dailyMax,
       limit: RATE_LIMIT_CONFIG.minute.max,
       remaining: Math.min(
         Math.max(0, RATE_LIMIT_CONFIG.minute.max - minuteCount),
-        Math.max(0, RATE_LIMIT_CONFIG.daily.max - dailyCount)
+        Math.max(0, dailyMax - dailyCount)
       ),
       resetTime: (Math.floor(now / RATE_LIMIT_CONFIG.minute.window) + 1) * RATE_LIMIT_CONFIG.minute.window
     };
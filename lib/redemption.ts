@@ -0,0 +1,142 @@
+import { randomUUID } from "crypto";
+import {
+  PREMIUM_STYLES,
+  REDEMPTION_CATALOG,
+  RedemptionItem,
+} from "@/lib/config/redemption-catalog";
+import { entitlementDb, pointsDb, userStatsDb } from "@/lib/db";
+
+/**
+ * 积分兑换与权益
+ * 兑换在一个数据库事务中完成余额检查、扣减积分和发放权益；请求携带 requestId 时可安全重试，
+ * 同一 requestId 只扣一次分。速率限制、祝福语风格校验和 UI 配置通过 getUserEntitlements 读取权益。
+ */
+
+/**
+ * 用户当前有效的权益汇总
+ */
+export interface UserEntitlements {
+  extraDailyGenerations: number;  // 每天额外的生成次数（多个加油包叠加）
+  premiumStyles: string[];        // 已解锁的高级风格
+  cardThemes: string[];           // 已解锁的对联卡片主题
+}
+
+/**
+ * 兑换结果
+ */
+export interface RedeemResult {
+  status: 'redeemed' | 'duplicate' | 'not_found' | 'owned' | 'insufficient';
+  item?: RedemptionItem;
+  balance?: number;
+}
+
+/**
+ * 获取用户当前有效的权益
+ * @param openid - 用户 openid
+ * @returns 权益汇总
+ */
+export async function getUserEntitlements(openid: string): Promise<UserEntitlements> {
+  const rows = await entitlementDb.getActiveEntitlements(openid);
+  const entitlements: UserEntitlements = { extraDailyGenerations: 0, premiumStyles: [], cardThemes: [] };
+
+  for (const row of rows) {
+    const value = row.value === null ? "" : String(row.value);
+    if (row.type === 'extra_daily_generations') {
+      entitlements.extraDailyGenerations += Number(row.amount) || 0;
+    } else if (row.type === 'premium_style' && value && !entitlements.premiumStyles.includes(value)) {
+      entitlements.premiumStyles.push(value);
+    } else if (row.type === 'card_theme' && value && !entitlements.cardThemes.includes(value)) {
+      entitlements.cardThemes.push(value);
+    }
+  }
+  return entitlements;
+}
+
+/**
+ * 判断风格是否需要兑换后使用
+ * @param style - 祝福语风格
+ */
+export function isPremiumStyle(style?: string): boolean {
+  return !!style && PREMIUM_STYLES.some((item) => item.value === style);
+}
+
+/**
+ * 判断用户是否已拥有某个永久解锁类商品
+ */
+function ownsItem(item: RedemptionItem, entitlements: UserEntitlements): boolean {
+  switch (item.grant.type) {
+    case 'premium_style':
+      return entitlements.premiumStyles.includes(item.grant.style);
+    case 'card_theme':
+      return entitlements.cardThemes.includes(item.grant.theme);
+    case 'extra_daily_generations':
+      return false;
+  }
+}
+
+/**
+ * 获取兑换目录，并标记用户已拥有的商品
+ * @param openid - 用户 openid
+ * @returns 商品列表
+ */
+export async function getRedemptionCatalog(openid: string): Promise<Array<RedemptionItem & { owned: boolean }>> {
+  const entitlements = await getUserEntitlements(openid);
+  return REDEMPTION_CATALOG.map((item) => ({
+    ...item,
+    owned: !item.repeatable && ownsItem(item, entitlements),
+  }));
+}
+
+/**
+ * 兑换商品
+ * @param openid - 用户 openid
+ * @param itemId - 商品 ID
+ * @param requestId - 客户端生成的请求 ID（可选，用于重试时避免重复扣分）
+ * @returns 兑换结果与最新余额
+ */
+export async function redeemItem(openid: string, itemId: string, requestId?: string): Promise<RedeemResult> {
+  const item = REDEMPTION_CATALOG.find((candidate) => candidate.id === itemId);
+  if (!item) {
+    return { status: 'not_found' };
+  }
+
+  const idempotencyKey = `redeem:${requestId || randomUUID()}`;
+  if (await pointsDb.hasEntry(openid, idempotencyKey)) {
+    return { status: 'duplicate', item, balance: await pointsDb.getBalance(openid) };
+  }
+
+  if (!item.repeatable && ownsItem(item, await getUserEntitlements(openid))) {
+    return { status: 'owned', item };
+  }
+
+  await userStatsDb.initUserStats(openid);
+
+  const { grant } = item;
+  const redeemed = await entitlementDb.redeem({
+    openid,
+    itemId: item.id,
+    repeatable: item.repeatable,
+    cost: item.cost,
+    reason: `兑换${item.name}`,
+    idempotencyKey,
+    type: grant.type,
+    value: grant.type === 'premium_style' ? grant.style : grant.type === 'card_theme' ? grant.theme : null,
+    amount: grant.type === 'extra_daily_generations' ? grant.amount : null,
+    expiresAt: grant.type === 'extra_daily_generations'
+      ? new Date(Date.now() + grant.days * 24 * 60 * 60 * 1000).toISOString()
+      : null,
+  });
+
+  const balance = await pointsDb.getBalance(openid);
+  if (redeemed) {
+    return { status: 'redeemed', item, balance };
+  }
+  // 未写入：并发重试已由另一个请求完成，并发兑换已拿到同一商品，或余额不足
+  if (await pointsDb.hasEntry(openid, idempotencyKey)) {
+    return { status: 'duplicate', item, balance };
+  }
+  if (!item.repeatable && ownsItem(item, await getUserEntitlements(openid))) {
+    return { status: 'owned', item, balance };
+  }
+  return { status: 'insufficient', item, balance };
+}
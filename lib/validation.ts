@@ -1,7 +1,10 @@
 // 简化的验证规则
 const LIMITS = {
   customDescription: { min: 5, max: 300 },
-  additionalInfo: { max: 100 }
+  additionalInfo: { max: 100 },
+  refineInstruction: { max: 100 },
+  refineBlessing: { max: 300 },
+  name: { max: 20 }
 };
 
 // 基础危险词过滤（只过滤明显的提示词注入）
@@ -50,6 +53,42 @@ export function validateInput(data: unknown): { valid: boolean; error?: string }
   return { valid: true };
 }
 
+// 修改请求验证：需要原祝福语或历史记录，以及快捷选项或自定义修改意见
+export function validateRefineInput(data: unknown): { valid: boolean; error?: string } {
+  if (!data || typeof data !== 'object') {
+    return { valid: false, error: "请求参数无效" };
+  }
+
+  const inputData = data as Record<string, unknown>;
+  const blessing = typeof inputData.blessing === 'string' ? inputData.blessing.trim() : '';
+  if (!blessing && !inputData.historyId) {
+    return { valid: false, error: "缺少需要修改的祝福语" };
+  }
+  if (blessing.length > LIMITS.refineBlessing.max) {
+    return { valid: false, error: "祝福语太长，无法修改" };
+  }
+
+  const instruction = typeof inputData.instruction === 'string' ? inputData.instruction.trim() : '';
+  if (!inputData.preset && !instruction) {
+    return { valid: false, error: "请输入修改意见" };
+  }
+  if (instruction.length > LIMITS.refineInstruction.max) {
+    return { valid: false, error: "修改意见太长，请简化一下" };
+  }
+
+  const name = typeof inputData.name === 'string' ? inputData.name.trim() : '';
+  if (name.length > LIMITS.name.max) {
+    return { valid: false, error: "名字太长" };
+  }
+
+  // 修改意见与名字都会拼进对话，同样检查危险模式
+  if (BLOCKED_PATTERNS.some(pattern => pattern.test(instruction) || pattern.test(name) || pattern.test(blessing))) {
+    return { valid: false, error: "输入内容不符合要求" };
+  }
+
+  return { valid: true };
+}
+
 // 简单文本清理（移除控制字符）
 export function cleanText(text: string): string {
   return text.replace(/[\x00-\x1F\x7F]/g, '').trim();